@@ -3,26 +3,67 @@ import { HashRouter, Routes, Route, Navigate } from "react-router-dom";
 import { Layout } from "./components/Layout";
 import { DashboardPage } from "./pages/DashboardPage";
 import { ProjectDetailsPage } from "./pages/ProjectDetailsPage";
-// import { MockDownloadPage } from './pages/MockDownloadPage'; // Removed
+import { InstallPage } from "./pages/InstallPage";
+import { SettingsPage } from "./pages/SettingsPage";
+import { AuditLogPage } from "./pages/AuditLogPage";
+import { LoginPage } from "./pages/LoginPage";
+import { RequireAuth } from "./components/auth/RequireAuth";
 import { ProjectsProvider } from "./contexts/ProjectsContext";
+import { BackendProvider } from "./contexts/BackendContext";
+import { AuthProvider } from "./contexts/AuthContext";
+import { UploadsProvider } from "./contexts/UploadsContext";
+import { LlmSettingsProvider } from "./contexts/LlmSettingsContext";
 
 const App: React.FC = () => {
   return (
-    <ProjectsProvider>
-      <HashRouter>
-        <Layout>
-          <Routes>
-            <Route path="/dashboard" element={<DashboardPage />} />
-            <Route
-              path="/project/:projectId"
-              element={<ProjectDetailsPage />}
-            />
-            {/* <Route path="/app-downloads/:projectId/:versionId" element={<MockDownloadPage />} /> // Removed route */}
-            <Route path="*" element={<Navigate to="/dashboard" replace />} />
-          </Routes>
-        </Layout>
-      </HashRouter>
-    </ProjectsProvider>
+    <BackendProvider>
+      <AuthProvider>
+        <ProjectsProvider>
+          <UploadsProvider>
+            <LlmSettingsProvider>
+              <HashRouter>
+                <Routes>
+                  {/* Public install page, shared with testers outside the dashboard */}
+                  <Route
+                    path="/app-downloads/:projectId/:versionId"
+                    element={<InstallPage />}
+                  />
+                  <Route path="/login" element={<LoginPage />} />
+                  <Route
+                    path="*"
+                    element={
+                      <RequireAuth>
+                        <Layout>
+                          <Routes>
+                            <Route
+                              path="/dashboard"
+                              element={<DashboardPage />}
+                            />
+                            <Route
+                              path="/project/:projectId"
+                              element={<ProjectDetailsPage />}
+                            />
+                            <Route path="/audit" element={<AuditLogPage />} />
+                            <Route
+                              path="/settings"
+                              element={<SettingsPage />}
+                            />
+                            <Route
+                              path="*"
+                              element={<Navigate to="/dashboard" replace />}
+                            />
+                          </Routes>
+                        </Layout>
+                      </RequireAuth>
+                    }
+                  />
+                </Routes>
+              </HashRouter>
+            </LlmSettingsProvider>
+          </UploadsProvider>
+        </ProjectsProvider>
+      </AuthProvider>
+    </BackendProvider>
   );
 };
 
@@ -1,13 +1,33 @@
 
 import React from 'react';
-import { Link } from 'react-router-dom';
-import { HomeIcon, CubeIcon } from './common/Icons';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  HomeIcon,
+  CubeIcon,
+  ClipboardDocumentListIcon,
+  Cog6ToothIcon,
+  ServerStackIcon,
+  UserCircleIcon,
+  ArrowRightOnRectangleIcon,
+} from './common/Icons';
+import { useBackend } from '../contexts/BackendContext';
+import { useAuth } from '../contexts/AuthContext';
+import { UploadQueue } from './uploads/UploadQueue';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
+  const { activeProfile } = useBackend();
+  const { user, logout } = useAuth();
+  const navigate = useNavigate();
+
+  const handleSignOut = async () => {
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
   return (
     <div className="flex h-screen bg-slate-900 text-slate-100">
       {/* Sidebar */}
@@ -27,20 +47,66 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                 <span>Dashboard</span>
               </Link>
             </li>
+            <li>
+              <Link
+                to="/audit"
+                className="flex items-center space-x-3 text-slate-300 hover:bg-slate-700 hover:text-sky-400 p-3 rounded-lg transition-colors duration-200"
+              >
+                <ClipboardDocumentListIcon className="h-6 w-6" />
+                <span>Audit Log</span>
+              </Link>
+            </li>
+            <li>
+              <Link
+                to="/settings"
+                className="flex items-center space-x-3 text-slate-300 hover:bg-slate-700 hover:text-sky-400 p-3 rounded-lg transition-colors duration-200"
+              >
+                <Cog6ToothIcon className="h-6 w-6" />
+                <span>Settings</span>
+              </Link>
+            </li>
             {/* Add more navigation links here if needed */}
           </ul>
         </nav>
+        {user && (
+          <div className="absolute bottom-0 left-0 right-0 p-6 border-t border-slate-700">
+            <div className="flex items-center space-x-3 mb-3">
+              <UserCircleIcon className="h-8 w-8 text-slate-400 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-200 truncate">{user.name}</p>
+                <p className="text-xs text-slate-400 truncate">{user.email}</p>
+              </div>
+            </div>
+            <button
+              onClick={handleSignOut}
+              className="w-full flex items-center space-x-3 text-slate-300 hover:bg-slate-700 hover:text-red-400 p-3 rounded-lg transition-colors duration-200"
+            >
+              <ArrowRightOnRectangleIcon className="h-6 w-6" />
+              <span>Sign out</span>
+            </button>
+          </div>
+        )}
       </aside>
 
       {/* Main content area */}
       <div className="flex-1 flex flex-col ml-64">
-        <header className="bg-slate-800 shadow-md p-6 sticky top-0 z-10">
+        <header className="bg-slate-800 shadow-md p-6 sticky top-0 z-10 flex justify-between items-center">
           <h2 className="text-xl font-semibold text-slate-200">Application Release Hub</h2>
+          <Link
+            to="/settings"
+            className="flex items-center space-x-2 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-sm text-slate-200 transition-colors"
+            title={`Backend: ${activeProfile.baseUrl}`}
+          >
+            <ServerStackIcon className="h-5 w-5 text-sky-400" />
+            <span>{activeProfile.name}</span>
+          </Link>
         </header>
         <main className="flex-1 p-8 overflow-y-auto">
           {children}
         </main>
       </div>
+
+      <UploadQueue />
     </div>
   );
 };
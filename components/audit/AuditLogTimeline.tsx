@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../../contexts/AuthContext";
+import { AuditLogEntry, DeploymentEnvironment } from "../../types";
+import { AUDIT_ACTIONS } from "../../constants";
+import { isAbortError } from "../../services/apiClient";
+import {
+  AuditLogFilters,
+  filterAuditLog,
+  getAuditActionLabel,
+} from "../../utils/audit";
+import { Input } from "../common/Input";
+import { Select } from "../common/Select";
+
+interface AuditLogTimelineProps {
+  projectId?: string; // Shows every project with a project filter when omitted
+}
+
+const AUDIT_LOG_LIMIT = 500;
+
+const getActionColor = (action: string) => {
+  if (action.endsWith("deleted") || action.endsWith("removed")) {
+    return "bg-red-500";
+  }
+  if (action.endsWith("rolledBack")) return "bg-amber-500";
+  if (action.startsWith("version.") || action.startsWith("bundle.")) {
+    return "bg-sky-500";
+  }
+  return "bg-slate-400";
+};
+
+const formatEnvironments = (environments: DeploymentEnvironment[]) =>
+  environments.length > 0 ? environments.join(", ") : "none";
+
+export const AuditLogTimeline: React.FC<AuditLogTimelineProps> = ({
+  projectId,
+}) => {
+  const { api } = useAuth();
+  const [entries, setEntries] = useState<AuditLogEntry[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditLogFilters>({
+    projectId: "",
+    action: "",
+    actorId: "",
+    search: "",
+  });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setEntries(null);
+    setLoadError(null);
+    api.audit
+      .list(
+        { projectId, limit: AUDIT_LOG_LIMIT },
+        { signal: controller.signal }
+      )
+      .then((loaded) => setEntries(loaded || []))
+      .catch((e: any) => {
+        if (isAbortError(e)) return;
+        console.error("Failed to load audit log:", e);
+        setLoadError(e.message || "Failed to load audit log.");
+      });
+    return () => controller.abort();
+  }, [api, projectId]);
+
+  // Filter options only list projects and people present in the log, which
+  // includes deleted projects.
+  const { projectOptions, actorOptions } = useMemo(() => {
+    const projectNames = new Map<string, string>();
+    const actorNames = new Map<string, string>();
+    (entries || []).forEach((entry) => {
+      projectNames.set(entry.projectId, entry.projectName);
+      actorNames.set(entry.actor._id, entry.actor.name || entry.actor.email);
+    });
+    const toOptions = (names: Map<string, string>, allLabel: string) => [
+      { value: "", label: allLabel },
+      ...Array.from(names, ([value, label]) => ({ value, label })).sort(
+        (a, b) => a.label.localeCompare(b.label)
+      ),
+    ];
+    return {
+      projectOptions: toOptions(projectNames, "All projects"),
+      actorOptions: toOptions(actorNames, "Everyone"),
+    };
+  }, [entries]);
+
+  const visibleEntries = entries ? filterAuditLog(entries, filters) : [];
+
+  const updateFilter = (changes: Partial<AuditLogFilters>) =>
+    setFilters((prev) => ({ ...prev, ...changes }));
+
+  return (
+    <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
+      <div className="p-6 border-b border-slate-700 space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-200">Audit Log</h2>
+          <p className="text-sm text-slate-400">
+            Who changed what, newest first.
+          </p>
+        </div>
+        <div
+          className={`grid grid-cols-1 gap-4 ${
+            projectId ? "md:grid-cols-3" : "md:grid-cols-4"
+          }`}
+        >
+          {!projectId && (
+            <Select
+              label="Project"
+              id="audit-project"
+              value={filters.projectId}
+              onChange={(e) => updateFilter({ projectId: e.target.value })}
+              options={projectOptions}
+              className="bg-slate-700 border-slate-600 text-slate-100"
+            />
+          )}
+          <Select
+            label="Action"
+            id="audit-action"
+            value={filters.action}
+            onChange={(e) =>
+              updateFilter({
+                action: e.target.value as AuditLogFilters["action"],
+              })
+            }
+            options={[
+              { value: "", label: "All actions" },
+              ...AUDIT_ACTIONS.map((a) => ({ value: a.value, label: a.label })),
+            ]}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+          <Select
+            label="Actor"
+            id="audit-actor"
+            value={filters.actorId}
+            onChange={(e) => updateFilter({ actorId: e.target.value })}
+            options={actorOptions}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+          <Input
+            label="Search"
+            id="audit-search"
+            type="search"
+            value={filters.search}
+            onChange={(e) => updateFilter({ search: e.target.value })}
+            placeholder="Version, note, person..."
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+        </div>
+      </div>
+
+      {loadError ? (
+        <div
+          className="m-6 p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+          role="alert"
+        >
+          {loadError}
+        </div>
+      ) : !entries ? (
+        <p className="text-slate-400 p-6 text-center">Loading audit log...</p>
+      ) : visibleEntries.length === 0 ? (
+        <p className="text-slate-400 p-6 text-center">
+          {entries.length === 0
+            ? "Nothing has been recorded yet."
+            : "No entries match the filters."}
+        </p>
+      ) : (
+        <ol className="p-6 space-y-5 border-l border-slate-700 ml-9">
+          {visibleEntries.map((entry) => (
+            <li key={entry._id} className="relative pl-6">
+              <span
+                className={`absolute -left-[1.85rem] top-1.5 h-3 w-3 rounded-full ring-4 ring-slate-800 ${getActionColor(
+                  entry.action
+                )}`}
+              />
+              <div className="flex flex-wrap items-baseline gap-x-2">
+                <span className="font-medium text-slate-100">
+                  {getAuditActionLabel(entry.action)}
+                </span>
+                {entry.target && (
+                  <span className="text-slate-300">{entry.target}</span>
+                )}
+                {!projectId && (
+                  <span className="text-sm text-slate-400">
+                    in{" "}
+                    {entry.action === "project.deleted" ? (
+                      entry.projectName
+                    ) : (
+                      <Link
+                        to={`/project/${entry.projectId}`}
+                        className="text-sky-400 hover:text-sky-300"
+                      >
+                        {entry.projectName}
+                      </Link>
+                    )}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-slate-400">
+                {entry.actor.name || entry.actor.email} ·{" "}
+                {new Date(entry.createdAt).toLocaleString()}
+              </p>
+              {(entry.environmentsBefore || entry.environmentsAfter) && (
+                <p className="mt-1 text-sm text-slate-300">
+                  <span className="text-slate-400">Environments: </span>
+                  {formatEnvironments(entry.environmentsBefore || [])} →{" "}
+                  {formatEnvironments(entry.environmentsAfter || [])}
+                </p>
+              )}
+              {entry.details && (
+                <p className="mt-1 text-sm text-slate-300">{entry.details}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from "react";
+import { Button } from "./Button";
+import { copyToClipboard } from "../../utils/clipboard";
+
+interface CodeBlockProps {
+  code: string;
+  copyLabel: string; // Names the content in the fallback copy prompt
+}
+
+export const CodeBlock: React.FC<CodeBlockProps> = ({ code, copyLabel }) => (
+  <div className="relative">
+    <pre className="p-3 pr-20 rounded-md bg-slate-900 text-xs text-slate-200 font-mono overflow-x-auto whitespace-pre">
+      {code}
+    </pre>
+    <Button
+      variant="secondary"
+      size="sm"
+      className="absolute top-2 right-2"
+      onClick={() => copyToClipboard(code, `Copy the ${copyLabel}:`)}
+    >
+      Copy
+    </Button>
+  </div>
+);
@@ -0,0 +1,33 @@
+import React from "react";
+import { DiffLine } from "../../utils/textDiff";
+
+interface DiffLinesProps {
+  lines: DiffLine[];
+  className?: string;
+}
+
+const LINE_CLASSES = {
+  unchanged: "text-slate-300",
+  added: "bg-emerald-900/40 text-emerald-200",
+  removed: "bg-red-900/40 text-red-200",
+};
+
+const LINE_PREFIXES = { unchanged: " ", added: "+", removed: "-" };
+
+export const DiffLines: React.FC<DiffLinesProps> = ({
+  lines,
+  className = "",
+}) => (
+  <pre
+    className={`overflow-auto rounded-md bg-slate-900 py-2 font-mono text-xs ${className}`}
+  >
+    {lines.map((line, index) => (
+      <div
+        key={index}
+        className={`px-3 whitespace-pre-wrap ${LINE_CLASSES[line.type]}`}
+      >
+        {LINE_PREFIXES[line.type]} {line.text}
+      </div>
+    ))}
+  </pre>
+);
@@ -0,0 +1,31 @@
+import React from 'react';
+import { hasIntegrityMismatch } from '../../utils/integrity';
+
+interface IntegrityBadgeProps {
+  serverHash?: string;
+  clientHash?: string;
+}
+
+export const IntegrityBadge: React.FC<IntegrityBadgeProps> = ({ serverHash, clientHash }) => {
+  if (!serverHash || !clientHash) return null;
+
+  if (hasIntegrityMismatch(serverHash, clientHash)) {
+    return (
+      <span
+        className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-red-700 text-red-50"
+        title={`SHA-256 mismatch. Uploaded: ${clientHash} / Stored: ${serverHash}. The file may have been corrupted in transit.`}
+      >
+        Hash mismatch
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-emerald-700 text-emerald-50"
+      title={`SHA-256 verified: ${serverHash}`}
+    >
+      Verified
+    </span>
+  );
+};
@@ -0,0 +1,136 @@
+import React from "react";
+import {
+  MarkdownBlock,
+  MarkdownInline,
+  parseMarkdown,
+} from "../../utils/markdown";
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = [
+  "text-lg font-semibold text-slate-100",
+  "text-base font-semibold text-slate-100",
+  "text-sm font-semibold text-slate-100",
+];
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case "code":
+        return (
+          <code
+            key={index}
+            className="px-1 py-0.5 rounded bg-slate-900 font-mono text-xs text-slate-200"
+          >
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return (
+          <strong key={index} className="font-semibold text-slate-100">
+            {renderInline(node.children)}
+          </strong>
+        );
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "strike":
+        return <s key={index}>{renderInline(node.children)}</s>;
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sky-400 hover:text-sky-300 underline"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlock = (block: MarkdownBlock, index: number): React.ReactNode => {
+  switch (block.type) {
+    case "heading": {
+      const Tag = `h${block.level}` as "h1";
+      return (
+        <Tag
+          key={index}
+          className={
+            HEADING_CLASSES[Math.min(block.level, HEADING_CLASSES.length) - 1]
+          }
+        >
+          {renderInline(block.children)}
+        </Tag>
+      );
+    }
+    case "paragraph":
+      return (
+        <p key={index}>
+          {block.lines.map((line, i) => (
+            <React.Fragment key={i}>
+              {i > 0 && <br />}
+              {renderInline(line)}
+            </React.Fragment>
+          ))}
+        </p>
+      );
+    case "list": {
+      const items = block.items.map((item, i) => (
+        <li key={i}>{renderInline(item)}</li>
+      ));
+      return block.ordered ? (
+        <ol
+          key={index}
+          start={block.start}
+          className="list-decimal pl-5 space-y-1"
+        >
+          {items}
+        </ol>
+      ) : (
+        <ul key={index} className="list-disc pl-5 space-y-1">
+          {items}
+        </ul>
+      );
+    }
+    case "code":
+      return (
+        <pre
+          key={index}
+          className="p-3 rounded-md bg-slate-900 font-mono text-xs text-slate-300 overflow-x-auto"
+        >
+          {block.text}
+        </pre>
+      );
+    case "quote":
+      return (
+        <blockquote
+          key={index}
+          className="pl-3 border-l-2 border-slate-600 text-slate-400 space-y-2"
+        >
+          {block.children.map(renderBlock)}
+        </blockquote>
+      );
+    case "rule":
+      return <hr key={index} className="border-slate-700" />;
+  }
+};
+
+/**
+ * Renders markdown as React elements. HTML in the source is shown as text
+ * and only http(s) and mailto links are kept, see utils/markdown.
+ */
+export const Markdown: React.FC<MarkdownProps> = ({
+  source,
+  className = "",
+}) => (
+  <div className={`space-y-3 text-sm text-slate-200 break-words ${className}`}>
+    {parseMarkdown(source).map(renderBlock)}
+  </div>
+);
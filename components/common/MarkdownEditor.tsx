@@ -0,0 +1,123 @@
+import React, { useRef, useState } from "react";
+import { applyMarkdownFormat, MarkdownFormat } from "../../utils/markdown";
+import { Markdown } from "./Markdown";
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  lang?: string;
+}
+
+const TOOLBAR: { format: MarkdownFormat; label: string; title: string }[] = [
+  { format: "bold", label: "B", title: "Bold" },
+  { format: "italic", label: "I", title: "Italic" },
+  { format: "heading", label: "H", title: "Heading" },
+  { format: "list", label: "•", title: "Bulleted list" },
+  { format: "link", label: "Link", title: "Link" },
+];
+
+const tabClassName = (active: boolean) =>
+  `px-3 py-1.5 text-xs font-medium rounded-t-md ${
+    active
+      ? "bg-slate-700 text-slate-100"
+      : "text-slate-400 hover:text-slate-200"
+  }`;
+
+/**
+ * A markdown textarea with a formatting toolbar and a rendered preview.
+ */
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
+  id,
+  value,
+  onChange,
+  placeholder,
+  rows = 4,
+  lang,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [isPreview, setIsPreview] = useState(false);
+
+  const handleFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const result = applyMarkdownFormat(
+      value,
+      textarea.selectionStart,
+      textarea.selectionEnd,
+      format
+    );
+    onChange(result.text);
+    // Restore the selection once React has rendered the new value.
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-end justify-between">
+        <div className="flex">
+          <button
+            type="button"
+            className={tabClassName(!isPreview)}
+            onClick={() => setIsPreview(false)}
+          >
+            Write
+          </button>
+          <button
+            type="button"
+            className={tabClassName(isPreview)}
+            onClick={() => setIsPreview(true)}
+          >
+            Preview
+          </button>
+        </div>
+        {!isPreview && (
+          <div className="flex space-x-1 pb-1">
+            {TOOLBAR.map(({ format, label, title }) => (
+              <button
+                key={format}
+                type="button"
+                title={title}
+                onClick={() => handleFormat(format)}
+                className={`px-2 py-0.5 rounded text-xs text-slate-300 hover:bg-slate-600 ${
+                  format === "bold"
+                    ? "font-bold"
+                    : format === "italic"
+                    ? "italic"
+                    : ""
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {isPreview ? (
+        <div className="p-3 rounded-b-md rounded-tr-md bg-slate-700 border border-slate-600 min-h-[5rem]">
+          {value.trim() ? (
+            <Markdown source={value} />
+          ) : (
+            <p className="text-sm text-slate-400">Nothing to preview.</p>
+          )}
+        </div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          id={id}
+          lang={lang}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={rows}
+          className="w-full p-2 rounded-b-md rounded-tr-md bg-slate-700 border border-slate-600 focus:ring-sky-500 focus:border-sky-500 text-sm text-slate-100 placeholder-slate-400"
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../../contexts/AuthContext";
+import { TopDownloadedVersion } from "../../types";
+import { isAbortError } from "../../services/apiClient";
+import { ArrowDownTrayIcon } from "../common/Icons";
+
+const TOP_DOWNLOADS_DAYS = 7;
+const TOP_DOWNLOADS_LIMIT = 5;
+
+/**
+ * The most downloaded builds across the user's projects this week.
+ */
+export const TopDownloadsCard: React.FC = () => {
+  const { api } = useAuth();
+  const [topVersions, setTopVersions] = useState<TopDownloadedVersion[] | null>(
+    null
+  );
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api.analytics
+      .getTopVersions(
+        { days: TOP_DOWNLOADS_DAYS, limit: TOP_DOWNLOADS_LIMIT },
+        { signal: controller.signal }
+      )
+      .then((loaded) => setTopVersions(loaded || []))
+      .catch((e: any) => {
+        if (isAbortError(e)) return;
+        console.error("Failed to load top downloads:", e);
+        setLoadError(e.message || "Failed to load top downloads.");
+      });
+    return () => controller.abort();
+  }, [api]);
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+      <div className="flex items-center space-x-2 mb-4">
+        <ArrowDownTrayIcon className="h-5 w-5 text-sky-400" />
+        <h2 className="text-lg font-semibold text-slate-200">
+          Most Downloaded This Week
+        </h2>
+      </div>
+      {loadError ? (
+        <p className="text-sm text-red-400">{loadError}</p>
+      ) : !topVersions ? (
+        <p className="text-sm text-slate-400">Loading downloads...</p>
+      ) : topVersions.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          No builds were downloaded in the last {TOP_DOWNLOADS_DAYS} days.
+        </p>
+      ) : (
+        <ol className="divide-y divide-slate-700">
+          {topVersions.map((entry, index) => (
+            <li
+              key={entry.versionId}
+              className="py-2 flex items-center justify-between space-x-4 text-sm"
+            >
+              <div className="flex items-center space-x-3 min-w-0">
+                <span className="w-5 text-slate-500">{index + 1}.</span>
+                <div className="min-w-0">
+                  <Link
+                    to={`/project/${entry.projectId}`}
+                    className="text-sky-400 hover:text-sky-300 font-medium"
+                  >
+                    {entry.projectName}
+                  </Link>
+                  <p className="text-xs text-slate-400 truncate">
+                    {entry.platform} {entry.versionName} ({entry.buildNumber})
+                  </p>
+                </div>
+              </div>
+              <div className="text-right flex-shrink-0">
+                <p className="text-slate-100 font-semibold">
+                  {entry.downloads.toLocaleString()}
+                </p>
+                <p className="text-xs text-slate-400">
+                  {entry.uniqueDevices.toLocaleString()} devices
+                </p>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
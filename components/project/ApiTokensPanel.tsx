@@ -0,0 +1,325 @@
+import React, { useEffect, useState } from "react";
+import { useAuth } from "../../contexts/AuthContext";
+import { useBackend } from "../../contexts/BackendContext";
+import {
+  ApiTokenScope,
+  CreatedApiToken,
+  Platform,
+  Project,
+  ProjectApiToken,
+} from "../../types";
+import { API_TOKEN_SCOPES } from "../../constants";
+import { isAbortError } from "../../services/apiClient";
+import { buildVersionUploadCurl } from "../../utils/curlSnippet";
+import { Button } from "../common/Button";
+import { Modal } from "../common/Modal";
+import { CodeBlock } from "../common/CodeBlock";
+import { Input } from "../common/Input";
+import { PlusIcon, TrashIcon } from "../common/Icons";
+
+interface ApiTokensPanelProps {
+  project: Project;
+}
+
+const getScopeLabel = (scope: ApiTokenScope) =>
+  API_TOKEN_SCOPES.find((s) => s.value === scope)?.label || scope;
+
+// Tokens let CI publish builds without a user session. They are loaded here
+// rather than in ProjectsContext since only this panel needs them.
+export const ApiTokensPanel: React.FC<ApiTokensPanelProps> = ({ project }) => {
+  const { api } = useAuth();
+  const { activeProfile } = useBackend();
+  const [tokens, setTokens] = useState<ProjectApiToken[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [newTokenName, setNewTokenName] = useState("");
+  const [newTokenScopes, setNewTokenScopes] = useState<ApiTokenScope[]>([
+    "upload",
+  ]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(
+    null
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setTokens(null);
+    setLoadError(null);
+    api.tokens
+      .list(project._id, { signal: controller.signal })
+      .then((loaded) => setTokens(loaded || []))
+      .catch((e: any) => {
+        if (isAbortError(e)) return;
+        console.error("Failed to load API tokens:", e);
+        setLoadError(e.message || "Failed to load API tokens.");
+      });
+    return () => controller.abort();
+  }, [api, project._id]);
+
+  const openCreateModal = () => {
+    setNewTokenName("");
+    setNewTokenScopes(["upload"]);
+    setFormError(null);
+    setIsCreateModalOpen(true);
+  };
+
+  const toggleScope = (scope: ApiTokenScope) =>
+    setNewTokenScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+
+  const handleCreateToken = async () => {
+    if (!newTokenName.trim()) {
+      setFormError("Give the token a name, e.g. the pipeline using it.");
+      return;
+    }
+    if (newTokenScopes.length === 0) {
+      setFormError("Select at least one scope.");
+      return;
+    }
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const token = await api.tokens.create(
+        project._id,
+        newTokenName.trim(),
+        newTokenScopes
+      );
+      const { secret, ...listed } = token;
+      setTokens((prev) => [listed, ...(prev || [])]);
+      setIsCreateModalOpen(false);
+      setCreatedToken(token);
+    } catch (e: any) {
+      console.error("Failed to create API token:", e);
+      setFormError(e.message || "Failed to create API token.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevokeToken = async (token: ProjectApiToken) => {
+    if (
+      !window.confirm(
+        `Revoke token "${token.name}"? Pipelines using it will stop working.`
+      )
+    )
+      return;
+    try {
+      await api.tokens.revoke(project._id, token._id);
+      setTokens((prev) => (prev || []).filter((t) => t._id !== token._id));
+    } catch (e) {
+      console.error("Failed to revoke API token:", e);
+      alert("Failed to revoke token. Check console for errors.");
+    }
+  };
+
+  const curlPlatform = project.platforms[0] || Platform.Android;
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
+        <div className="flex justify-between items-center p-6 border-b border-slate-700">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-200">API Tokens</h2>
+            <p className="text-sm text-slate-400">
+              Let CI pipelines publish builds to this project without signing
+              in.
+            </p>
+          </div>
+          <Button
+            onClick={openCreateModal}
+            variant="outline"
+            size="sm"
+            className="flex items-center space-x-1.5"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>New Token</span>
+          </Button>
+        </div>
+        {loadError ? (
+          <div
+            className="m-6 p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+            role="alert"
+          >
+            {loadError}
+          </div>
+        ) : !tokens ? (
+          <p className="text-slate-400 p-6 text-center">Loading tokens...</p>
+        ) : tokens.length === 0 ? (
+          <p className="text-slate-400 p-6 text-center">
+            No API tokens created for this project yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-700">
+            {tokens.map((token) => (
+              <li
+                key={token._id}
+                className="p-4 flex items-center justify-between space-x-4"
+              >
+                <div className="min-w-0">
+                  <p className="text-slate-100 font-medium truncate">
+                    {token.name}
+                    <span className="ml-2 text-xs text-slate-400 font-mono">
+                      {token.tokenPrefix}…
+                    </span>
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    Created {new Date(token.createdAt).toLocaleDateString()}
+                    {token.createdBy && ` by ${token.createdBy}`}
+                    {" · "}
+                    {token.lastUsedAt
+                      ? `Last used ${new Date(
+                          token.lastUsedAt
+                        ).toLocaleString()}`
+                      : "Never used"}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  {token.scopes.map((scope) => (
+                    <span
+                      key={scope}
+                      className="px-2.5 py-1 text-xs font-semibold rounded-full bg-slate-600 text-slate-100"
+                    >
+                      {getScopeLabel(scope)}
+                    </span>
+                  ))}
+                  <button
+                    onClick={() => handleRevokeToken(token)}
+                    className="text-red-500 hover:text-red-400"
+                    title="Revoke Token"
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-slate-800 shadow-xl rounded-lg p-6 space-y-3">
+        <h2 className="text-xl font-semibold text-slate-200">Upload from CI</h2>
+        <p className="text-sm text-slate-400">
+          Store a token with the Upload scope as{" "}
+          <span className="font-mono">RELEASE_HUB_TOKEN</span> in your CI
+          secrets, then run:
+        </p>
+        <CodeBlock
+          code={buildVersionUploadCurl({
+            baseUrl: activeProfile.baseUrl,
+            projectId: project._id,
+            platform: curlPlatform,
+          })}
+          copyLabel="upload command"
+        />
+      </div>
+
+      <Modal
+        isOpen={isCreateModalOpen}
+        onClose={() => setIsCreateModalOpen(false)}
+        title="New API Token"
+      >
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            type="text"
+            value={newTokenName}
+            onChange={(e) => setNewTokenName(e.target.value)}
+            placeholder="e.g. GitHub Actions release workflow"
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+          <div>
+            <span className="block text-sm font-medium text-slate-300 mb-2">
+              Scopes
+            </span>
+            <div className="space-y-2">
+              {API_TOKEN_SCOPES.map((scope) => (
+                <label
+                  key={scope.value}
+                  className="flex items-start space-x-2 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={newTokenScopes.includes(scope.value)}
+                    onChange={() => toggleScope(scope.value)}
+                    className="mt-0.5 form-checkbox h-5 w-5 text-sky-500 bg-slate-600 border-slate-500 rounded focus:ring-sky-500"
+                  />
+                  <span>
+                    <span className="text-sm text-slate-200">
+                      {scope.label}
+                    </span>
+                    <span className="block text-xs text-slate-400">
+                      {scope.description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          {formError && (
+            <div
+              className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+              role="alert"
+            >
+              {formError}
+            </div>
+          )}
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button
+              variant="secondary"
+              onClick={() => setIsCreateModalOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleCreateToken}
+              disabled={isSaving}
+            >
+              {isSaving ? "Creating..." : "Create Token"}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={!!createdToken}
+        onClose={() => setCreatedToken(null)}
+        title="Token Created"
+        size="xl"
+      >
+        {createdToken && (
+          <div className="space-y-4">
+            <p className="text-sm text-amber-300">
+              Copy this token now. It will not be shown again.
+            </p>
+            <CodeBlock code={createdToken.secret} copyLabel="API token" />
+            {createdToken.scopes.includes("upload") && (
+              <>
+                <p className="text-sm text-slate-400">
+                  Upload a build with this token:
+                </p>
+                <CodeBlock
+                  code={buildVersionUploadCurl({
+                    baseUrl: activeProfile.baseUrl,
+                    projectId: project._id,
+                    token: createdToken.secret,
+                    platform: curlPlatform,
+                  })}
+                  copyLabel="upload command"
+                />
+              </>
+            )}
+            <div className="flex justify-end pt-2">
+              <Button variant="primary" onClick={() => setCreatedToken(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
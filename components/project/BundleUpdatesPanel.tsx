@@ -0,0 +1,402 @@
+import React, { useState } from "react";
+import { useProjects } from "../../contexts/ProjectsContext";
+import { useUploads } from "../../contexts/UploadsContext";
+import { Project, BundlePlatform, BundleUpdate } from "../../types";
+import { Button } from "../common/Button";
+import { IntegrityBadge } from "../common/IntegrityBadge";
+import { Modal } from "../common/Modal";
+import { Input } from "../common/Input";
+import { Select } from "../common/Select";
+import {
+  UploadIcon,
+  TrashIcon,
+  ArrowPathIcon,
+  InformationCircleIcon,
+} from "../common/Icons";
+import { findBundleRollbackTarget, getLiveBundle } from "../../utils/rollback";
+import { useProjectPermissions } from "../../hooks/useProjectPermissions";
+
+interface BundleUpdatesPanelProps {
+  project: Project;
+}
+
+const getBundlePlatformBadgeColor = (platform: BundlePlatform) =>
+  platform === "android"
+    ? "bg-green-600 text-green-50"
+    : "bg-blue-600 text-blue-50";
+
+// Projects created before bundle support have no rnPlatforms, fall back to the
+// binary platforms so the upload form is still usable.
+const getBundlePlatforms = (project: Project): BundlePlatform[] =>
+  project.rnPlatforms && project.rnPlatforms.length > 0
+    ? project.rnPlatforms
+    : project.platforms.map((p) => p.toLowerCase() as BundlePlatform);
+
+export const BundleUpdatesPanel: React.FC<BundleUpdatesPanelProps> = ({
+  project,
+}) => {
+  const {
+    addBundleUpdate,
+    deleteBundleUpdate,
+    republishBundleUpdate,
+    rollbackBundleUpdate,
+    loading: contextLoading,
+  } = useProjects();
+  const { can } = useProjectPermissions(project);
+  const { startUpload } = useUploads();
+
+  const bundlePlatforms = getBundlePlatforms(project);
+  const bundles = project.bundleUpdates || [];
+  const liveBundleIds = new Set(
+    bundlePlatforms
+      .map((platform) => getLiveBundle(bundles, platform)?._id)
+      .filter((id): id is string => !!id)
+  );
+
+  const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [newBundlePlatform, setNewBundlePlatform] = useState<BundlePlatform>(
+    bundlePlatforms[0] || "android"
+  );
+  const [newBundleVersion, setNewBundleVersion] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [newIsMandatory, setNewIsMandatory] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+
+  const resetForm = () => {
+    setNewBundlePlatform(bundlePlatforms[0] || "android");
+    setNewBundleVersion("");
+    setNewDescription("");
+    setNewIsMandatory(false);
+    setSelectedFile(null);
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files && event.target.files[0]) {
+      setSelectedFile(event.target.files[0]);
+    }
+  };
+
+  const handleAddBundle = () => {
+    if (!selectedFile || !newBundleVersion.trim()) {
+      alert("Please enter a bundle version and select a bundle file.");
+      return;
+    }
+
+    const file = selectedFile;
+    const bundleData = {
+      platform: newBundlePlatform,
+      bundleVersion: newBundleVersion,
+      fileName: file.name,
+      description: newDescription,
+      isMandatory: newIsMandatory,
+    };
+    startUpload(
+      {
+        projectId: project._id,
+        label: `${project.name} ${newBundlePlatform} bundle ${newBundleVersion}`,
+        file,
+      },
+      (options) => addBundleUpdate(project._id, bundleData, file, options)
+    );
+    resetForm();
+    setIsUploadModalOpen(false);
+  };
+
+  const handleDeleteBundle = async (bundle: BundleUpdate) => {
+    if (
+      !window.confirm(
+        `Are you sure you want to delete bundle ${bundle.bundleVersion} (${bundle.platform})?`
+      )
+    )
+      return;
+
+    const success = await deleteBundleUpdate(project._id, bundle._id);
+    if (!success) {
+      alert("Failed to delete bundle. Check console for errors.");
+    }
+  };
+
+  const handleRepublishBundle = async (bundle: BundleUpdate) => {
+    if (
+      !window.confirm(
+        `Re-publish bundle ${bundle.bundleVersion} so ${bundle.platform} clients receive it again?`
+      )
+    )
+      return;
+
+    const republished = await republishBundleUpdate(project._id, bundle._id);
+    if (!republished) {
+      alert("Failed to re-publish bundle. Check console for errors.");
+    }
+  };
+
+  const handleRollbackPlatform = async (platform: BundlePlatform) => {
+    const live = getLiveBundle(bundles, platform);
+    const target = findBundleRollbackTarget(bundles, platform);
+    if (!live || !target) return;
+    if (
+      !window.confirm(
+        `Roll back ${platform} from bundle ${live.bundleVersion} to ${target.bundleVersion}?`
+      )
+    )
+      return;
+
+    const restored = await rollbackBundleUpdate(project._id, platform);
+    if (!restored) {
+      alert("Failed to roll back bundle. Check console for errors.");
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
+      <div className="flex justify-between items-center p-6 border-b border-slate-700">
+        <h2 className="text-xl font-semibold text-slate-200">Bundle Updates</h2>
+        <div className="flex items-center space-x-2">
+          {can("manageReleases") &&
+            bundlePlatforms.map((platform) => {
+              const target = findBundleRollbackTarget(bundles, platform);
+              return (
+                <Button
+                  key={platform}
+                  onClick={() => handleRollbackPlatform(platform)}
+                  variant="secondary"
+                  size="sm"
+                  disabled={contextLoading || !target}
+                  title={
+                    target
+                      ? `Re-publish ${target.bundleVersion} for ${platform}`
+                      : `No earlier ${platform} bundle to roll back to`
+                  }
+                >
+                  Rollback {platform}
+                </Button>
+              );
+            })}
+          {can("upload") && (
+            <Button
+              onClick={() => setIsUploadModalOpen(true)}
+              variant="outline"
+              size="sm"
+              className="flex items-center space-x-1.5"
+              disabled={bundlePlatforms.length === 0}
+            >
+              <UploadIcon className="h-4 w-4" />
+              <span>Upload Bundle</span>
+            </Button>
+          )}
+        </div>
+      </div>
+      {bundles.length === 0 ? (
+        <p className="text-slate-400 p-6 text-center">
+          No bundle updates published yet for this project.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-max">
+            <thead className="bg-slate-700/50">
+              <tr>
+                {[
+                  "Platform",
+                  "Bundle Version",
+                  "Hash",
+                  "Mandatory",
+                  "File",
+                  "Size",
+                  "Published",
+                  "Actions",
+                ].map((header) => (
+                  <th
+                    key={header}
+                    className="p-4 text-left text-xs font-medium text-slate-400 uppercase tracking-wider"
+                  >
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {bundles.map((bundle) => (
+                <tr
+                  key={bundle._id}
+                  className="hover:bg-slate-700/30 transition-colors"
+                >
+                  <td className="p-4 whitespace-nowrap">
+                    <span
+                      className={`px-2.5 py-1 text-xs font-semibold rounded-full ${getBundlePlatformBadgeColor(
+                        bundle.platform
+                      )}`}
+                    >
+                      {bundle.platform}
+                    </span>
+                  </td>
+                  <td className="p-4 whitespace-nowrap text-sm text-slate-200">
+                    {bundle.bundleVersion}
+                    {liveBundleIds.has(bundle._id) && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-emerald-600 text-emerald-50">
+                        Live
+                      </span>
+                    )}
+                  </td>
+                  <td
+                    className="p-4 whitespace-nowrap text-xs font-mono text-slate-400"
+                    title={bundle.bundleHash}
+                  >
+                    {bundle.bundleHash.substring(0, 12)}
+                    <IntegrityBadge
+                      serverHash={bundle.bundleHash}
+                      clientHash={bundle.clientBundleHash}
+                    />
+                  </td>
+                  <td className="p-4 whitespace-nowrap text-sm">
+                    {bundle.isMandatory ? (
+                      <span className="text-amber-400 font-semibold">Yes</span>
+                    ) : (
+                      <span className="text-slate-400">No</span>
+                    )}
+                  </td>
+                  <td
+                    className="p-4 whitespace-nowrap text-sm text-slate-300 truncate max-w-xs"
+                    title={bundle.fileName}
+                  >
+                    {bundle.fileName}
+                  </td>
+                  <td className="p-4 whitespace-nowrap text-sm text-slate-300">
+                    {bundle.fileSize}
+                  </td>
+                  <td className="p-4 whitespace-nowrap text-sm text-slate-300">
+                    {new Date(
+                      bundle.publishedAt || bundle.createdAt
+                    ).toLocaleDateString()}
+                  </td>
+                  <td className="p-4 whitespace-nowrap text-sm space-x-2">
+                    <a
+                      href={bundle.bundleUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sky-400 hover:text-sky-300 font-medium"
+                      title="Download Bundle"
+                    >
+                      Download
+                    </a>
+                    <button
+                      onClick={() =>
+                        alert(
+                          bundle.description ||
+                            "No description for this bundle."
+                        )
+                      }
+                      className="text-slate-400 hover:text-slate-200"
+                      title="View Description"
+                    >
+                      <InformationCircleIcon className="h-5 w-5 inline" />
+                    </button>
+                    {can("manageReleases") && (
+                      <>
+                        <button
+                          onClick={() => handleRepublishBundle(bundle)}
+                          className="text-sky-400 hover:text-sky-300 disabled:opacity-50"
+                          title="Re-publish Bundle"
+                          disabled={contextLoading}
+                        >
+                          <ArrowPathIcon className="h-5 w-5 inline" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteBundle(bundle)}
+                          className="text-red-500 hover:text-red-400"
+                          title="Delete Bundle"
+                        >
+                          <TrashIcon className="h-5 w-5 inline" />
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Modal
+        isOpen={isUploadModalOpen}
+        onClose={() => setIsUploadModalOpen(false)}
+        title="Upload Bundle Update"
+      >
+        <div className="space-y-4">
+          <Select
+            label="Platform"
+            value={newBundlePlatform}
+            onChange={(e) =>
+              setNewBundlePlatform(e.target.value as BundlePlatform)
+            }
+            options={bundlePlatforms.map((p) => ({ value: p, label: p }))}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+          <Input
+            label="Bundle Version (e.g., 1.0.0-3)"
+            type="text"
+            value={newBundleVersion}
+            onChange={(e) => setNewBundleVersion(e.target.value)}
+            placeholder="1.0.0-3"
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">
+              Bundle File (ZIP)
+            </label>
+            <input
+              type="file"
+              onChange={handleFileUpload}
+              className="w-full text-sm text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-sky-500 file:text-sky-50 hover:file:bg-sky-600"
+              accept=".zip"
+            />
+            {selectedFile && (
+              <p className="text-xs text-slate-400 mt-1">
+                {selectedFile.name} (
+                {(selectedFile.size / (1024 * 1024)).toFixed(2)} MB)
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">
+              Description
+            </label>
+            <textarea
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+              placeholder="What changed in this bundle?"
+              rows={3}
+              className="w-full p-2 rounded-md bg-slate-700 border border-slate-600 focus:ring-sky-500 focus:border-sky-500 text-slate-100 placeholder-slate-400"
+            />
+          </div>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={newIsMandatory}
+              onChange={(e) => setNewIsMandatory(e.target.checked)}
+              className="form-checkbox h-5 w-5 text-sky-500 bg-slate-600 border-slate-500 rounded focus:ring-sky-500"
+            />
+            <span className="text-slate-200">
+              Mandatory update (clients must install before continuing)
+            </span>
+          </label>
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button
+              variant="secondary"
+              onClick={() => setIsUploadModalOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleAddBundle}
+              disabled={!selectedFile}
+            >
+              Publish Bundle
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from "react";
+import { useAuth } from "../../contexts/AuthContext";
+import {
+  DownloadCount,
+  DownloadSource,
+  Project,
+  ProjectDownloadStats,
+} from "../../types";
+import { DOWNLOAD_SOURCE_LABELS, DOWNLOAD_STATS_RANGES } from "../../constants";
+import { isAbortError } from "../../services/apiClient";
+import {
+  fillDailyDownloads,
+  getDownloadShare,
+} from "../../utils/downloadStats";
+import { Select } from "../common/Select";
+
+interface DownloadAnalyticsPanelProps {
+  project: Project;
+}
+
+const BreakdownList: React.FC<{
+  title: string;
+  entries: DownloadCount[];
+  formatKey?: (key: string) => string;
+}> = ({ title, entries, formatKey = (key) => key }) => (
+  <div>
+    <h3 className="text-sm font-medium text-slate-300 mb-3">{title}</h3>
+    {entries.length === 0 ? (
+      <p className="text-sm text-slate-500">No downloads.</p>
+    ) : (
+      <ul className="space-y-2">
+        {[...entries]
+          .sort((a, b) => b.downloads - a.downloads)
+          .map((entry) => {
+            const share = getDownloadShare(entry, entries);
+            return (
+              <li key={entry.key} className="text-sm">
+                <div className="flex justify-between text-slate-300">
+                  <span className="truncate">{formatKey(entry.key)}</span>
+                  <span className="text-slate-400">
+                    {entry.downloads} · {share}%
+                  </span>
+                </div>
+                <div className="mt-1 h-1.5 rounded-full bg-slate-700">
+                  <div
+                    className="h-1.5 rounded-full bg-sky-500"
+                    style={{ width: `${share}%` }}
+                  />
+                </div>
+              </li>
+            );
+          })}
+      </ul>
+    )}
+  </div>
+);
+
+// Downloads are counted by the backend when it serves a file, see
+// DownloadSource. This panel only reads the aggregates.
+export const DownloadAnalyticsPanel: React.FC<DownloadAnalyticsPanelProps> = ({
+  project,
+}) => {
+  const { api } = useAuth();
+  const [days, setDays] = useState(DOWNLOAD_STATS_RANGES[0].days);
+  const [versionId, setVersionId] = useState("");
+  const [stats, setStats] = useState<ProjectDownloadStats | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setStats(null);
+    setLoadError(null);
+    api.analytics
+      .getProjectDownloads(
+        project._id,
+        { days, versionId: versionId || undefined },
+        { signal: controller.signal }
+      )
+      .then(setStats)
+      .catch((e: any) => {
+        if (isAbortError(e)) return;
+        console.error("Failed to load download analytics:", e);
+        setLoadError(e.message || "Failed to load download analytics.");
+      });
+    return () => controller.abort();
+  }, [api, project._id, days, versionId]);
+
+  const versions = project.versions || [];
+  const versionLabel = (id: string) => {
+    const version = versions.find((v) => v._id === id);
+    return version
+      ? `${version.platform} ${version.versionName} (${version.buildNumber})`
+      : "Deleted version";
+  };
+
+  const dailyDownloads = stats
+    ? fillDailyDownloads(stats.daily, stats.from, stats.to)
+    : [];
+  const peakDownloads = Math.max(1, ...dailyDownloads.map((d) => d.downloads));
+  const qrDownloads =
+    stats?.bySource.find((s) => s.key === "qr")?.downloads || 0;
+
+  return (
+    <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
+      <div className="flex flex-wrap justify-between items-end gap-4 p-6 border-b border-slate-700">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-200">Downloads</h2>
+          <p className="text-sm text-slate-400">
+            Downloads and installs from links, the install page and QR codes.
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          <div className="w-56">
+            <Select
+              label="Version"
+              id="analytics-version"
+              value={versionId}
+              onChange={(e) => setVersionId(e.target.value)}
+              options={[
+                { value: "", label: "All versions" },
+                ...versions.map((v) => ({
+                  value: v._id,
+                  label: versionLabel(v._id),
+                })),
+              ]}
+              className="bg-slate-700 border-slate-600 text-slate-100"
+            />
+          </div>
+          <div className="w-40">
+            <Select
+              label="Range"
+              id="analytics-range"
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              options={DOWNLOAD_STATS_RANGES.map((r) => ({
+                value: r.days,
+                label: r.label,
+              }))}
+              className="bg-slate-700 border-slate-600 text-slate-100"
+            />
+          </div>
+        </div>
+      </div>
+
+      {loadError ? (
+        <div
+          className="m-6 p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+          role="alert"
+        >
+          {loadError}
+        </div>
+      ) : !stats ? (
+        <p className="text-slate-400 p-6 text-center">Loading downloads...</p>
+      ) : (
+        <div className="p-6 space-y-8">
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {[
+              { label: "Downloads", value: stats.downloads },
+              { label: "Unique devices", value: stats.uniqueDevices },
+              { label: "Via QR code", value: qrDownloads },
+            ].map((tile) => (
+              <div key={tile.label} className="p-4 rounded-lg bg-slate-700/50">
+                <dt className="text-sm text-slate-400">{tile.label}</dt>
+                <dd className="text-2xl font-semibold text-slate-100">
+                  {tile.value.toLocaleString()}
+                </dd>
+              </div>
+            ))}
+          </dl>
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-300 mb-3">
+              Downloads per day
+            </h3>
+            <div className="flex items-end h-32 gap-px">
+              {dailyDownloads.map((day) => (
+                <div
+                  key={day.date}
+                  className="flex-1 h-full flex items-end"
+                  title={`${new Date(
+                    `${day.date}T00:00:00Z`
+                  ).toLocaleDateString()}: ${day.downloads} downloads, ${
+                    day.uniqueDevices
+                  } devices`}
+                >
+                  <div
+                    className="w-full rounded-t bg-sky-500 hover:bg-sky-400"
+                    style={{
+                      height: `${(day.downloads / peakDownloads) * 100}%`,
+                      minHeight: day.downloads > 0 ? "2px" : 0,
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+            {dailyDownloads.length > 0 && (
+              <div className="flex justify-between mt-1 text-xs text-slate-500">
+                <span>{dailyDownloads[0].date}</span>
+                <span>{dailyDownloads[dailyDownloads.length - 1].date}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+            <BreakdownList title="Platform" entries={stats.byPlatform} />
+            <BreakdownList title="OS version" entries={stats.byOsVersion} />
+            <BreakdownList
+              title="Source"
+              entries={stats.bySource}
+              formatKey={(key) =>
+                DOWNLOAD_SOURCE_LABELS[key as DownloadSource] || key
+              }
+            />
+          </div>
+
+          {!versionId && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-3">
+                Per version
+              </h3>
+              {stats.versions.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  No version was downloaded in this range.
+                </p>
+              ) : (
+                <table className="min-w-full divide-y divide-slate-700 text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-slate-400 uppercase tracking-wider">
+                      <th className="py-2 pr-4">Version</th>
+                      <th className="py-2 pr-4">Downloads</th>
+                      <th className="py-2 pr-4">Unique devices</th>
+                      <th className="py-2">Last download</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {[...stats.versions]
+                      .sort((a, b) => b.downloads - a.downloads)
+                      .map((entry) => (
+                        <tr key={entry.versionId} className="text-slate-300">
+                          <td className="py-2 pr-4">
+                            <button
+                              onClick={() => setVersionId(entry.versionId)}
+                              className="text-sky-400 hover:text-sky-300"
+                              disabled={
+                                !versions.some((v) => v._id === entry.versionId)
+                              }
+                            >
+                              {versionLabel(entry.versionId)}
+                            </button>
+                          </td>
+                          <td className="py-2 pr-4">{entry.downloads}</td>
+                          <td className="py-2 pr-4">{entry.uniqueDevices}</td>
+                          <td className="py-2 text-slate-400">
+                            {entry.lastDownloadedAt
+                              ? new Date(
+                                  entry.lastDownloadedAt
+                                ).toLocaleString()
+                              : "—"}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from "react";
+import { useProjects } from "../../contexts/ProjectsContext";
+import { Project, Platform } from "../../types";
+import { Button } from "../common/Button";
+import { Modal } from "../common/Modal";
+import { Input } from "../common/Input";
+
+interface EditProjectModalProps {
+  project: Project;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ANDROID_APPLICATION_ID_PATTERN = /^[a-zA-Z]\w*(\.[a-zA-Z]\w*)+$/;
+const IOS_BUNDLE_IDENTIFIER_PATTERN = /^[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/;
+
+export const EditProjectModal: React.FC<EditProjectModalProps> = ({
+  project,
+  isOpen,
+  onClose,
+}) => {
+  const { updateProjectDetails, loading } = useProjects();
+  const [name, setName] = useState(project.name);
+  const [description, setDescription] = useState(project.description || "");
+  const [platforms, setPlatforms] = useState<Platform[]>(project.platforms);
+  const [applicationId, setApplicationId] = useState(
+    project.applicationId || ""
+  );
+  const [bundleIdentifier, setBundleIdentifier] = useState(
+    project.bundleIdentifier || ""
+  );
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(project.name);
+      setDescription(project.description || "");
+      setPlatforms(project.platforms);
+      setApplicationId(project.applicationId || "");
+      setBundleIdentifier(project.bundleIdentifier || "");
+      setFormError(null);
+    }
+  }, [isOpen, project]);
+
+  const applicationIdError =
+    applicationId.trim() &&
+    !ANDROID_APPLICATION_ID_PATTERN.test(applicationId.trim())
+      ? "Use a Java package name, e.g. com.example.app"
+      : undefined;
+  const bundleIdentifierError =
+    bundleIdentifier.trim() &&
+    !IOS_BUNDLE_IDENTIFIER_PATTERN.test(bundleIdentifier.trim())
+      ? "Use a reverse-DNS identifier, e.g. com.example.app"
+      : undefined;
+
+  const togglePlatform = (platform: Platform) => {
+    setPlatforms((prev) =>
+      prev.includes(platform)
+        ? prev.filter((p) => p !== platform)
+        : [...prev, platform]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || platforms.length === 0) {
+      setFormError("Project name and at least one platform are required.");
+      return;
+    }
+    if (applicationIdError || bundleIdentifierError) {
+      setFormError("Please fix the invalid identifiers.");
+      return;
+    }
+
+    // Empty strings clear a previously configured identifier.
+    const updated = await updateProjectDetails(
+      project._id,
+      name.trim(),
+      description,
+      platforms,
+      {
+        applicationId: platforms.includes(Platform.Android)
+          ? applicationId.trim()
+          : "",
+        bundleIdentifier: platforms.includes(Platform.iOS)
+          ? bundleIdentifier.trim()
+          : "",
+      }
+    );
+    if (updated) {
+      onClose();
+    } else {
+      setFormError("Failed to update project.");
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Edit Project">
+      <div className="space-y-4">
+        <Input
+          label="Project Name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="bg-slate-700 border-slate-600 text-slate-100"
+        />
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">
+            Description (Optional)
+          </label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            className="w-full p-2 rounded-md bg-slate-700 border border-slate-600 focus:ring-sky-500 focus:border-sky-500 text-slate-100 placeholder-slate-400"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Platforms
+          </label>
+          <div className="flex space-x-4">
+            {(Object.values(Platform) as Platform[]).map((platform) => (
+              <label
+                key={platform}
+                className="flex items-center space-x-2 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={platforms.includes(platform)}
+                  onChange={() => togglePlatform(platform)}
+                  className="form-checkbox h-5 w-5 text-sky-500 bg-slate-600 border-slate-500 rounded focus:ring-sky-500"
+                />
+                <span className="text-slate-200">{platform}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        {platforms.includes(Platform.Android) && (
+          <Input
+            label="Android Application ID (Optional)"
+            type="text"
+            value={applicationId}
+            onChange={(e) => setApplicationId(e.target.value)}
+            placeholder="com.example.app"
+            className="bg-slate-700 border-slate-600 text-slate-100 font-mono"
+            error={applicationIdError}
+          />
+        )}
+        {platforms.includes(Platform.iOS) && (
+          <Input
+            label="iOS Bundle Identifier (Optional)"
+            type="text"
+            value={bundleIdentifier}
+            onChange={(e) => setBundleIdentifier(e.target.value)}
+            placeholder="com.example.app"
+            className="bg-slate-700 border-slate-600 text-slate-100 font-mono"
+            error={bundleIdentifierError}
+          />
+        )}
+        <p className="text-xs text-slate-400">
+          When set, uploads whose binary declares a different identifier are
+          rejected.
+        </p>
+        {formError && (
+          <div
+            className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+            role="alert"
+          >
+            {formError}
+          </div>
+        )}
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={loading}>
+            {loading ? "Saving..." : "Save Changes"}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
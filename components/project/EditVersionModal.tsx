@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from "react";
+import { useProjects } from "../../contexts/ProjectsContext";
+import { AppVersion, LocalizedReleaseNotes, Project } from "../../types";
+import { DEFAULT_RELEASE_NOTES_LOCALE } from "../../constants";
+import { Button } from "../common/Button";
+import { DiffLines } from "../common/DiffLines";
+import { Input } from "../common/Input";
+import { MarkdownEditor } from "../common/MarkdownEditor";
+import { Modal } from "../common/Modal";
+import {
+  getLocaleLabel,
+  getLocalizedReleaseNotes,
+} from "../../utils/releaseNotes";
+import { diffLines } from "../../utils/textDiff";
+import {
+  describeVersionChange,
+  getBinaryMismatchWarnings,
+  getVersionChanges,
+} from "../../utils/versionEdits";
+
+interface EditVersionModalProps {
+  project: Project;
+  version: AppVersion | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Versions without notes get an empty editor in the language they were
+// uploaded with.
+const getInitialNotes = (version: AppVersion): LocalizedReleaseNotes => {
+  const notes = getLocalizedReleaseNotes(version);
+  return Object.keys(notes).length > 0
+    ? notes
+    : { [version.releaseNotesLocale || DEFAULT_RELEASE_NOTES_LOCALE]: "" };
+};
+
+export const EditVersionModal: React.FC<EditVersionModalProps> = ({
+  project,
+  version,
+  isOpen,
+  onClose,
+}) => {
+  const { updateAppVersion, loading } = useProjects();
+  const [versionName, setVersionName] = useState("");
+  const [buildNumber, setBuildNumber] = useState("");
+  const [notes, setNotes] = useState<LocalizedReleaseNotes>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && version) {
+      setVersionName(version.versionName);
+      setBuildNumber(version.buildNumber);
+      setNotes(getInitialNotes(version));
+      setFormError(null);
+    }
+  }, [isOpen, version?._id]);
+
+  if (!version) return null;
+
+  const update = { versionName, buildNumber, localizedReleaseNotes: notes };
+  // Only used to disable saving; the backend records what changed.
+  const changes = getVersionChanges(version, update);
+  const binaryWarnings = getBinaryMismatchWarnings(version, update);
+  const editHistory = [...(version.editHistory || [])].reverse();
+
+  const handleSave = async () => {
+    if (!versionName.trim() || !buildNumber.trim()) {
+      setFormError("Version name and build number are required.");
+      return;
+    }
+    const duplicate = project.versions.find(
+      (v) =>
+        v._id !== version._id &&
+        v.platform === version.platform &&
+        v.versionName === versionName.trim() &&
+        v.buildNumber === buildNumber.trim()
+    );
+    if (duplicate) {
+      setFormError(
+        `Another ${
+          version.platform
+        } version is already ${versionName.trim()} (${buildNumber.trim()}).`
+      );
+      return;
+    }
+
+    const updated = await updateAppVersion(project._id, version._id, update);
+    if (updated) {
+      onClose();
+    } else {
+      setFormError("Failed to update version.");
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Edit ${version.platform} Version`}
+      size="xl"
+    >
+      <div className="space-y-4 max-h-[75vh] overflow-y-auto pr-1">
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="Version Name"
+            id="edit-version-name"
+            type="text"
+            value={versionName}
+            onChange={(e) => setVersionName(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+          <Input
+            label="Build Number"
+            id="edit-build-number"
+            type="text"
+            value={buildNumber}
+            onChange={(e) => setBuildNumber(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+        </div>
+        {Object.keys(notes).map((locale) => (
+          <div key={locale}>
+            <label className="block text-sm font-medium text-slate-300 mb-1">
+              Release Notes
+              {Object.keys(notes).length > 1 && ` (${getLocaleLabel(locale)})`}
+            </label>
+            <MarkdownEditor
+              id={`edit-release-notes-${locale}`}
+              value={notes[locale]}
+              onChange={(value) =>
+                setNotes((prev) => ({ ...prev, [locale]: value }))
+              }
+              rows={5}
+              lang={locale}
+            />
+          </div>
+        ))}
+        {binaryWarnings.map((warning) => (
+          <p key={warning} className="text-xs text-amber-400">
+            {warning}
+          </p>
+        ))}
+        <p className="text-xs text-slate-400">
+          The uploaded file cannot be changed. Upload a new version to replace
+          it.
+        </p>
+        {formError && (
+          <div
+            className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+            role="alert"
+          >
+            {formError}
+          </div>
+        )}
+        <div className="flex justify-end space-x-3">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            disabled={loading || changes.length === 0}
+          >
+            {loading ? "Saving..." : "Save Changes"}
+          </Button>
+        </div>
+
+        {editHistory.length > 0 && (
+          <div className="pt-4 border-t border-slate-700">
+            <h4 className="text-sm font-medium text-slate-300 mb-2">
+              Edit History
+            </h4>
+            <ol className="space-y-3">
+              {editHistory.map((record, index) => (
+                <li key={index} className="text-sm">
+                  <p className="text-xs text-slate-400">
+                    {record.editedBy?.name ||
+                      record.editedBy?.email ||
+                      "Unknown"}{" "}
+                    · {new Date(record.editedAt).toLocaleString()}
+                  </p>
+                  <ul className="mt-1 space-y-1">
+                    {record.changes.map((change, i) => (
+                      <li key={i} className="text-slate-300">
+                        {change.field === "releaseNotes" ? (
+                          <details>
+                            <summary className="cursor-pointer">
+                              {describeVersionChange(change)}
+                            </summary>
+                            <DiffLines
+                              lines={diffLines(change.before, change.after)}
+                              className="mt-1 max-h-48"
+                            />
+                          </details>
+                        ) : (
+                          describeVersionChange(change)
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
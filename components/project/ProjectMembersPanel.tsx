@@ -0,0 +1,213 @@
+import React, { useState } from "react";
+import { useProjects } from "../../contexts/ProjectsContext";
+import { useAuth } from "../../contexts/AuthContext";
+import { Project, ProjectMember, ProjectRole } from "../../types";
+import { PROJECT_ROLES } from "../../constants";
+import { useProjectPermissions } from "../../hooks/useProjectPermissions";
+import { Button } from "../common/Button";
+import { Input } from "../common/Input";
+import { Select } from "../common/Select";
+import { TrashIcon } from "../common/Icons";
+
+interface ProjectMembersPanelProps {
+  project: Project;
+}
+
+const getRoleLabel = (role: ProjectRole) =>
+  PROJECT_ROLES.find((r) => r.value === role)?.label || role;
+
+export const ProjectMembersPanel: React.FC<ProjectMembersPanelProps> = ({
+  project,
+}) => {
+  const {
+    addProjectMember,
+    updateProjectMemberRole,
+    removeProjectMember,
+    loading,
+  } = useProjects();
+  const { user } = useAuth();
+  const { can } = useProjectPermissions(project);
+  const canManage = can("manageProject");
+
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<ProjectRole>("viewer");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const members = project.members || [];
+  const adminCount = members.filter((m) => m.role === "admin").length;
+  // Every project keeps at least one admin who can manage it.
+  const isLastAdmin = (member: ProjectMember) =>
+    member.role === "admin" && adminCount <= 1;
+
+  const handleAddMember = async () => {
+    if (!email.trim()) {
+      setFormError("Enter the email of the user to add.");
+      return;
+    }
+    if (members.some((m) => m.email === email.trim())) {
+      setFormError("This user is already a member of the project.");
+      return;
+    }
+    setFormError(null);
+    const updated = await addProjectMember(project._id, email.trim(), role);
+    if (updated) {
+      setEmail("");
+      setRole("viewer");
+    } else {
+      setFormError("Failed to add member. Check that the user exists.");
+    }
+  };
+
+  const handleRoleChange = async (
+    member: ProjectMember,
+    newRole: ProjectRole
+  ) => {
+    if (
+      member.userId === user?._id &&
+      !window.confirm(
+        `Change your own role to ${getRoleLabel(
+          newRole
+        )}? You may lose access to some actions.`
+      )
+    )
+      return;
+    const updated = await updateProjectMemberRole(
+      project._id,
+      member.userId,
+      newRole
+    );
+    if (!updated) {
+      alert("Failed to update role. Check console for errors.");
+    }
+  };
+
+  const handleRemoveMember = async (member: ProjectMember) => {
+    if (
+      !window.confirm(
+        `Remove ${member.name || member.email} from ${project.name}?`
+      )
+    )
+      return;
+    const updated = await removeProjectMember(project._id, member.userId);
+    if (!updated) {
+      alert("Failed to remove member. Check console for errors.");
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
+      <div className="p-6 border-b border-slate-700">
+        <h2 className="text-xl font-semibold text-slate-200">Members</h2>
+        <p className="text-sm text-slate-400 mt-1">
+          Viewers can download builds. Uploaders can also upload versions and
+          bundles. Release managers control environments, rollouts and
+          rollbacks. Admins manage the project and its members.
+        </p>
+      </div>
+
+      {canManage && (
+        <div className="p-6 border-b border-slate-700 space-y-3">
+          <div className="flex items-end space-x-3">
+            <div className="flex-1">
+              <Input
+                label="Email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="teammate@example.com"
+                className="bg-slate-700 border-slate-600 text-slate-100"
+              />
+            </div>
+            <div className="w-48">
+              <Select
+                label="Role"
+                value={role}
+                onChange={(e) => setRole(e.target.value as ProjectRole)}
+                options={PROJECT_ROLES}
+                className="bg-slate-700 border-slate-600 text-slate-100"
+              />
+            </div>
+            <Button
+              variant="primary"
+              onClick={handleAddMember}
+              disabled={loading}
+            >
+              Add Member
+            </Button>
+          </div>
+          {formError && (
+            <div
+              className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+              role="alert"
+            >
+              {formError}
+            </div>
+          )}
+        </div>
+      )}
+
+      {members.length === 0 ? (
+        <p className="text-slate-400 p-6 text-center">
+          No members recorded for this project.
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-700">
+          {members.map((member) => (
+            <li
+              key={member.userId}
+              className="p-4 flex items-center justify-between space-x-4"
+            >
+              <div className="min-w-0">
+                <p className="text-slate-100 font-medium truncate">
+                  {member.name || member.email}
+                  {member.userId === user?._id && (
+                    <span className="ml-2 text-xs text-slate-400">(you)</span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-400 truncate">
+                  {member.email}
+                </p>
+              </div>
+              {canManage ? (
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <div className="w-44">
+                    <Select
+                      value={member.role}
+                      onChange={(e) =>
+                        handleRoleChange(member, e.target.value as ProjectRole)
+                      }
+                      options={PROJECT_ROLES}
+                      disabled={loading || isLastAdmin(member)}
+                      title={
+                        isLastAdmin(member)
+                          ? "Add another admin before changing this role"
+                          : undefined
+                      }
+                      className="bg-slate-700 border-slate-600 text-slate-100"
+                    />
+                  </div>
+                  <button
+                    onClick={() => handleRemoveMember(member)}
+                    className="text-red-500 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={
+                      isLastAdmin(member)
+                        ? "The last admin cannot be removed"
+                        : "Remove Member"
+                    }
+                    disabled={loading || isLastAdmin(member)}
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              ) : (
+                <span className="px-2.5 py-1 text-xs font-semibold rounded-full bg-slate-600 text-slate-100">
+                  {getRoleLabel(member.role)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
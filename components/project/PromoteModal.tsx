@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from "react";
+import { useProjects } from "../../contexts/ProjectsContext";
+import { AppVersion, DeploymentEnvironment, Project } from "../../types";
+import { ENVIRONMENT_PIPELINE } from "../../constants";
+import { Button } from "../common/Button";
+import { Modal } from "../common/Modal";
+import { Select } from "../common/Select";
+import {
+  getCandidateStages,
+  getCurrentStage,
+  getNextStage,
+  getSkippedStages,
+} from "../../utils/promotion";
+
+interface PromoteModalProps {
+  project: Project;
+  version: AppVersion | null;
+  initialEnvironment?: DeploymentEnvironment; // Defaults to the next stage
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const PromoteModal: React.FC<PromoteModalProps> = ({
+  project,
+  version,
+  initialEnvironment,
+  isOpen,
+  onClose,
+}) => {
+  const { promoteVersion, loading } = useProjects();
+  const [targetEnvironment, setTargetEnvironment] = useState<
+    DeploymentEnvironment | undefined
+  >(undefined);
+  const [note, setNote] = useState("");
+  const [override, setOverride] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && version) {
+      const candidates = getCandidateStages(version);
+      // A version already through the pipeline has no next stage, but can
+      // still be promoted back to the stages it left.
+      setTargetEnvironment(
+        [initialEnvironment, getNextStage(version)].find(
+          (env) => env && candidates.includes(env)
+        ) ?? candidates[0]
+      );
+      setNote("");
+      setOverride(false);
+      setFormError(null);
+    }
+  }, [isOpen, version?._id, initialEnvironment]);
+
+  if (!version) return null;
+
+  const currentStage = getCurrentStage(version);
+  // Every activation goes through a promotion.
+  const candidateStages = getCandidateStages(version);
+  const skippedStages = targetEnvironment
+    ? getSkippedStages(version, targetEnvironment)
+    : [];
+
+  const handlePromote = async () => {
+    if (!targetEnvironment) return;
+    if (!note.trim()) {
+      setFormError("Please enter a note for this promotion.");
+      return;
+    }
+    if (skippedStages.length > 0 && !override) {
+      setFormError(
+        `This promotion skips ${skippedStages.join(
+          ", "
+        )}. Confirm the override to continue.`
+      );
+      return;
+    }
+
+    const promoted = await promoteVersion(project._id, version._id, {
+      toEnvironment: targetEnvironment,
+      note: note.trim(),
+      override: skippedStages.length > 0,
+    });
+    if (promoted) {
+      onClose();
+    } else {
+      setFormError("Failed to promote version.");
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Promote ${version.platform} ${version.versionName} (${version.buildNumber})`}
+      size="lg"
+    >
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2 text-xs">
+          {ENVIRONMENT_PIPELINE.map((env, index) => {
+            const reached =
+              !!currentStage &&
+              index <= ENVIRONMENT_PIPELINE.indexOf(currentStage);
+            return (
+              <React.Fragment key={env}>
+                {index > 0 && <span className="text-slate-500">→</span>}
+                <span
+                  className={`px-2 py-1 rounded-full font-semibold ${
+                    env === targetEnvironment
+                      ? "bg-sky-500 text-white"
+                      : reached
+                      ? "bg-slate-600 text-slate-100"
+                      : "bg-slate-700 text-slate-400"
+                  }`}
+                >
+                  {env}
+                </span>
+              </React.Fragment>
+            );
+          })}
+        </div>
+
+        {candidateStages.length === 0 ? (
+          <p className="text-sm text-slate-300">
+            This version is already active in every environment.
+          </p>
+        ) : (
+          <>
+            <Select
+              label="Promote to"
+              value={targetEnvironment}
+              onChange={(e) => {
+                setTargetEnvironment(e.target.value as DeploymentEnvironment);
+                setOverride(false);
+              }}
+              options={candidateStages.map((env) => ({
+                value: env,
+                label: env,
+              }))}
+              className="bg-slate-700 border-slate-600 text-slate-100"
+            />
+            {skippedStages.length > 0 && (
+              <div className="p-3 rounded-lg bg-amber-900/50 text-sm text-amber-200 space-y-2">
+                <p>
+                  This version has never been in {skippedStages.join(", ")}.
+                  Promoting it to {targetEnvironment} skips{" "}
+                  {skippedStages.length > 1 ? "those stages" : "that stage"}.
+                </p>
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={override}
+                    onChange={(e) => setOverride(e.target.checked)}
+                    className="form-checkbox h-4 w-4 text-amber-500 bg-slate-600 border-slate-500 rounded focus:ring-amber-500"
+                  />
+                  <span>I understand, skip the pipeline for this release.</span>
+                </label>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                Confirmation note
+              </label>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. QA sign-off on ticket #123"
+                rows={3}
+                className="w-full p-2 rounded-md bg-slate-700 border border-slate-600 focus:ring-sky-500 focus:border-sky-500 text-slate-100 placeholder-slate-400"
+              />
+            </div>
+          </>
+        )}
+
+        {(version.promotions?.length || 0) > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-slate-300 mb-2">
+              Promotion history
+            </h4>
+            <ul className="space-y-2 max-h-40 overflow-y-auto">
+              {[...(version.promotions || [])].reverse().map((record) => (
+                <li
+                  key={`${record.toEnvironment}-${record.promotedAt}`}
+                  className="text-xs text-slate-400 border-l-2 border-slate-600 pl-3"
+                >
+                  <p className="text-slate-200">
+                    {record.fromEnvironment || "New"} → {record.toEnvironment}
+                    {(record.skippedStages?.length || 0) > 0 && (
+                      <span className="ml-2 text-amber-400">
+                        (skipped {record.skippedStages?.join(", ")})
+                      </span>
+                    )}
+                  </p>
+                  <p>
+                    {record.promotedBy?.name ||
+                      record.promotedBy?.email ||
+                      "Unknown"}{" "}
+                    · {new Date(record.promotedAt).toLocaleString()}
+                  </p>
+                  <p className="italic">{record.note}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {formError && (
+          <div
+            className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+            role="alert"
+          >
+            {formError}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handlePromote}
+            disabled={
+              loading ||
+              !targetEnvironment ||
+              (skippedStages.length > 0 && !override)
+            }
+          >
+            {loading
+              ? "Promoting..."
+              : `Promote to ${targetEnvironment || "..."}`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { AppVersion, Project } from "../../types";
+import { DiffLines } from "../common/DiffLines";
+import { Modal } from "../common/Modal";
+import { Select } from "../common/Select";
+import {
+  getLocaleLabel,
+  getLocalizedReleaseNotes,
+  pickReleaseNotesLocale,
+} from "../../utils/releaseNotes";
+import { diffLines } from "../../utils/textDiff";
+
+interface ReleaseNotesDiffModalProps {
+  project: Project;
+  initialVersionId: string | null; // Compared against the build before it
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const versionLabel = (version: AppVersion) =>
+  `${version.platform} ${version.versionName} (${version.buildNumber})`;
+
+/**
+ * Line diff of the release notes of two versions in one language. Render
+ * with a key per initialVersionId so the selection starts over.
+ */
+export const ReleaseNotesDiffModal: React.FC<ReleaseNotesDiffModalProps> = ({
+  project,
+  initialVersionId,
+  isOpen,
+  onClose,
+}) => {
+  const versions = [...(project.versions || [])].sort(
+    (a, b) =>
+      new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime()
+  );
+  const [afterId, setAfterId] = useState(
+    () => initialVersionId || versions[0]?._id || ""
+  );
+  const [beforeId, setBeforeId] = useState(() => {
+    const after = versions.find((v) => v._id === afterId);
+    const older = versions.filter(
+      (v) =>
+        v._id !== afterId &&
+        (!after || new Date(v.uploadDate) <= new Date(after.uploadDate))
+    );
+    return (
+      (older.find((v) => v.platform === after?.platform) || older[0])?._id || ""
+    );
+  });
+  const [locale, setLocale] = useState<string | null>(null);
+
+  const before = versions.find((v) => v._id === beforeId);
+  const after = versions.find((v) => v._id === afterId);
+  const beforeNotes = before ? getLocalizedReleaseNotes(before) : {};
+  const afterNotes = after ? getLocalizedReleaseNotes(after) : {};
+  const locales = Array.from(
+    new Set([...Object.keys(afterNotes), ...Object.keys(beforeNotes)])
+  );
+  const shownLocale =
+    locale && locales.includes(locale)
+      ? locale
+      : pickReleaseNotesLocale(locales, navigator.languages);
+
+  const lines =
+    before && after && shownLocale
+      ? diffLines(beforeNotes[shownLocale] || "", afterNotes[shownLocale] || "")
+      : [];
+  const added = lines.filter((l) => l.type === "added").length;
+  const removed = lines.filter((l) => l.type === "removed").length;
+  const versionOptions = versions.map((v) => ({
+    value: v._id,
+    label: versionLabel(v),
+  }));
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Compare Release Notes"
+      size="xl"
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <Select
+            label="From"
+            id="notes-diff-before"
+            value={beforeId}
+            onChange={(e) => setBeforeId(e.target.value)}
+            options={versionOptions}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+          <Select
+            label="To"
+            id="notes-diff-after"
+            value={afterId}
+            onChange={(e) => setAfterId(e.target.value)}
+            options={versionOptions}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+        </div>
+        {locales.length > 1 && shownLocale && (
+          <div className="w-48">
+            <Select
+              label="Language"
+              id="notes-diff-locale"
+              value={shownLocale}
+              onChange={(e) => setLocale(e.target.value)}
+              options={locales.map((l) => ({
+                value: l,
+                label: getLocaleLabel(l),
+              }))}
+              className="bg-slate-700 border-slate-600 text-slate-100"
+            />
+          </div>
+        )}
+
+        {versions.length < 2 ? (
+          <p className="text-sm text-slate-400">
+            Upload another version to compare release notes.
+          </p>
+        ) : !shownLocale ? (
+          <p className="text-sm text-slate-400">
+            Neither version has release notes.
+          </p>
+        ) : added === 0 && removed === 0 ? (
+          <p className="text-sm text-slate-400">
+            The release notes are identical.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-slate-400">
+              <span className="text-emerald-400">+{added}</span>{" "}
+              <span className="text-red-400">-{removed}</span> lines
+            </p>
+            <DiffLines lines={lines} className="max-h-[50vh]" />
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,41 @@
+import React from "react";
+import { AppVersion } from "../../types";
+import { Button } from "../common/Button";
+import { Modal } from "../common/Modal";
+import { ReleaseNotesView } from "./ReleaseNotesView";
+
+interface ReleaseNotesModalProps {
+  version: AppVersion | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onCompare?: () => void;
+}
+
+export const ReleaseNotesModal: React.FC<ReleaseNotesModalProps> = ({
+  version,
+  isOpen,
+  onClose,
+  onCompare,
+}) => {
+  if (!version) return null;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Release Notes: ${version.versionName} (${version.buildNumber})`}
+      size="lg"
+    >
+      <div className="max-h-[60vh] overflow-y-auto">
+        <ReleaseNotesView key={version._id} version={version} showOrigin />
+      </div>
+      {onCompare && (
+        <div className="flex justify-end mt-6">
+          <Button variant="secondary" onClick={onCompare}>
+            Compare with Previous
+          </Button>
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,86 @@
+import React from "react";
+import { StructuredReleaseNotes } from "../../types";
+import { RELEASE_NOTES_SECTIONS } from "../../constants";
+import { PlusIcon, XMarkIcon } from "../common/Icons";
+
+interface ReleaseNotesSectionsEditorProps {
+  notes: StructuredReleaseNotes;
+  onChange: (notes: StructuredReleaseNotes) => void;
+}
+
+type SectionKey = (typeof RELEASE_NOTES_SECTIONS)[number]["key"];
+
+const inputClassName =
+  "w-full p-1.5 rounded-md bg-slate-700 border border-slate-600 focus:ring-sky-500 focus:border-sky-500 text-sm text-slate-100 placeholder-slate-400";
+
+/**
+ * Edits generated release notes section by section. Blank items are kept
+ * while editing and left out of the markdown.
+ */
+export const ReleaseNotesSectionsEditor: React.FC<
+  ReleaseNotesSectionsEditorProps
+> = ({ notes, onChange }) => {
+  const updateSection = (key: SectionKey, items: string[]) =>
+    onChange({ ...notes, [key]: items });
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="text"
+        value={notes.summary}
+        onChange={(e) => onChange({ ...notes, summary: e.target.value })}
+        placeholder="One-sentence summary"
+        className={inputClassName}
+      />
+      {RELEASE_NOTES_SECTIONS.map(({ key, title }) => (
+        <div key={key}>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-medium text-slate-300">{title}</span>
+            <button
+              onClick={() => updateSection(key, [...notes[key], ""])}
+              className="flex items-center space-x-1 text-xs text-sky-400 hover:text-sky-300"
+            >
+              <PlusIcon className="h-3.5 w-3.5" />
+              <span>Add</span>
+            </button>
+          </div>
+          {notes[key].length === 0 ? (
+            <p className="text-xs text-slate-500">None.</p>
+          ) : (
+            <ul className="space-y-1">
+              {notes[key].map((item, index) => (
+                <li key={index} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={item}
+                    onChange={(e) =>
+                      updateSection(
+                        key,
+                        notes[key].map((existing, i) =>
+                          i === index ? e.target.value : existing
+                        )
+                      )
+                    }
+                    className={inputClassName}
+                  />
+                  <button
+                    onClick={() =>
+                      updateSection(
+                        key,
+                        notes[key].filter((_, i) => i !== index)
+                      )
+                    }
+                    className="text-slate-400 hover:text-red-400 flex-shrink-0"
+                    title="Remove"
+                  >
+                    <XMarkIcon className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from "react";
+import { AppVersion } from "../../types";
+import { Markdown } from "../common/Markdown";
+import {
+  describeReleaseNotesOrigin,
+  getLocaleLabel,
+  getLocalizedReleaseNotes,
+  pickReleaseNotesLocale,
+} from "../../utils/releaseNotes";
+
+interface ReleaseNotesViewProps {
+  version: AppVersion;
+  showOrigin?: boolean;
+}
+
+/**
+ * A version's release notes in the reader's language, with a switcher when
+ * they exist in more than one. Render with key={version._id} so the language
+ * is picked again for another version.
+ */
+export const ReleaseNotesView: React.FC<ReleaseNotesViewProps> = ({
+  version,
+  showOrigin = false,
+}) => {
+  const notesByLocale = getLocalizedReleaseNotes(version);
+  const locales = Object.keys(notesByLocale);
+  const [locale, setLocale] = useState(() =>
+    pickReleaseNotesLocale(locales, navigator.languages)
+  );
+
+  if (!locale || !notesByLocale[locale]) {
+    return (
+      <p className="text-sm text-slate-400">
+        No release notes for this version.
+      </p>
+    );
+  }
+
+  // The origin describes the notes as written, not their translations.
+  const isSourceLocale =
+    !version.releaseNotesLocale || version.releaseNotesLocale === locale;
+
+  return (
+    <div className="space-y-3">
+      {locales.length > 1 && (
+        <div className="flex flex-wrap gap-2" role="tablist">
+          {locales.map((l) => (
+            <button
+              key={l}
+              role="tab"
+              aria-selected={l === locale}
+              onClick={() => setLocale(l)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium ${
+                l === locale
+                  ? "bg-sky-500 text-white"
+                  : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+              }`}
+            >
+              {getLocaleLabel(l)}
+            </button>
+          ))}
+        </div>
+      )}
+      <div lang={locale}>
+        <Markdown source={notesByLocale[locale]} />
+      </div>
+      {showOrigin && version.releaseNotesOrigin && isSourceLocale && (
+        <p className="text-xs text-slate-500">
+          {describeReleaseNotesOrigin(version.releaseNotesOrigin)}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React from "react";
+import { useProjects } from "../../contexts/ProjectsContext";
+import { DeploymentEnvironment, Platform, Project } from "../../types";
+import { ENVIRONMENT_PIPELINE } from "../../constants";
+import { Button } from "../common/Button";
+import { findRollbackTarget, getActiveVersion } from "../../utils/rollback";
+import { useProjectPermissions } from "../../hooks/useProjectPermissions";
+
+interface ReleaseStatusPanelProps {
+  project: Project;
+}
+
+export const ReleaseStatusPanel: React.FC<ReleaseStatusPanelProps> = ({
+  project,
+}) => {
+  const { rollbackEnvironment, loading } = useProjects();
+  const { can } = useProjectPermissions(project);
+
+  const handleRollback = async (
+    platform: Platform,
+    environment: DeploymentEnvironment
+  ) => {
+    const current = getActiveVersion(project.versions, platform, environment);
+    const target = findRollbackTarget(project.versions, platform, environment);
+    if (!target) return;
+    if (
+      !window.confirm(
+        `Roll back ${platform} in ${environment}?\n\n` +
+          `Current: ${
+            current ? `${current.versionName} (${current.buildNumber})` : "none"
+          }\n` +
+          `Restore: ${target.versionName} (${target.buildNumber})`
+      )
+    )
+      return;
+
+    const restored = await rollbackEnvironment(
+      project._id,
+      platform,
+      environment
+    );
+    if (!restored) {
+      alert("Failed to roll back. Check console for errors.");
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
+      <h2 className="text-xl font-semibold text-slate-200 p-6 border-b border-slate-700">
+        Release Status
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-max">
+          <thead className="bg-slate-700/50">
+            <tr>
+              {["Platform", ...ENVIRONMENT_PIPELINE].map((header) => (
+                <th
+                  key={header}
+                  className="p-4 text-left text-xs font-medium text-slate-400 uppercase tracking-wider"
+                >
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700">
+            {project.platforms.map((platform) => (
+              <tr key={platform}>
+                <td className="p-4 whitespace-nowrap text-sm font-semibold text-slate-200">
+                  {platform}
+                </td>
+                {ENVIRONMENT_PIPELINE.map((environment) => {
+                  const active = getActiveVersion(
+                    project.versions,
+                    platform,
+                    environment
+                  );
+                  const rollbackTarget = findRollbackTarget(
+                    project.versions,
+                    platform,
+                    environment
+                  );
+                  return (
+                    <td
+                      key={environment}
+                      className="p-4 whitespace-nowrap text-sm text-slate-300"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <span>
+                          {active
+                            ? `${active.versionName} (${active.buildNumber})`
+                            : "—"}
+                        </span>
+                        {can("manageReleases") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={loading || !rollbackTarget}
+                            title={
+                              rollbackTarget
+                                ? `Roll back to ${rollbackTarget.versionName} (${rollbackTarget.buildNumber})`
+                                : "No previous version recorded for this environment"
+                            }
+                            onClick={() =>
+                              handleRollback(platform, environment)
+                            }
+                          >
+                            Rollback
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from "react";
+import { useProjects } from "../../contexts/ProjectsContext";
+import {
+  Project,
+  AppVersion,
+  DeploymentEnvironment,
+  RolloutStatus,
+} from "../../types";
+import { ROLLOUT_PERCENTAGE_STEPS } from "../../constants";
+import { Button } from "../common/Button";
+import { Modal } from "../common/Modal";
+import { Select } from "../common/Select";
+import {
+  getEnvironmentRollout,
+  getPreviousRolloutVersion,
+  isStagedRollout,
+} from "../../utils/rollout";
+
+interface RolloutModalProps {
+  project: Project;
+  version: AppVersion | null;
+  initialEnvironment: DeploymentEnvironment;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const RolloutModal: React.FC<RolloutModalProps> = ({
+  project,
+  version,
+  initialEnvironment,
+  isOpen,
+  onClose,
+}) => {
+  const { updateVersionRollout, loading } = useProjects();
+  const [environment, setEnvironment] =
+    useState<DeploymentEnvironment>(initialEnvironment);
+
+  useEffect(() => {
+    if (isOpen) setEnvironment(initialEnvironment);
+  }, [isOpen, initialEnvironment]);
+
+  if (!version) return null;
+
+  const isActive = version.activeEnvironments.includes(environment);
+  const rollout = getEnvironmentRollout(version, environment);
+  const staged = isStagedRollout(rollout);
+  const currentPercentage = isActive ? (staged ? rollout.percentage : 100) : 0;
+  const previousVersion = staged
+    ? getPreviousRolloutVersion(project.versions, version, rollout)
+    : undefined;
+
+  const applyRollout = async (percentage: number, status: RolloutStatus) => {
+    const updated = await updateVersionRollout(
+      project._id,
+      version._id,
+      environment,
+      percentage,
+      status
+    );
+    if (!updated) {
+      alert("Failed to update rollout. Check console for errors.");
+    }
+  };
+
+  let statusLabel: string;
+  if (!isActive) {
+    statusLabel = `Not active in ${environment}.`;
+  } else if (!staged) {
+    statusLabel = `Fully rolled out to ${environment}.`;
+  } else if (rollout.status === "halted") {
+    statusLabel = `Halted at ${rollout.percentage}% of ${environment} users.`;
+  } else {
+    statusLabel = `Rolling out to ${rollout.percentage}% of ${environment} users.`;
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Rollout: ${version.platform} ${version.versionName} (${version.buildNumber})`}
+    >
+      <div className="space-y-4">
+        <Select
+          label="Environment"
+          value={environment}
+          onChange={(e) =>
+            setEnvironment(e.target.value as DeploymentEnvironment)
+          }
+          options={(
+            Object.values(DeploymentEnvironment) as DeploymentEnvironment[]
+          ).map((env) => ({ value: env, label: env }))}
+          className="bg-slate-700 border-slate-600 text-slate-100"
+        />
+
+        <div className="p-4 rounded-lg bg-slate-700/50 space-y-2">
+          <p className="text-sm text-slate-200">{statusLabel}</p>
+          <div className="w-full h-2 rounded-full bg-slate-600 overflow-hidden">
+            <div
+              className={`h-2 ${
+                staged && rollout.status === "halted"
+                  ? "bg-amber-500"
+                  : "bg-sky-500"
+              }`}
+              style={{ width: `${currentPercentage}%` }}
+            />
+          </div>
+          {staged && (
+            <p className="text-xs text-slate-400">
+              Remaining {100 - rollout.percentage}% served by{" "}
+              {previousVersion
+                ? `${previousVersion.versionName} (${previousVersion.buildNumber})`
+                : "the previous version"}
+              .
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            {isActive ? "Increase rollout to" : "Start rollout at"}
+          </label>
+          <div className="flex space-x-2">
+            {ROLLOUT_PERCENTAGE_STEPS.map((step) => (
+              <Button
+                key={step}
+                variant="outline"
+                size="sm"
+                disabled={loading || step <= currentPercentage}
+                onClick={() =>
+                  applyRollout(step, step === 100 ? "completed" : "in_progress")
+                }
+              >
+                {step}%
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {staged && (
+          <div className="flex space-x-2">
+            {rollout.status === "halted" ? (
+              <Button
+                variant="secondary"
+                size="sm"
+                disabled={loading}
+                onClick={() => applyRollout(rollout.percentage, "in_progress")}
+              >
+                Resume Rollout
+              </Button>
+            ) : (
+              <Button
+                variant="danger"
+                size="sm"
+                disabled={loading}
+                onClick={() => applyRollout(rollout.percentage, "halted")}
+              >
+                Halt Rollout
+              </Button>
+            )}
+            <Button
+              variant="primary"
+              size="sm"
+              disabled={loading}
+              onClick={() => applyRollout(100, "completed")}
+            >
+              Complete Rollout
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,343 @@
+import React, { useState } from "react";
+import { useProjects } from "../../contexts/ProjectsContext";
+import { useUploads } from "../../contexts/UploadsContext";
+import { Project, Platform } from "../../types";
+import { DEFAULT_RELEASE_NOTES_LOCALE } from "../../constants";
+import { Button } from "../common/Button";
+import { Modal } from "../common/Modal";
+import { UploadIcon } from "../common/Icons";
+import { useLlmSettings } from "../../contexts/LlmSettingsContext";
+import { generateReleaseNotes as generateNotesWithProvider } from "../../services/releaseNotesProviders";
+import { translateReleaseNotes as translateWithGemini } from "../../services/geminiService";
+import {
+  extractBinaryMetadata,
+  inferPlatformFromFileName,
+} from "../../utils/binaryMetadata";
+import {
+  buildReleaseNotesTranslationPrompt,
+  getLocaleLabel,
+  getLocalizedReleaseNotes,
+  releaseNotesToMarkdown,
+} from "../../utils/releaseNotes";
+import {
+  getVersionDraftError,
+  isDraftIdentifierUnverified,
+  VersionDraft,
+  VersionDraftRow,
+} from "./VersionDraftRow";
+
+interface UploadVersionModalProps {
+  project: Project;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Files already listed are skipped when picked or dropped again.
+const isSameFile = (a: File, b: File) =>
+  a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+export const UploadVersionModal: React.FC<UploadVersionModalProps> = ({
+  project,
+  isOpen,
+  onClose,
+}) => {
+  const { addAppVersion } = useProjects();
+  const { startUpload } = useUploads();
+  const { settings: llmSettings } = useLlmSettings();
+
+  const [drafts, setDrafts] = useState<VersionDraft[]>([]);
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const resetForm = () => {
+    setDrafts([]);
+    setSkippedFiles([]);
+    setSubmitted(false);
+  };
+
+  // Updates are applied by id so results of a slow metadata read or notes
+  // request land on the right row, or nowhere if it was removed meanwhile.
+  const updateDraft = (draftId: string, changes: Partial<VersionDraft>) =>
+    setDrafts((prev) =>
+      prev.map((d) => (d.id === draftId ? { ...d, ...changes } : d))
+    );
+
+  const readMetadata = async (draft: VersionDraft) => {
+    try {
+      const metadata = await extractBinaryMetadata(draft.file);
+      setDrafts((prev) =>
+        prev.map((d) =>
+          d.id === draft.id
+            ? {
+                ...d,
+                metadata,
+                // Details typed while the file was being read are kept.
+                versionName: d.versionName || metadata.versionName || "",
+                buildNumber: d.buildNumber || metadata.buildNumber || "",
+              }
+            : d
+        )
+      );
+    } catch (error) {
+      console.error("Failed to read binary metadata:", error);
+      updateDraft(draft.id, {
+        metadataError: `Could not read metadata from ${draft.file.name}: ${
+          error instanceof Error ? error.message : String(error)
+        }. Please fill in the version details manually.`,
+      });
+    } finally {
+      updateDraft(draft.id, { isReadingMetadata: false });
+    }
+  };
+
+  const addFiles = (files: File[]) => {
+    const skipped: string[] = [];
+    const newDrafts: VersionDraft[] = [];
+    files.forEach((file) => {
+      const platform = inferPlatformFromFileName(file.name);
+      if (!platform) {
+        skipped.push(file.name);
+        return;
+      }
+      if (
+        drafts.some((d) => isSameFile(d.file, file)) ||
+        newDrafts.some((d) => isSameFile(d.file, file))
+      ) {
+        return;
+      }
+      newDrafts.push({
+        id: crypto.randomUUID(),
+        file,
+        platform,
+        versionName: "",
+        buildNumber: "",
+        releaseNotes: "",
+        changeLog: "",
+        structuredNotes: null,
+        notesOrigin: null,
+        notesLocale: DEFAULT_RELEASE_NOTES_LOCALE,
+        translations: {},
+        translatingLocale: null,
+        metadata: null,
+        metadataError: null,
+        isReadingMetadata: true,
+        isGeneratingNotes: false,
+      });
+    });
+    setSkippedFiles(skipped);
+    setDrafts((prev) => [...prev, ...newDrafts]);
+    newDrafts.forEach(readMetadata);
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files) addFiles(Array.from(event.target.files));
+    event.target.value = ""; // Allows picking the same file again after removing it
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const generateReleaseNotes = async (draft: VersionDraft) => {
+    updateDraft(draft.id, { isGeneratingNotes: true });
+    try {
+      const { notes, origin } = await generateNotesWithProvider(
+        {
+          projectName: project.name,
+          platform: draft.platform,
+          versionName: draft.versionName,
+          buildNumber: draft.buildNumber,
+          changeLog: draft.changeLog,
+        },
+        llmSettings
+      );
+      updateDraft(draft.id, {
+        structuredNotes: notes,
+        notesOrigin: origin,
+        releaseNotes: releaseNotesToMarkdown(notes),
+      });
+    } catch (error) {
+      console.error("Error generating release notes:", error);
+      // Notes typed so far are kept.
+      alert(
+        `Failed to generate release notes: ${
+          error instanceof Error ? error.message : String(error)
+        }\n\nPlease try again, choose another provider under Settings or write them manually.`
+      );
+    } finally {
+      updateDraft(draft.id, { isGeneratingNotes: false });
+    }
+  };
+
+  // Translations always use Gemini, with the model from settings when Gemini
+  // is also the release notes provider.
+  const translateReleaseNotes = async (draft: VersionDraft, locale: string) => {
+    updateDraft(draft.id, { translatingLocale: locale });
+    try {
+      const translated = await translateWithGemini(
+        buildReleaseNotesTranslationPrompt(draft.releaseNotes, locale),
+        llmSettings.provider === "gemini" ? llmSettings.model : undefined
+      );
+      setDrafts((prev) =>
+        prev.map((d) =>
+          d.id === draft.id
+            ? {
+                ...d,
+                translations: { ...d.translations, [locale]: translated },
+              }
+            : d
+        )
+      );
+    } catch (error) {
+      console.error("Error translating release notes:", error);
+      alert(
+        `Failed to translate release notes to ${getLocaleLabel(locale)}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    } finally {
+      updateDraft(draft.id, { translatingLocale: null });
+    }
+  };
+
+  // Each file becomes its own entry in the upload queue, which reports its
+  // progress and outcome separately.
+  const handleUploadVersions = () => {
+    setSubmitted(true);
+    if (drafts.some((d) => getVersionDraftError(project, d))) return;
+    const unverified = drafts.filter((d) =>
+      isDraftIdentifierUnverified(project, d)
+    );
+    if (
+      unverified.length > 0 &&
+      !window.confirm(
+        `The package identifier of ${unverified
+          .map((d) => d.file.name)
+          .join(
+            ", "
+          )} could not be read, so it cannot be checked against this project. Upload anyway?`
+      )
+    ) {
+      return;
+    }
+
+    drafts.forEach((draft) => {
+      const versionData = {
+        platform: draft.platform,
+        versionName: draft.versionName.trim(),
+        buildNumber: draft.buildNumber.trim(),
+        fileName: draft.file.name, // Backend will also use this
+        packageIdentifier: draft.metadata?.packageId,
+        binaryVersionName: draft.metadata?.versionName,
+        binaryBuildNumber: draft.metadata?.buildNumber,
+        releaseNotes: draft.releaseNotes,
+        releaseNotesLocale: draft.notesLocale,
+        releaseNotesOrigin: draft.notesOrigin || undefined,
+        localizedReleaseNotes: getLocalizedReleaseNotes({
+          releaseNotes: draft.releaseNotes,
+          releaseNotesLocale: draft.notesLocale,
+          localizedReleaseNotes: draft.translations,
+        }),
+      };
+      startUpload(
+        {
+          projectId: project._id,
+          label: `${project.name} ${versionData.platform} ${versionData.versionName} (${versionData.buildNumber})`,
+          file: draft.file,
+        },
+        (options) =>
+          addAppVersion(project._id, versionData, draft.file, options)
+      );
+    });
+    resetForm();
+    onClose();
+  };
+
+  const isBusy = drafts.some((d) => d.isReadingMetadata || d.isGeneratingNotes);
+  const acceptsAndroid = project.platforms.includes(Platform.Android);
+  const acceptsIos = project.platforms.includes(Platform.iOS);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Upload New App Versions"
+      size="xl"
+    >
+      <div className="space-y-4">
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center p-6 rounded-lg border-2 border-dashed cursor-pointer transition-colors ${
+            isDragging
+              ? "border-sky-400 bg-sky-900/20"
+              : "border-slate-600 hover:border-slate-500"
+          }`}
+        >
+          <UploadIcon className="h-8 w-8 text-sky-400 mb-2" />
+          <span className="text-sm text-slate-300">
+            Drop {acceptsAndroid && "APK"}
+            {acceptsAndroid && acceptsIos && " and "}
+            {acceptsIos && "IPA"} files here, or click to choose
+          </span>
+          <input
+            type="file"
+            multiple
+            onChange={handleFileInput}
+            className="hidden"
+            accept=".apk,.ipa"
+          />
+        </label>
+        {skippedFiles.length > 0 && (
+          <p className="text-xs text-amber-400">
+            Skipped {skippedFiles.join(", ")}: only .apk and .ipa files can be
+            uploaded.
+          </p>
+        )}
+
+        {drafts.length > 0 && (
+          <div className="space-y-3 max-h-[55vh] overflow-y-auto pr-1">
+            {drafts.map((draft) => (
+              <VersionDraftRow
+                key={draft.id}
+                project={project}
+                draft={draft}
+                submitted={submitted}
+                onChange={(changes) => updateDraft(draft.id, changes)}
+                onRemove={() =>
+                  setDrafts((prev) => prev.filter((d) => d.id !== draft.id))
+                }
+                onGenerateNotes={() => generateReleaseNotes(draft)}
+                onTranslateNotes={(locale) =>
+                  translateReleaseNotes(draft, locale)
+                }
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleUploadVersions}
+            disabled={drafts.length === 0 || isBusy}
+          >
+            {drafts.length > 1
+              ? `Upload ${drafts.length} Versions`
+              : "Upload Version"}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
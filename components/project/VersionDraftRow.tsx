@@ -0,0 +1,364 @@
+import React, { useState } from "react";
+import {
+  Project,
+  Platform,
+  BinaryMetadata,
+  LocalizedReleaseNotes,
+  ReleaseNotesOrigin,
+  StructuredReleaseNotes,
+} from "../../types";
+import { RELEASE_NOTES_LOCALES } from "../../constants";
+import { Button } from "../common/Button";
+import { Input } from "../common/Input";
+import { Select } from "../common/Select";
+import { MarkdownEditor } from "../common/MarkdownEditor";
+import {
+  LanguageIcon,
+  SparklesIcon,
+  TrashIcon,
+  XMarkIcon,
+} from "../common/Icons";
+import {
+  inferPlatformFromFileName,
+  validateBinaryIdentifier,
+} from "../../utils/binaryMetadata";
+import {
+  describeReleaseNotesOrigin,
+  getLocaleLabel,
+  releaseNotesToMarkdown,
+} from "../../utils/releaseNotes";
+import { ReleaseNotesSectionsEditor } from "./ReleaseNotesSectionsEditor";
+
+// One file of a bulk upload and the version details entered for it.
+export interface VersionDraft {
+  id: string;
+  file: File;
+  platform: Platform;
+  versionName: string;
+  buildNumber: string;
+  releaseNotes: string; // Markdown, rendered from structuredNotes when set
+  changeLog: string; // Input for generated notes
+  structuredNotes: StructuredReleaseNotes | null;
+  notesOrigin: ReleaseNotesOrigin | null; // Set when the notes were generated
+  notesLocale: string; // Language releaseNotes are written in
+  translations: LocalizedReleaseNotes; // Other locales, edited after translating
+  translatingLocale: string | null;
+  metadata: BinaryMetadata | null;
+  metadataError: string | null;
+  isReadingMetadata: boolean;
+  isGeneratingNotes: boolean;
+}
+
+const MISSING_DETAILS_ERROR = "Version name and build number are required.";
+
+/**
+ * Checks that a draft can be uploaded to the project.
+ * @returns The reason it cannot, or null if it is ready.
+ */
+export const getVersionDraftError = (
+  project: Project,
+  draft: VersionDraft
+): string | null => {
+  const filePlatform = inferPlatformFromFileName(draft.file.name);
+  if (filePlatform && filePlatform !== draft.platform) {
+    return `A ${filePlatform} binary cannot be uploaded as a ${draft.platform} version.`;
+  }
+  if (!project.platforms.includes(draft.platform)) {
+    return `Project "${project.name}" does not target ${draft.platform}.`;
+  }
+  if (draft.metadata) {
+    const identifierError = validateBinaryIdentifier(project, draft.metadata);
+    if (identifierError) return identifierError;
+  }
+  if (!draft.versionName.trim() || !draft.buildNumber.trim()) {
+    return MISSING_DETAILS_ERROR;
+  }
+  return null;
+};
+
+const getExpectedIdentifier = (project: Project, platform: Platform) =>
+  platform === Platform.Android
+    ? project.applicationId
+    : project.bundleIdentifier;
+
+/**
+ * True when the project requires an identifier but none could be read from
+ * the file, so the binary may belong to another app. Uploading such a draft
+ * needs an explicit confirmation.
+ */
+export const isDraftIdentifierUnverified = (
+  project: Project,
+  draft: VersionDraft
+): boolean =>
+  !!getExpectedIdentifier(project, draft.platform) &&
+  !draft.isReadingMetadata &&
+  !draft.metadata?.packageId;
+
+interface VersionDraftRowProps {
+  project: Project;
+  draft: VersionDraft;
+  submitted: boolean; // Missing details are only flagged after a submit
+  onChange: (changes: Partial<VersionDraft>) => void;
+  onRemove: () => void;
+  onGenerateNotes: () => void;
+  onTranslateNotes: (locale: string) => void;
+}
+
+export const VersionDraftRow: React.FC<VersionDraftRowProps> = ({
+  project,
+  draft,
+  submitted,
+  onChange,
+  onRemove,
+  onGenerateNotes,
+  onTranslateNotes,
+}) => {
+  const { file, metadata } = draft;
+  const [translateTo, setTranslateTo] = useState("");
+  const error = getVersionDraftError(project, draft);
+  const expectedIdentifier = getExpectedIdentifier(project, draft.platform);
+  const identifierUnverified = isDraftIdentifierUnverified(project, draft);
+  const translationLocales = Object.keys(draft.translations);
+  const translateOptions = RELEASE_NOTES_LOCALES.filter(
+    (l) => l.value !== draft.notesLocale
+  );
+
+  // A locale is either the source language or a translation, never both.
+  const handleNotesLocaleChange = (notesLocale: string) => {
+    const { [notesLocale]: _replaced, ...translations } = draft.translations;
+    onChange({ notesLocale, translations });
+  };
+
+  const removeTranslation = (locale: string) => {
+    const { [locale]: _removed, ...translations } = draft.translations;
+    onChange({ translations });
+  };
+
+  return (
+    <div className="p-4 rounded-lg bg-slate-700/40 border border-slate-700 space-y-3">
+      <div className="flex items-start justify-between space-x-3">
+        <div className="flex items-center space-x-3 min-w-0">
+          {metadata?.iconDataUrl && (
+            <img
+              src={metadata.iconDataUrl}
+              alt="App icon"
+              className="h-10 w-10 rounded-lg flex-shrink-0"
+            />
+          )}
+          <div className="min-w-0">
+            <p
+              className="text-sm font-medium text-slate-100 truncate"
+              title={file.name}
+            >
+              {file.name}
+            </p>
+            <p className="text-xs text-slate-400">
+              {(file.size / (1024 * 1024)).toFixed(2)} MB
+              {metadata?.appName && ` · ${metadata.appName}`}
+              {metadata?.packageId && (
+                <span className="font-mono"> · {metadata.packageId}</span>
+              )}
+              {metadata?.minOsVersion &&
+                (metadata.platform === Platform.Android
+                  ? ` · Min SDK: API ${metadata.minOsVersion}`
+                  : ` · Minimum iOS: ${metadata.minOsVersion}`)}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onRemove}
+          className="text-red-500 hover:text-red-400 flex-shrink-0"
+          title="Remove File"
+        >
+          <TrashIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {draft.isReadingMetadata && (
+        <p className="text-xs text-slate-400">Reading app metadata...</p>
+      )}
+      {draft.metadataError && (
+        <p className="text-xs text-amber-400">{draft.metadataError}</p>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <Select
+          label="Platform"
+          id={`platform-${draft.id}`}
+          value={draft.platform}
+          onChange={(e) => onChange({ platform: e.target.value as Platform })}
+          options={project.platforms.map((p) => ({ value: p, label: p }))}
+          className="bg-slate-700 border-slate-600 text-slate-100"
+        />
+        <Input
+          label="Version Name"
+          id={`version-name-${draft.id}`}
+          type="text"
+          value={draft.versionName}
+          onChange={(e) => onChange({ versionName: e.target.value })}
+          placeholder="1.0.0"
+          className="bg-slate-700 border-slate-600 text-slate-100"
+        />
+        <Input
+          label="Build Number"
+          id={`build-number-${draft.id}`}
+          type="text"
+          value={draft.buildNumber}
+          onChange={(e) => onChange({ buildNumber: e.target.value })}
+          placeholder="101"
+          className="bg-slate-700 border-slate-600 text-slate-100"
+        />
+      </div>
+
+      <div>
+        <textarea
+          value={draft.changeLog}
+          onChange={(e) => onChange({ changeLog: e.target.value })}
+          placeholder="Paste the commit log, changelog or merged PR titles of this build to generate release notes from them"
+          rows={3}
+          className="w-full p-2 rounded-md bg-slate-700 border border-slate-600 focus:ring-sky-500 focus:border-sky-500 text-xs font-mono text-slate-100 placeholder-slate-400"
+        />
+        <Button
+          onClick={onGenerateNotes}
+          variant="outline"
+          size="sm"
+          className="mt-1 flex items-center space-x-1.5"
+          disabled={
+            draft.isGeneratingNotes ||
+            !draft.changeLog.trim() ||
+            !draft.versionName ||
+            !draft.buildNumber
+          }
+        >
+          <SparklesIcon className="h-4 w-4" />
+          <span>
+            {draft.isGeneratingNotes ? "Generating..." : "Generate with AI"}
+          </span>
+        </Button>
+      </div>
+
+      {draft.structuredNotes ? (
+        <div className="p-3 rounded-md border border-slate-600 space-y-2">
+          <ReleaseNotesSectionsEditor
+            notes={draft.structuredNotes}
+            onChange={(structuredNotes) =>
+              onChange({
+                structuredNotes,
+                releaseNotes: releaseNotesToMarkdown(structuredNotes),
+              })
+            }
+          />
+          <div className="flex justify-between text-xs">
+            {draft.notesOrigin && (
+              <span className="text-slate-400">
+                {describeReleaseNotesOrigin(draft.notesOrigin)}
+              </span>
+            )}
+            <button
+              onClick={() => onChange({ structuredNotes: null })}
+              className="ml-auto text-sky-400 hover:text-sky-300"
+            >
+              Edit as markdown
+            </button>
+          </div>
+        </div>
+      ) : (
+        <MarkdownEditor
+          id={`release-notes-${draft.id}`}
+          value={draft.releaseNotes}
+          onChange={(releaseNotes) => onChange({ releaseNotes })}
+          placeholder="Release notes (markdown): new features, bug fixes, etc."
+          rows={3}
+          lang={draft.notesLocale}
+        />
+      )}
+
+      <div className="flex items-end space-x-3">
+        <div className="w-40">
+          <Select
+            label="Notes Language"
+            id={`notes-locale-${draft.id}`}
+            value={draft.notesLocale}
+            onChange={(e) => handleNotesLocaleChange(e.target.value)}
+            options={RELEASE_NOTES_LOCALES}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+        </div>
+        <div className="w-40">
+          <Select
+            label="Translate To"
+            id={`translate-to-${draft.id}`}
+            value={translateTo}
+            onChange={(e) => setTranslateTo(e.target.value)}
+            options={[{ value: "", label: "Choose..." }, ...translateOptions]}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+        </div>
+        <Button
+          onClick={() => onTranslateNotes(translateTo)}
+          variant="outline"
+          size="sm"
+          className="mb-1 flex items-center space-x-1.5"
+          disabled={
+            !!draft.translatingLocale ||
+            !draft.releaseNotes.trim() ||
+            !translateTo ||
+            translateTo === draft.notesLocale
+          }
+        >
+          <LanguageIcon className="h-4 w-4" />
+          <span>
+            {draft.translatingLocale
+              ? `Translating to ${getLocaleLabel(draft.translatingLocale)}...`
+              : draft.translations[translateTo] !== undefined
+              ? "Translate again"
+              : "Translate"}
+          </span>
+        </Button>
+      </div>
+
+      {translationLocales.map((locale) => (
+        <div key={locale}>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-medium text-slate-300">
+              {getLocaleLabel(locale)}
+            </span>
+            <button
+              onClick={() => removeTranslation(locale)}
+              className="text-slate-400 hover:text-red-400"
+              title="Remove Translation"
+            >
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+          </div>
+          <MarkdownEditor
+            id={`release-notes-${draft.id}-${locale}`}
+            value={draft.translations[locale]}
+            onChange={(notes) =>
+              onChange({
+                translations: { ...draft.translations, [locale]: notes },
+              })
+            }
+            rows={3}
+            lang={locale}
+          />
+        </div>
+      ))}
+
+      {identifierUnverified && (
+        <p className="text-xs text-amber-400">
+          The package identifier could not be read from this file, so it cannot
+          be checked against "{expectedIdentifier}".
+        </p>
+      )}
+      {error && (submitted || error !== MISSING_DETAILS_ERROR) && (
+        <div
+          className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
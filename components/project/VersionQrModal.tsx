@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { useProjects } from "../../contexts/ProjectsContext";
+import { AppVersion, Platform, Project } from "../../types";
+import { Button } from "../common/Button";
+import { Modal } from "../common/Modal";
+import { getQrCodeValue } from "../../utils/installLinks";
+import { useProjectPermissions } from "../../hooks/useProjectPermissions";
+
+interface VersionQrModalProps {
+  project: Project;
+  version: AppVersion | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const VersionQrModal: React.FC<VersionQrModalProps> = ({
+  project,
+  version,
+  isOpen,
+  onClose,
+}) => {
+  const { publishVersionManifest, loading } = useProjects();
+  const { can } = useProjectPermissions(project);
+  const [manifestError, setManifestError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setManifestError(null);
+  }, [isOpen, version?._id]);
+
+  if (!version) return null;
+
+  const qrValue = getQrCodeValue(version);
+  const needsManifest = version.platform === Platform.iOS && !qrValue;
+
+  const handleGenerateManifest = async () => {
+    setManifestError(null);
+    const updated = await publishVersionManifest(project._id, version._id);
+    if (!updated) {
+      setManifestError(
+        "Failed to generate the install manifest. Check that the project has an iOS bundle identifier."
+      );
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="App Download QR Code">
+      <div className="flex flex-col items-center p-4">
+        {qrValue ? (
+          <QRCodeSVG
+            value={qrValue}
+            size={256}
+            level="H"
+            bgColor="#1e293b"
+            fgColor="#e2e8f0"
+          />
+        ) : needsManifest ? (
+          <div className="text-center space-y-4">
+            <p className="text-slate-300 text-sm">
+              iOS installs over the air need a manifest.plist, and none has been
+              generated for this build yet.
+            </p>
+            {can("upload") ? (
+              <Button
+                variant="primary"
+                onClick={handleGenerateManifest}
+                disabled={loading}
+              >
+                {loading ? "Generating..." : "Generate Install Manifest"}
+              </Button>
+            ) : (
+              <p className="text-slate-400 text-xs">
+                Ask an uploader or admin of this project to generate it.
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-slate-400">No QR code value available.</p>
+        )}
+        {qrValue && (
+          <p className="mt-4 text-xs text-slate-500 break-all" title={qrValue}>
+            {qrValue}
+          </p>
+        )}
+        {qrValue && version.platform === Platform.iOS && (
+          <p className="mt-2 text-xs text-slate-400 text-center">
+            Scan with the iPhone camera and open in Safari to install.
+          </p>
+        )}
+        {manifestError && (
+          <div
+            className="mt-4 p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+            role="alert"
+          >
+            {manifestError}
+          </div>
+        )}
+        <Button variant="secondary" onClick={onClose} className="mt-6">
+          Close
+        </Button>
+      </div>
+    </Modal>
+  );
+};
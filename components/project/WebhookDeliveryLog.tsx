@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from "react";
+import { useAuth } from "../../contexts/AuthContext";
+import {
+  Project,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "../../types";
+import { isAbortError } from "../../services/apiClient";
+import { Button } from "../common/Button";
+import { Select } from "../common/Select";
+import { ArrowPathIcon } from "../common/Icons";
+
+interface WebhookDeliveryLogProps {
+  project: Project;
+  webhook: Webhook;
+}
+
+const getDeliveryStatusColor = (status: WebhookDeliveryStatus) => {
+  switch (status) {
+    case "succeeded":
+      return "bg-emerald-600 text-emerald-50";
+    case "failed":
+      return "bg-red-600 text-red-50";
+    default:
+      return "bg-slate-600 text-slate-100";
+  }
+};
+
+const describeDelivery = (delivery: WebhookDelivery) =>
+  [
+    delivery.responseStatus
+      ? `HTTP ${delivery.responseStatus}`
+      : delivery.error,
+    delivery.durationMs !== undefined && `${delivery.durationMs} ms`,
+    delivery.attempt > 1 && `attempt ${delivery.attempt}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+/**
+ * Recent deliveries of one webhook, with redelivery and test events.
+ */
+export const WebhookDeliveryLog: React.FC<WebhookDeliveryLogProps> = ({
+  project,
+  webhook,
+}) => {
+  const { api } = useAuth();
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [testEvent, setTestEvent] = useState<WebhookEvent>(webhook.events[0]);
+  const [isSendingTest, setIsSendingTest] = useState(false);
+  const [testResult, setTestResult] = useState<WebhookDelivery | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+  const [openPayloadId, setOpenPayloadId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setDeliveries(null);
+    setError(null);
+    api.webhooks
+      .listDeliveries(project._id, webhook._id, { signal: controller.signal })
+      .then((loaded) => setDeliveries(loaded || []))
+      .catch((e: any) => {
+        if (isAbortError(e)) return;
+        console.error("Failed to load webhook deliveries:", e);
+        setError(e.message || "Failed to load webhook deliveries.");
+      });
+    return () => controller.abort();
+  }, [api, project._id, webhook._id]);
+
+  // The events may have been edited since the selection was made.
+  const selectedTestEvent = webhook.events.includes(testEvent)
+    ? testEvent
+    : webhook.events[0];
+
+  const addDelivery = (delivery: WebhookDelivery) =>
+    setDeliveries((prev) => [delivery, ...(prev || [])]);
+
+  const handleSendTest = async () => {
+    setIsSendingTest(true);
+    setError(null);
+    setTestResult(null);
+    try {
+      const delivery = await api.webhooks.sendTest(
+        project._id,
+        webhook._id,
+        selectedTestEvent
+      );
+      addDelivery(delivery);
+      setTestResult(delivery);
+      setOpenPayloadId(delivery._id);
+    } catch (e: any) {
+      console.error("Failed to send test event:", e);
+      setError(e.message || "Failed to send test event.");
+    } finally {
+      setIsSendingTest(false);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery._id);
+    setError(null);
+    try {
+      addDelivery(
+        await api.webhooks.redeliver(project._id, webhook._id, delivery._id)
+      );
+    } catch (e: any) {
+      console.error("Failed to redeliver webhook:", e);
+      setError(e.message || "Failed to redeliver webhook.");
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end space-x-3">
+        <div className="w-64">
+          <Select
+            label="Test event"
+            id={`test-event-${webhook._id}`}
+            value={selectedTestEvent}
+            onChange={(e) => setTestEvent(e.target.value as WebhookEvent)}
+            options={webhook.events.map((event) => ({
+              value: event,
+              label: event,
+            }))}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleSendTest}
+          disabled={isSendingTest || webhook.events.length === 0}
+        >
+          {isSendingTest ? "Sending..." : "Send Test Event"}
+        </Button>
+      </div>
+
+      {testResult && (
+        <div
+          className={`p-3 text-sm rounded-lg ${
+            testResult.status === "succeeded"
+              ? "bg-emerald-900/50 text-emerald-200"
+              : testResult.status === "failed"
+              ? "bg-red-900/50 text-red-200"
+              : "bg-slate-700 text-slate-200"
+          }`}
+          role="status"
+        >
+          Test {testResult.event}{" "}
+          {testResult.status === "pending"
+            ? "is queued for delivery"
+            : testResult.status}
+          {describeDelivery(testResult) && `: ${describeDelivery(testResult)}`}.
+          Its payload and response are shown in the log below.
+        </div>
+      )}
+
+      {error && (
+        <div
+          className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+
+      {!deliveries ? (
+        !error && (
+          <p className="text-sm text-slate-400">Loading deliveries...</p>
+        )
+      ) : deliveries.length === 0 ? (
+        <p className="text-sm text-slate-400">No deliveries yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-700 rounded-md border border-slate-700">
+          {deliveries.map((delivery) => (
+            <li key={delivery._id} className="p-3 text-sm space-y-2">
+              <div className="flex items-center justify-between space-x-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span
+                    className={`px-2 py-0.5 text-xs font-semibold rounded-full ${getDeliveryStatusColor(
+                      delivery.status
+                    )}`}
+                  >
+                    {delivery.status}
+                  </span>
+                  <button
+                    onClick={() =>
+                      setOpenPayloadId((prev) =>
+                        prev === delivery._id ? null : delivery._id
+                      )
+                    }
+                    className="font-mono text-slate-200 hover:text-sky-400 truncate"
+                    title="Show Payload and Response"
+                  >
+                    {delivery.event}
+                    {delivery.payload.test && " (test)"}
+                  </button>
+                  <span className="text-xs text-slate-400 whitespace-nowrap">
+                    {describeDelivery(delivery)}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <span className="text-xs text-slate-400">
+                    {new Date(delivery.createdAt).toLocaleString()}
+                  </span>
+                  <button
+                    onClick={() => handleRedeliver(delivery)}
+                    className="text-sky-400 hover:text-sky-300 disabled:opacity-50"
+                    title="Redeliver"
+                    disabled={redeliveringId === delivery._id}
+                  >
+                    <ArrowPathIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
+              {openPayloadId === delivery._id && (
+                <div className="space-y-2">
+                  <pre className="p-3 rounded-md bg-slate-900 text-xs text-slate-300 font-mono overflow-x-auto max-h-64">
+                    {JSON.stringify(delivery.payload, null, 2)}
+                  </pre>
+                  {delivery.responseBody && (
+                    <div>
+                      <p className="text-xs text-slate-400 mb-1">Response</p>
+                      <pre className="p-3 rounded-md bg-slate-900 text-xs text-slate-300 font-mono overflow-x-auto max-h-40 whitespace-pre-wrap">
+                        {delivery.responseBody}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
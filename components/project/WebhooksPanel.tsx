@@ -0,0 +1,382 @@
+import React, { useEffect, useState } from "react";
+import { useAuth } from "../../contexts/AuthContext";
+import { CreatedWebhook, Project, Webhook, WebhookEvent } from "../../types";
+import { WEBHOOK_EVENTS, WEBHOOK_SIGNATURE_HEADER } from "../../constants";
+import { isAbortError } from "../../services/apiClient";
+import { isHttpUrl } from "../../utils/urls";
+import { Button } from "../common/Button";
+import { Modal } from "../common/Modal";
+import { Input } from "../common/Input";
+import { CodeBlock } from "../common/CodeBlock";
+import { PencilSquareIcon, PlusIcon, TrashIcon } from "../common/Icons";
+import { WebhookDeliveryLog } from "./WebhookDeliveryLog";
+
+interface WebhooksPanelProps {
+  project: Project;
+}
+
+type WebhookForm = Pick<Webhook, "url" | "events" | "enabled"> & {
+  _id?: string;
+};
+
+// Webhooks are delivered and signed by the backend; this panel configures
+// them and shows what was sent. Like API tokens they are loaded locally.
+export const WebhooksPanel: React.FC<WebhooksPanelProps> = ({ project }) => {
+  const { api } = useAuth();
+  const [webhooks, setWebhooks] = useState<Webhook[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [expandedWebhookId, setExpandedWebhookId] = useState<string | null>(
+    null
+  );
+
+  const [editingWebhook, setEditingWebhook] = useState<WebhookForm | null>(
+    null
+  );
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [createdWebhook, setCreatedWebhook] = useState<CreatedWebhook | null>(
+    null
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setWebhooks(null);
+    setLoadError(null);
+    api.webhooks
+      .list(project._id, { signal: controller.signal })
+      .then((loaded) => setWebhooks(loaded || []))
+      .catch((e: any) => {
+        if (isAbortError(e)) return;
+        console.error("Failed to load webhooks:", e);
+        setLoadError(e.message || "Failed to load webhooks.");
+      });
+    return () => controller.abort();
+  }, [api, project._id]);
+
+  const openWebhookModal = (webhook?: Webhook) => {
+    setEditingWebhook(
+      webhook
+        ? {
+            _id: webhook._id,
+            url: webhook.url,
+            events: webhook.events,
+            enabled: webhook.enabled,
+          }
+        : {
+            url: "",
+            events: WEBHOOK_EVENTS.map((e) => e.value),
+            enabled: true,
+          }
+    );
+    setFormError(null);
+  };
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEditingWebhook((prev) =>
+      prev
+        ? {
+            ...prev,
+            events: prev.events.includes(event)
+              ? prev.events.filter((e) => e !== event)
+              : [...prev.events, event],
+          }
+        : prev
+    );
+
+  const replaceWebhook = (updated: Webhook) =>
+    setWebhooks((prev) =>
+      (prev || []).map((w) => (w._id === updated._id ? updated : w))
+    );
+
+  const handleSaveWebhook = async () => {
+    if (!editingWebhook) return;
+    const url = editingWebhook.url.trim();
+    if (!isHttpUrl(url)) {
+      setFormError("Payload URL must be an http:// or https:// URL.");
+      return;
+    }
+    if (editingWebhook.events.length === 0) {
+      setFormError("Select at least one event.");
+      return;
+    }
+    const payload = {
+      url,
+      events: editingWebhook.events,
+      enabled: editingWebhook.enabled,
+    };
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      if (editingWebhook._id) {
+        replaceWebhook(
+          await api.webhooks.update(project._id, editingWebhook._id, payload)
+        );
+      } else {
+        const created = await api.webhooks.create(project._id, payload);
+        const { secret, ...listed } = created;
+        setWebhooks((prev) => [...(prev || []), listed]);
+        setCreatedWebhook(created);
+      }
+      setEditingWebhook(null);
+    } catch (e: any) {
+      console.error("Failed to save webhook:", e);
+      setFormError(e.message || "Failed to save webhook.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (webhook: Webhook) => {
+    try {
+      replaceWebhook(
+        await api.webhooks.update(project._id, webhook._id, {
+          url: webhook.url,
+          events: webhook.events,
+          enabled: !webhook.enabled,
+        })
+      );
+    } catch (e) {
+      console.error("Failed to update webhook:", e);
+      alert("Failed to update webhook. Check console for errors.");
+    }
+  };
+
+  const handleDeleteWebhook = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url}?`)) return;
+    try {
+      await api.webhooks.delete(project._id, webhook._id);
+      setWebhooks((prev) => (prev || []).filter((w) => w._id !== webhook._id));
+    } catch (e) {
+      console.error("Failed to delete webhook:", e);
+      alert("Failed to delete webhook. Check console for errors.");
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
+      <div className="flex justify-between items-center p-6 border-b border-slate-700">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-200">Webhooks</h2>
+          <p className="text-sm text-slate-400">
+            POST a signed JSON payload to your endpoints when releases change.
+            Verify the{" "}
+            <span className="font-mono">{WEBHOOK_SIGNATURE_HEADER}</span>{" "}
+            header, an HMAC-SHA256 of the raw body with the webhook secret.
+          </p>
+        </div>
+        <Button
+          onClick={() => openWebhookModal()}
+          variant="outline"
+          size="sm"
+          className="flex items-center space-x-1.5 flex-shrink-0"
+        >
+          <PlusIcon className="h-4 w-4" />
+          <span>Add Webhook</span>
+        </Button>
+      </div>
+      {loadError ? (
+        <div
+          className="m-6 p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+          role="alert"
+        >
+          {loadError}
+        </div>
+      ) : !webhooks ? (
+        <p className="text-slate-400 p-6 text-center">Loading webhooks...</p>
+      ) : webhooks.length === 0 ? (
+        <p className="text-slate-400 p-6 text-center">
+          No webhooks configured for this project.
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-700">
+          {webhooks.map((webhook) => (
+            <li key={webhook._id} className="p-4 space-y-3">
+              <div className="flex items-center justify-between space-x-4">
+                <div className="min-w-0">
+                  <p
+                    className="text-slate-100 font-mono text-sm truncate"
+                    title={webhook.url}
+                  >
+                    {webhook.url}
+                  </p>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {webhook.events.map((event) => (
+                      <span
+                        key={event}
+                        className="px-2 py-0.5 text-xs font-mono rounded-full bg-slate-700 text-slate-300"
+                      >
+                        {event}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggleEnabled(webhook)}
+                    className={`px-2.5 py-1 text-xs font-semibold rounded-full ${
+                      webhook.enabled
+                        ? "bg-emerald-600 text-emerald-50"
+                        : "bg-slate-600 text-slate-300"
+                    }`}
+                    title={webhook.enabled ? "Disable" : "Enable"}
+                  >
+                    {webhook.enabled ? "Enabled" : "Disabled"}
+                  </button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() =>
+                      setExpandedWebhookId((prev) =>
+                        prev === webhook._id ? null : webhook._id
+                      )
+                    }
+                  >
+                    {expandedWebhookId === webhook._id
+                      ? "Hide Deliveries"
+                      : "Deliveries"}
+                  </Button>
+                  <button
+                    onClick={() => openWebhookModal(webhook)}
+                    className="text-sky-400 hover:text-sky-300"
+                    title="Edit Webhook"
+                  >
+                    <PencilSquareIcon className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteWebhook(webhook)}
+                    className="text-red-500 hover:text-red-400"
+                    title="Delete Webhook"
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
+              {expandedWebhookId === webhook._id && (
+                <WebhookDeliveryLog project={project} webhook={webhook} />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal
+        isOpen={!!editingWebhook}
+        onClose={() => setEditingWebhook(null)}
+        title={editingWebhook?._id ? "Edit Webhook" : "Add Webhook"}
+        size="lg"
+      >
+        {editingWebhook && (
+          <div className="space-y-4">
+            <Input
+              label="Payload URL"
+              type="url"
+              value={editingWebhook.url}
+              onChange={(e) =>
+                setEditingWebhook((prev) =>
+                  prev ? { ...prev, url: e.target.value } : prev
+                )
+              }
+              placeholder="https://hooks.example.com/release-hub"
+              className="bg-slate-700 border-slate-600 text-slate-100 font-mono"
+            />
+            <div>
+              <span className="block text-sm font-medium text-slate-300 mb-2">
+                Events
+              </span>
+              <div className="space-y-2">
+                {WEBHOOK_EVENTS.map((event) => (
+                  <label
+                    key={event.value}
+                    className="flex items-start space-x-2 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={editingWebhook.events.includes(event.value)}
+                      onChange={() => toggleEvent(event.value)}
+                      className="mt-0.5 form-checkbox h-5 w-5 text-sky-500 bg-slate-600 border-slate-500 rounded focus:ring-sky-500"
+                    />
+                    <span>
+                      <span className="text-sm font-mono text-slate-200">
+                        {event.value}
+                      </span>
+                      <span className="block text-xs text-slate-400">
+                        {event.description}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={editingWebhook.enabled}
+                onChange={(e) =>
+                  setEditingWebhook((prev) =>
+                    prev ? { ...prev, enabled: e.target.checked } : prev
+                  )
+                }
+                className="form-checkbox h-5 w-5 text-sky-500 bg-slate-600 border-slate-500 rounded focus:ring-sky-500"
+              />
+              <span className="text-sm text-slate-200">Active</span>
+            </label>
+            {formError && (
+              <div
+                className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+                role="alert"
+              >
+                {formError}
+              </div>
+            )}
+            <div className="flex justify-end space-x-3 pt-4">
+              <Button
+                variant="secondary"
+                onClick={() => setEditingWebhook(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleSaveWebhook}
+                disabled={isSaving}
+              >
+                {isSaving ? "Saving..." : "Save Webhook"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={!!createdWebhook}
+        onClose={() => setCreatedWebhook(null)}
+        title="Webhook Created"
+        size="lg"
+      >
+        {createdWebhook && (
+          <div className="space-y-4">
+            <p className="text-sm text-amber-300">
+              Copy the signing secret now. It will not be shown again.
+            </p>
+            <CodeBlock
+              code={createdWebhook.secret}
+              copyLabel="webhook secret"
+            />
+            <p className="text-sm text-slate-400">
+              Each request carries{" "}
+              <span className="font-mono">
+                {WEBHOOK_SIGNATURE_HEADER}: sha256=&lt;hex digest&gt;
+              </span>
+              , computed over the raw request body with this secret.
+            </p>
+            <div className="flex justify-end pt-2">
+              <Button variant="primary" onClick={() => setCreatedWebhook(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useState } from "react";
+import { useBackend } from "../../contexts/BackendContext";
+import { BackendProfile } from "../../types";
+import { DEFAULT_BACKEND_PROFILE } from "../../constants";
+import { createApiClient } from "../../services/apiClient";
+import { createReleaseHubApi } from "../../services/releaseHubApi";
+import { isHttpUrl } from "../../utils/urls";
+import { Button } from "../common/Button";
+import { Modal } from "../common/Modal";
+import { Input } from "../common/Input";
+import {
+  PlusIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+} from "../common/Icons";
+
+type ConnectionStatus = { ok: boolean; message: string };
+
+export const BackendProfilesPanel: React.FC = () => {
+  const { profiles, activeProfile, selectProfile, saveProfile, deleteProfile } =
+    useBackend();
+  const [editingProfile, setEditingProfile] =
+    useState<Partial<BackendProfile> | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<
+    Record<string, ConnectionStatus | "checking">
+  >({});
+
+  const openProfileModal = (profile?: BackendProfile) => {
+    setEditingProfile(profile || { name: "", baseUrl: "" });
+    setFormError(null);
+  };
+
+  const handleSaveProfile = () => {
+    if (!editingProfile) return;
+    const name = editingProfile.name?.trim() || "";
+    const baseUrl = editingProfile.baseUrl?.trim() || "";
+    if (!name || !baseUrl) {
+      setFormError("Name and base URL are required.");
+      return;
+    }
+    if (!isHttpUrl(baseUrl)) {
+      setFormError("Base URL must be an http:// or https:// URL.");
+      return;
+    }
+    saveProfile({ id: editingProfile.id, name, baseUrl });
+    setEditingProfile(null);
+  };
+
+  const handleDeleteProfile = (profile: BackendProfile) => {
+    if (!window.confirm(`Delete backend profile "${profile.name}"?`)) return;
+    deleteProfile(profile.id);
+  };
+
+  // Lists projects without retries, which is enough to tell whether the
+  // backend is reachable and speaks the expected API.
+  const testConnection = async (profile: BackendProfile) => {
+    setConnectionStatus((prev) => ({ ...prev, [profile.id]: "checking" }));
+    let status: ConnectionStatus;
+    try {
+      const projects = await createReleaseHubApi(
+        createApiClient({ baseUrl: profile.baseUrl, maxRetries: 0 })
+      ).projects.list();
+      status = {
+        ok: true,
+        message: `Connected, ${projects?.length || 0} project(s).`,
+      };
+    } catch (e: any) {
+      status = { ok: false, message: e.message || "Connection failed." };
+    }
+    setConnectionStatus((prev) => ({ ...prev, [profile.id]: status }));
+  };
+
+  return (
+    <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
+      <div className="flex justify-between items-center p-6 border-b border-slate-700">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-200">
+            Backend Profiles
+          </h2>
+          <p className="text-sm text-slate-400">
+            Choose which backend the hub talks to. Switching reloads all
+            projects.
+          </p>
+        </div>
+        <Button
+          onClick={() => openProfileModal()}
+          variant="outline"
+          size="sm"
+          className="flex items-center space-x-1.5"
+        >
+          <PlusIcon className="h-4 w-4" />
+          <span>Add Profile</span>
+        </Button>
+      </div>
+      <ul className="divide-y divide-slate-700">
+        {profiles.map((profile) => {
+          const isActive = profile.id === activeProfile.id;
+          const status = connectionStatus[profile.id];
+          return (
+            <li
+              key={profile.id}
+              className="p-4 flex items-center justify-between space-x-4"
+            >
+              <div className="min-w-0">
+                <p className="text-slate-100 font-medium">
+                  {profile.name}
+                  {isActive && (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-emerald-600 text-emerald-50">
+                      Active
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-400 font-mono truncate">
+                  {profile.baseUrl}
+                </p>
+                {status && (
+                  <p
+                    className={`mt-1 text-xs flex items-center space-x-1 ${
+                      status === "checking"
+                        ? "text-slate-400"
+                        : status.ok
+                        ? "text-emerald-400"
+                        : "text-red-400"
+                    }`}
+                  >
+                    {status !== "checking" &&
+                      (status.ok ? (
+                        <CheckCircleIcon className="h-4 w-4" />
+                      ) : (
+                        <XCircleIcon className="h-4 w-4" />
+                      ))}
+                    <span>
+                      {status === "checking" ? "Checking..." : status.message}
+                    </span>
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => testConnection(profile)}
+                  disabled={status === "checking"}
+                >
+                  Test
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => selectProfile(profile.id)}
+                  disabled={isActive}
+                >
+                  Use
+                </Button>
+                {profile.id !== DEFAULT_BACKEND_PROFILE.id && (
+                  <>
+                    <button
+                      onClick={() => openProfileModal(profile)}
+                      className="text-sky-400 hover:text-sky-300"
+                      title="Edit Profile"
+                    >
+                      <PencilSquareIcon className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteProfile(profile)}
+                      className="text-red-500 hover:text-red-400"
+                      title="Delete Profile"
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <Modal
+        isOpen={!!editingProfile}
+        onClose={() => setEditingProfile(null)}
+        title={
+          editingProfile?.id ? "Edit Backend Profile" : "Add Backend Profile"
+        }
+      >
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            type="text"
+            value={editingProfile?.name || ""}
+            onChange={(e) =>
+              setEditingProfile((prev) => ({ ...prev, name: e.target.value }))
+            }
+            placeholder="e.g. Staging server"
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+          <Input
+            label="Base URL"
+            type="url"
+            value={editingProfile?.baseUrl || ""}
+            onChange={(e) =>
+              setEditingProfile((prev) => ({
+                ...prev,
+                baseUrl: e.target.value,
+              }))
+            }
+            placeholder="https://staging.example.com/api"
+            className="bg-slate-700 border-slate-600 text-slate-100 font-mono"
+          />
+          {formError && (
+            <div
+              className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+              role="alert"
+            >
+              {formError}
+            </div>
+          )}
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button variant="secondary" onClick={() => setEditingProfile(null)}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleSaveProfile}>
+              Save Profile
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
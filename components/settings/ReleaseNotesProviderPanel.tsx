@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from "react";
+import { useLlmSettings } from "../../contexts/LlmSettingsContext";
+import { LlmProviderId, LlmSettings, Platform } from "../../types";
+import { LLM_PROVIDERS } from "../../constants";
+import { isGeminiConfigured } from "../../services/geminiService";
+import { generateReleaseNotes } from "../../services/releaseNotesProviders";
+import { releaseNotesToMarkdown } from "../../utils/releaseNotes";
+import { isHttpUrl } from "../../utils/urls";
+import { Button } from "../common/Button";
+import { Input } from "../common/Input";
+import { Select } from "../common/Select";
+import { CheckCircleIcon, XCircleIcon } from "../common/Icons";
+
+const SAMPLE_CHANGE_LOG = `feat(login): remember the last used email
+fix: crash when opening a build without release notes (#42)
+chore: bump dependencies`;
+
+type TestResult = { ok: boolean; message: string };
+
+export const ReleaseNotesProviderPanel: React.FC = () => {
+  const { settings, saveSettings } = useLlmSettings();
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<TestResult | "testing" | null>(
+    null
+  );
+
+  useEffect(() => setDraft(settings), [settings]);
+
+  const providerInfo = LLM_PROVIDERS.find((p) => p.value === draft.provider);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const updateDraft = (changes: Partial<LlmSettings>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setFormError(null);
+    setTestResult(null);
+  };
+
+  // Switching providers resets the model, since model names do not carry over.
+  const handleProviderChange = (provider: LlmProviderId) =>
+    updateDraft({
+      provider,
+      model:
+        LLM_PROVIDERS.find((p) => p.value === provider)?.defaultModel || "",
+    });
+
+  const validate = (): boolean => {
+    if (draft.provider !== "template" && !draft.model.trim()) {
+      setFormError("Enter the model to use.");
+      return false;
+    }
+    if (draft.provider === "openai" && !isHttpUrl(draft.baseUrl.trim())) {
+      setFormError("Base URL must be an http:// or https:// URL.");
+      return false;
+    }
+    return true;
+  };
+
+  const handleSave = () => {
+    if (validate()) saveSettings(draft);
+  };
+
+  // Generates notes for a small sample change log with the unsaved settings.
+  const handleTest = async () => {
+    if (!validate()) return;
+    setTestResult("testing");
+    try {
+      const { notes } = await generateReleaseNotes(
+        {
+          projectName: "Sample App",
+          platform: Platform.Android,
+          versionName: "1.0.0",
+          buildNumber: "1",
+          changeLog: SAMPLE_CHANGE_LOG,
+        },
+        draft
+      );
+      setTestResult({ ok: true, message: releaseNotesToMarkdown(notes) });
+    } catch (e: any) {
+      console.error("Release notes provider test failed:", e);
+      setTestResult({ ok: false, message: e.message || "Test failed." });
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
+      <div className="p-6 border-b border-slate-700">
+        <h2 className="text-xl font-semibold text-slate-200">
+          Release Notes Generation
+        </h2>
+        <p className="text-sm text-slate-400">
+          Choose what writes release notes from change logs. The provider and
+          model are recorded on every version they write notes for.
+        </p>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Select
+            label="Provider"
+            id="llm-provider"
+            value={draft.provider}
+            onChange={(e) =>
+              handleProviderChange(e.target.value as LlmProviderId)
+            }
+            options={LLM_PROVIDERS.map((p) => ({
+              value: p.value,
+              label: p.label,
+            }))}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+          {draft.provider !== "template" && (
+            <Input
+              label="Model"
+              id="llm-model"
+              type="text"
+              value={draft.model}
+              onChange={(e) => updateDraft({ model: e.target.value })}
+              placeholder={providerInfo?.defaultModel}
+              className="bg-slate-700 border-slate-600 text-slate-100 font-mono"
+            />
+          )}
+        </div>
+        {providerInfo && (
+          <p className="text-sm text-slate-400">{providerInfo.description}</p>
+        )}
+        {draft.provider === "gemini" && !isGeminiConfigured() && (
+          <p className="text-sm text-amber-400">
+            This build has no Gemini API key. Set GEMINI_API_KEY when building
+            the app or choose another provider.
+          </p>
+        )}
+        {draft.provider === "openai" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Base URL"
+              id="llm-base-url"
+              type="url"
+              value={draft.baseUrl}
+              onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+              className="bg-slate-700 border-slate-600 text-slate-100 font-mono"
+            />
+            <Input
+              label="API Key (optional)"
+              id="llm-api-key"
+              type="password"
+              value={draft.apiKey}
+              onChange={(e) => updateDraft({ apiKey: e.target.value })}
+              placeholder="Stored in this browser only"
+              className="bg-slate-700 border-slate-600 text-slate-100"
+            />
+          </div>
+        )}
+        {formError && (
+          <div
+            className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+            role="alert"
+          >
+            {formError}
+          </div>
+        )}
+        {testResult && (
+          <div
+            className={`text-sm flex items-start space-x-2 ${
+              testResult === "testing"
+                ? "text-slate-400"
+                : testResult.ok
+                ? "text-emerald-400"
+                : "text-red-400"
+            }`}
+          >
+            {testResult !== "testing" &&
+              (testResult.ok ? (
+                <CheckCircleIcon className="h-5 w-5 flex-shrink-0" />
+              ) : (
+                <XCircleIcon className="h-5 w-5 flex-shrink-0" />
+              ))}
+            {testResult === "testing" ? (
+              <span>Generating sample notes...</span>
+            ) : testResult.ok ? (
+              <pre className="p-3 rounded-md bg-slate-900 text-xs text-slate-300 whitespace-pre-wrap flex-1">
+                {testResult.message}
+              </pre>
+            ) : (
+              <span>{testResult.message}</span>
+            )}
+          </div>
+        )}
+        <div className="flex justify-end space-x-3">
+          <Button
+            variant="secondary"
+            onClick={handleTest}
+            disabled={testResult === "testing"}
+          >
+            Test
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={!isDirty}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
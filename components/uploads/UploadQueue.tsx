@@ -0,0 +1,161 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { UploadTask } from "../../types";
+import { isUploadActive, useUploads } from "../../contexts/UploadsContext";
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  UploadIcon,
+  XCircleIcon,
+  XMarkIcon,
+} from "../common/Icons";
+
+const formatMegabytes = (bytes: number) =>
+  `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const getStatusText = (upload: UploadTask) => {
+  switch (upload.status) {
+    case "hashing":
+      return `Computing checksum, ${formatMegabytes(
+        upload.uploadedBytes
+      )} of ${formatMegabytes(upload.totalBytes)}`;
+    case "uploading":
+      return `${formatMegabytes(upload.uploadedBytes)} of ${formatMegabytes(
+        upload.totalBytes
+      )}`;
+    case "processing":
+      return "Processing...";
+    case "completed":
+      return "Uploaded";
+    case "cancelled":
+      return "Cancelled";
+    case "failed":
+      return upload.error || "Failed";
+  }
+};
+
+const isCancellable = (upload: UploadTask) =>
+  upload.status === "hashing" || upload.status === "uploading";
+
+/**
+ * Floating list of uploads started from any page. Uploads keep running while
+ * navigating; the list stays until each entry is dismissed.
+ */
+export const UploadQueue: React.FC = () => {
+  const { uploads, cancelUpload, retryUpload, dismissUpload } = useUploads();
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  if (uploads.length === 0) return null;
+
+  const activeCount = uploads.filter(isUploadActive).length;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-20 w-96 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl overflow-hidden">
+      <div className="flex justify-between items-center px-4 py-3 bg-slate-700/50">
+        <button
+          onClick={() => setIsCollapsed((prev) => !prev)}
+          className="flex items-center space-x-2 text-sm font-semibold text-slate-200"
+        >
+          <UploadIcon className="h-5 w-5 text-sky-400" />
+          <span>
+            {activeCount > 0
+              ? `Uploading ${activeCount} file${activeCount > 1 ? "s" : ""}`
+              : "Uploads"}
+          </span>
+        </button>
+        {activeCount < uploads.length && (
+          <button
+            onClick={() =>
+              uploads
+                .filter((u) => !isUploadActive(u))
+                .forEach((u) => dismissUpload(u.id))
+            }
+            className="text-xs text-slate-400 hover:text-slate-200"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+      {!isCollapsed && (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-slate-700">
+          {uploads.map((upload) => {
+            const percentage =
+              upload.totalBytes > 0
+                ? Math.round((upload.uploadedBytes / upload.totalBytes) * 100)
+                : 0;
+            return (
+              <li key={upload.id} className="px-4 py-3 space-y-2">
+                <div className="flex justify-between items-start space-x-3">
+                  <div className="min-w-0">
+                    <Link
+                      to={`/project/${upload.projectId}`}
+                      className="block text-sm font-medium text-slate-100 hover:text-sky-400 truncate"
+                    >
+                      {upload.label}
+                    </Link>
+                    <p
+                      className="text-xs text-slate-400 truncate"
+                      title={upload.fileName}
+                    >
+                      {upload.fileName}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    {upload.status === "completed" && (
+                      <CheckCircleIcon className="h-5 w-5 text-emerald-400" />
+                    )}
+                    {upload.status === "failed" && (
+                      <XCircleIcon className="h-5 w-5 text-red-400" />
+                    )}
+                    {(upload.status === "failed" ||
+                      upload.status === "cancelled") && (
+                      <button
+                        onClick={() => retryUpload(upload.id)}
+                        className="text-sky-400 hover:text-sky-300"
+                        title="Resume Upload"
+                      >
+                        <ArrowPathIcon className="h-5 w-5" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() =>
+                        isCancellable(upload)
+                          ? cancelUpload(upload.id)
+                          : dismissUpload(upload.id)
+                      }
+                      className="text-slate-400 hover:text-red-400 disabled:opacity-50"
+                      title={
+                        isCancellable(upload) ? "Cancel Upload" : "Dismiss"
+                      }
+                      disabled={upload.status === "processing"}
+                    >
+                      <XMarkIcon className="h-5 w-5" />
+                    </button>
+                  </div>
+                </div>
+                {isUploadActive(upload) && (
+                  <div className="h-1.5 rounded-full bg-slate-700 overflow-hidden">
+                    <div
+                      className="h-full bg-sky-500 transition-all duration-200"
+                      style={{ width: `${percentage}%` }}
+                    />
+                  </div>
+                )}
+                <p
+                  className={`text-xs ${
+                    upload.status === "failed"
+                      ? "text-red-400"
+                      : "text-slate-400"
+                  }`}
+                >
+                  {getStatusText(upload)}
+                  {isCancellable(upload) && ` (${percentage}%)`}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
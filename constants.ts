@@ -1,6 +1,200 @@
+import {
+  ApiTokenScope,
+  AuditAction,
+  BackendProfile,
+  DeploymentEnvironment,
+  DownloadSource,
+  EditableVersionField,
+  LlmProviderId,
+  LlmSettings,
+  ProjectRole,
+  StructuredReleaseNotes,
+  WebhookEvent,
+} from "./types";
+
 export const GEMINI_API_MODEL_TEXT = "gemini-2.5-flash-preview-04-17";
-export const API_BASE_URL = "https://be-ota-cno.onrender.com/api"; // Backend API
+// Backend API used by the default profile. Override with VITE_API_BASE_URL.
+export const API_BASE_URL =
+  process.env.API_BASE_URL || "https://be-ota-cno.onrender.com/api";
+
+// Always available and not editable, so a bad profile can't lock users out.
+export const DEFAULT_BACKEND_PROFILE: BackendProfile = {
+  id: "default",
+  name: "Default",
+  baseUrl: API_BASE_URL,
+};
+
+// Seeded the first time the hub runs; editable from the settings page.
+// Staging and production have no public default, so they are only seeded
+// when VITE_API_STAGING_URL / VITE_API_PRODUCTION_URL are set at build time.
+export const INITIAL_BACKEND_PROFILES: BackendProfile[] = [
+  { id: "local", name: "Local", baseUrl: "http://localhost:3000/api" },
+  { id: "staging", name: "Staging", baseUrl: process.env.API_STAGING_URL },
+  {
+    id: "production",
+    name: "Production",
+    baseUrl: process.env.API_PRODUCTION_URL,
+  },
+].filter((profile): profile is BackendProfile => !!profile.baseUrl);
+
+// Order in which versions are promoted between environments.
+export const ENVIRONMENT_PIPELINE: DeploymentEnvironment[] = [
+  DeploymentEnvironment.Development,
+  DeploymentEnvironment.Staging,
+  DeploymentEnvironment.Production,
+];
+
+// Percentages offered when staging a rollout within an environment.
+export const ROLLOUT_PERCENTAGE_STEPS = [5, 25, 50, 100];
 
-// This will be the base path for internal mock download routes.
+// Base path of the public install page for a version.
 // e.g., #/app-downloads resulting in #/app-downloads/:projectId/:versionId
-export const INTERNAL_MOCK_DOWNLOAD_PATH_PREFIX = "#/app-downloads";
+export const INSTALL_PAGE_PATH_PREFIX = "#/app-downloads";
+// Query parameter of install page links naming the backend they were made
+// on, since testers opening them have no backend profile of their own.
+export const INSTALL_PAGE_BACKEND_PARAM = "backend";
+
+export const PROJECT_ROLES: { value: ProjectRole; label: string }[] = [
+  { value: "viewer", label: "Viewer" },
+  { value: "uploader", label: "Uploader" },
+  { value: "release_manager", label: "Release Manager" },
+  { value: "admin", label: "Admin" },
+];
+
+export const API_TOKEN_SCOPES: {
+  value: ApiTokenScope;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "upload",
+    label: "Upload",
+    description: "Upload versions and bundles",
+  },
+  {
+    value: "promote",
+    label: "Promote",
+    description: "Promote versions and change rollouts",
+  },
+];
+
+export const WEBHOOK_EVENTS: {
+  value: WebhookEvent;
+  description: string;
+}[] = [
+  { value: "version.created", description: "A version was uploaded" },
+  { value: "version.deleted", description: "A version was deleted" },
+  {
+    value: "environment.changed",
+    description: "A version was activated, promoted, rolled out or rolled back",
+  },
+  { value: "bundle.published", description: "A bundle was published" },
+  { value: "project.deleted", description: "The project was deleted" },
+];
+
+// Header carrying `sha256=<hex HMAC of the raw body>` on webhook requests.
+export const WEBHOOK_SIGNATURE_HEADER = "X-ReleaseHub-Signature";
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: "project.created", label: "Project created" },
+  { value: "project.updated", label: "Project updated" },
+  { value: "project.deleted", label: "Project deleted" },
+  { value: "member.added", label: "Member added" },
+  { value: "member.roleChanged", label: "Member role changed" },
+  { value: "member.removed", label: "Member removed" },
+  { value: "version.uploaded", label: "Version uploaded" },
+  { value: "version.deleted", label: "Version deleted" },
+  { value: "version.environmentsChanged", label: "Environments changed" },
+  {
+    value: "version.environmentsTakenOver",
+    label: "Environments taken over",
+  },
+  { value: "version.rolloutChanged", label: "Rollout changed" },
+  { value: "version.promoted", label: "Version promoted" },
+  { value: "version.rolledBack", label: "Environment rolled back" },
+  { value: "version.manifestPublished", label: "Manifest published" },
+  { value: "version.edited", label: "Version edited" },
+  { value: "bundle.uploaded", label: "Bundle uploaded" },
+  { value: "bundle.deleted", label: "Bundle deleted" },
+  { value: "bundle.republished", label: "Bundle republished" },
+  { value: "bundle.rolledBack", label: "Bundle rolled back" },
+];
+
+export const DOWNLOAD_STATS_RANGES: { days: number; label: string }[] = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+export const DOWNLOAD_SOURCE_LABELS: Record<DownloadSource, string> = {
+  dashboard: "Dashboard",
+  installPage: "Install page",
+  qr: "QR code",
+};
+
+export const VERSION_FIELD_LABELS: Record<EditableVersionField, string> = {
+  versionName: "Version name",
+  buildNumber: "Build number",
+  releaseNotes: "Release notes",
+};
+
+export const RELEASE_NOTES_SECTIONS: {
+  key: keyof Omit<StructuredReleaseNotes, "summary">;
+  title: string;
+}[] = [
+  { key: "features", title: "New Features" },
+  { key: "fixes", title: "Bug Fixes" },
+  { key: "knownIssues", title: "Known Issues" },
+];
+
+// Languages release notes can be written in or translated to.
+export const RELEASE_NOTES_LOCALES: { value: string; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "vi", label: "Tiếng Việt" },
+];
+
+export const DEFAULT_RELEASE_NOTES_LOCALE = "en";
+
+// Recorded as the model of template notes, bump when the rules change.
+export const TEMPLATE_RELEASE_NOTES_MODEL = "template-v1";
+
+export const LLM_PROVIDERS: {
+  value: LlmProviderId;
+  label: string;
+  description: string;
+  defaultModel: string;
+}[] = [
+  {
+    value: "gemini",
+    label: "Google Gemini",
+    description: "Uses the API_KEY the app was built with.",
+    defaultModel: GEMINI_API_MODEL_TEXT,
+  },
+  {
+    value: "openai",
+    label: "OpenAI-compatible",
+    description:
+      "Any /chat/completions endpoint, e.g. OpenAI, Ollama, LM Studio or vLLM.",
+    defaultModel: "llama3.1",
+  },
+  {
+    value: "template",
+    label: "Offline template",
+    description:
+      "Sorts the change log into sections with fixed rules. No network, same input gives the same notes.",
+    defaultModel: TEMPLATE_RELEASE_NOTES_MODEL,
+  },
+];
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: "gemini",
+  model: GEMINI_API_MODEL_TEXT,
+  baseUrl: "http://localhost:11434/v1",
+  apiKey: "",
+};
+
+// Files above this size are uploaded in chunks through a resumable session.
+export const CHUNKED_UPLOAD_THRESHOLD_BYTES = 20 * 1024 * 1024;
+export const UPLOAD_CHUNK_SIZE_BYTES = 8 * 1024 * 1024;
+// Attempts per chunk before the upload is reported as failed.
+export const UPLOAD_CHUNK_MAX_ATTEMPTS = 4;
@@ -0,0 +1,154 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { AuthSession, AuthUser } from "../types";
+import { createApiClient } from "../services/apiClient";
+import { createReleaseHubApi, ReleaseHubApi } from "../services/releaseHubApi";
+import { useBackend } from "./BackendContext";
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isAuthenticated: boolean;
+  sessionExpired: boolean; // Set when the last session ended with a 401
+  api: ReleaseHubApi; // Sends the access token of the current session
+  login: (email: string, password: string) => Promise<AuthUser>;
+  logout: () => Promise<void>;
+}
+
+// Sessions are kept per backend profile, since each backend has its own users.
+const sessionStorageKey = (profileId: string) =>
+  `releaseHub.session.${profileId}`;
+
+const loadSession = (profileId: string): AuthSession | null => {
+  try {
+    const stored = localStorage.getItem(sessionStorageKey(profileId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { activeProfile, api: anonymousApi } = useBackend();
+  const [session, setSession] = useState<AuthSession | null>(() =>
+    loadSession(activeProfile.id)
+  );
+  const [sessionProfileId, setSessionProfileId] = useState(activeProfile.id);
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  // Switch to the stored session of the new profile before anything renders
+  // with the previous profile's tokens.
+  if (sessionProfileId !== activeProfile.id) {
+    setSessionProfileId(activeProfile.id);
+    setSession(loadSession(activeProfile.id));
+    setSessionExpired(false);
+  }
+
+  // The API client reads tokens through refs so it stays stable across
+  // refreshes and only changes with the backend.
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  useEffect(() => {
+    if (session) {
+      localStorage.setItem(
+        sessionStorageKey(sessionProfileId),
+        JSON.stringify(session)
+      );
+    } else {
+      localStorage.removeItem(sessionStorageKey(sessionProfileId));
+    }
+  }, [session, sessionProfileId]);
+
+  const api = useMemo(() => {
+    // The client shares one call between concurrent 401s.
+    const refreshAccessToken = (): Promise<string | null> => {
+      const current = sessionRef.current;
+      if (!current) return Promise.resolve(null);
+      return anonymousApi.auth
+        .refresh(current.refreshToken)
+        .then((tokens) => {
+          const renewed = { ...current, ...tokens };
+          sessionRef.current = renewed;
+          setSession(renewed);
+          return renewed.accessToken;
+        })
+        .catch((e) => {
+          console.warn("Failed to refresh access token:", e);
+          return null;
+        });
+    };
+
+    return createReleaseHubApi(
+      createApiClient({
+        baseUrl: activeProfile.baseUrl,
+        auth: {
+          getAccessToken: () => sessionRef.current?.accessToken,
+          refreshAccessToken,
+          onUnauthorized: () => {
+            if (!sessionRef.current) return;
+            sessionRef.current = null;
+            setSession(null);
+            setSessionExpired(true);
+          },
+        },
+      })
+    );
+  }, [activeProfile.baseUrl, anonymousApi]);
+
+  const login = async (email: string, password: string): Promise<AuthUser> => {
+    const newSession = await anonymousApi.auth.login(email, password);
+    sessionRef.current = newSession;
+    setSession(newSession);
+    setSessionExpired(false);
+    return newSession.user;
+  };
+
+  const logout = async (): Promise<void> => {
+    const current = sessionRef.current;
+    sessionRef.current = null;
+    setSession(null);
+    setSessionExpired(false);
+    if (current) {
+      // Revoking the refresh token is best effort, the local session is gone
+      // either way.
+      try {
+        await anonymousApi.auth.logout(current.refreshToken);
+      } catch (e) {
+        console.warn("Failed to revoke session:", e);
+      }
+    }
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: session?.user || null,
+        isAuthenticated: !!session,
+        sessionExpired,
+        api,
+        login,
+        logout,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
@@ -0,0 +1,123 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { BackendProfile } from "../types";
+import {
+  DEFAULT_BACKEND_PROFILE,
+  INITIAL_BACKEND_PROFILES,
+} from "../constants";
+import { createApiClient } from "../services/apiClient";
+import { createReleaseHubApi, ReleaseHubApi } from "../services/releaseHubApi";
+
+interface BackendContextType {
+  profiles: BackendProfile[]; // Default profile first
+  activeProfile: BackendProfile;
+  api: ReleaseHubApi; // Bound to the active profile
+  selectProfile: (profileId: string) => void;
+  saveProfile: (
+    profile: Omit<BackendProfile, "id"> & { id?: string }
+  ) => BackendProfile;
+  deleteProfile: (profileId: string) => void;
+}
+
+const PROFILES_STORAGE_KEY = "releaseHub.backendProfiles";
+const ACTIVE_PROFILE_STORAGE_KEY = "releaseHub.activeBackendProfileId";
+
+const loadCustomProfiles = (): BackendProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : INITIAL_BACKEND_PROFILES;
+  } catch {
+    return INITIAL_BACKEND_PROFILES;
+  }
+};
+
+const BackendContext = createContext<BackendContextType | undefined>(undefined);
+
+export const BackendProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [customProfiles, setCustomProfiles] =
+    useState<BackendProfile[]>(loadCustomProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string>(
+    () =>
+      localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) ||
+      DEFAULT_BACKEND_PROFILE.id
+  );
+
+  const profiles = useMemo(
+    () => [DEFAULT_BACKEND_PROFILE, ...customProfiles],
+    [customProfiles]
+  );
+  // Falls back to the default if the stored profile was deleted.
+  const activeProfile =
+    profiles.find((p) => p.id === activeProfileId) || DEFAULT_BACKEND_PROFILE;
+
+  const api = useMemo(
+    () =>
+      createReleaseHubApi(createApiClient({ baseUrl: activeProfile.baseUrl })),
+    [activeProfile.baseUrl]
+  );
+
+  useEffect(() => {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(customProfiles));
+  }, [customProfiles]);
+
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, activeProfile.id);
+  }, [activeProfile.id]);
+
+  const selectProfile = (profileId: string) => {
+    setActiveProfileId(profileId);
+  };
+
+  const saveProfile = (
+    profile: Omit<BackendProfile, "id"> & { id?: string }
+  ): BackendProfile => {
+    const saved: BackendProfile = {
+      id: profile.id || crypto.randomUUID(),
+      name: profile.name.trim(),
+      baseUrl: profile.baseUrl.trim().replace(/\/+$/, ""),
+    };
+    if (saved.id === DEFAULT_BACKEND_PROFILE.id) {
+      throw new Error("The default backend profile cannot be changed.");
+    }
+    setCustomProfiles((prev) =>
+      prev.some((p) => p.id === saved.id)
+        ? prev.map((p) => (p.id === saved.id ? saved : p))
+        : [...prev, saved]
+    );
+    return saved;
+  };
+
+  const deleteProfile = (profileId: string) => {
+    setCustomProfiles((prev) => prev.filter((p) => p.id !== profileId));
+  };
+
+  return (
+    <BackendContext.Provider
+      value={{
+        profiles,
+        activeProfile,
+        api,
+        selectProfile,
+        saveProfile,
+        deleteProfile,
+      }}
+    >
+      {children}
+    </BackendContext.Provider>
+  );
+};
+
+export const useBackend = (): BackendContextType => {
+  const context = useContext(BackendContext);
+  if (context === undefined) {
+    throw new Error("useBackend must be used within a BackendProvider");
+  }
+  return context;
+};
@@ -0,0 +1,58 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { LlmSettings } from "../types";
+import { DEFAULT_LLM_SETTINGS } from "../constants";
+
+interface LlmSettingsContextType {
+  settings: LlmSettings;
+  saveSettings: (settings: LlmSettings) => void;
+}
+
+const LLM_SETTINGS_STORAGE_KEY = "releaseHub.llmSettings";
+
+const loadSettings = (): LlmSettings => {
+  try {
+    const stored = localStorage.getItem(LLM_SETTINGS_STORAGE_KEY);
+    return stored
+      ? { ...DEFAULT_LLM_SETTINGS, ...JSON.parse(stored) }
+      : DEFAULT_LLM_SETTINGS;
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+const LlmSettingsContext = createContext<LlmSettingsContextType | undefined>(
+  undefined
+);
+
+// Provider and model used to generate release notes, kept in this browser.
+export const LlmSettingsProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [settings, setSettings] = useState<LlmSettings>(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(LLM_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const saveSettings = (updated: LlmSettings) =>
+    setSettings({
+      ...updated,
+      model: updated.model.trim(),
+      baseUrl: updated.baseUrl.trim().replace(/\/+$/, ""),
+      apiKey: updated.apiKey.trim(),
+    });
+
+  return (
+    <LlmSettingsContext.Provider value={{ settings, saveSettings }}>
+      {children}
+    </LlmSettingsContext.Provider>
+  );
+};
+
+export const useLlmSettings = (): LlmSettingsContextType => {
+  const context = useContext(LlmSettingsContext);
+  if (context === undefined) {
+    throw new Error("useLlmSettings must be used within a LlmSettingsProvider");
+  }
+  return context;
+};
@@ -4,9 +4,41 @@ import React, {
   useContext,
   useEffect,
   useCallback,
+  useRef,
 } from "react";
-import { Project, Platform, AppVersion, DeploymentEnvironment } from "../types";
-import { API_BASE_URL } from "../constants";
+import {
+  Project,
+  Platform,
+  AppVersion,
+  DeploymentEnvironment,
+  BundleUpdate,
+  BundlePlatform,
+  ProjectIdentifiers,
+  ProjectMember,
+  ProjectRole,
+  RolloutStatus,
+} from "../types";
+import { isAbortError, UploadRequestOptions } from "../services/apiClient";
+import { VersionPromotionRequest } from "../services/releaseHubApi";
+import {
+  forgetChunkedUpload,
+  uploadFileInChunks,
+} from "../services/chunkedUpload";
+import {
+  CHUNKED_UPLOAD_THRESHOLD_BYTES,
+  DEFAULT_RELEASE_NOTES_LOCALE,
+} from "../constants";
+import { useAuth } from "./AuthContext";
+import { UploadRunOptions } from "./UploadsContext";
+import { computeSha256, hasIntegrityMismatch } from "../utils/integrity";
+import {
+  applyEnvironmentExclusivity,
+  getEnvironmentChange,
+  restoreEnvironments,
+  withEnvironmentHistory,
+} from "../utils/environments";
+import { buildManifestPlist } from "../utils/manifestPlist";
+import { VersionDetailsUpdate } from "../utils/versionEdits";
 
 interface ProjectsContextType {
   projects: Project[];
@@ -23,9 +55,24 @@ interface ProjectsContextType {
     projectId: string,
     name: string,
     description: string | undefined,
-    platforms: Platform[]
+    platforms: Platform[],
+    identifiers?: ProjectIdentifiers
   ) => Promise<Project | null>;
   getProjectById: (projectId: string) => Project | undefined; // Can remain local if projects are all fetched
+  addProjectMember: (
+    projectId: string,
+    email: string,
+    role: ProjectRole
+  ) => Promise<ProjectMember[] | null>;
+  updateProjectMemberRole: (
+    projectId: string,
+    userId: string,
+    role: ProjectRole
+  ) => Promise<ProjectMember[] | null>;
+  removeProjectMember: (
+    projectId: string,
+    userId: string
+  ) => Promise<ProjectMember[] | null>;
   addAppVersion: (
     projectId: string,
     versionData: Omit<
@@ -36,9 +83,17 @@ interface ProjectsContextType {
       | "qrCodeValue"
       | "fileSize"
       | "filePath"
+      | "fileHash"
+      | "clientFileHash"
       | "activeEnvironments"
     >,
-    file: File
+    file: File,
+    options?: UploadRunOptions
+  ) => Promise<AppVersion>; // Rejects on failure, see addAppVersion
+  updateAppVersion: (
+    projectId: string,
+    versionId: string,
+    update: VersionDetailsUpdate
   ) => Promise<AppVersion | null>;
   deleteAppVersion: (projectId: string, versionId: string) => Promise<boolean>;
   updateVersionEnvironments: (
@@ -46,8 +101,61 @@ interface ProjectsContextType {
     versionId: string,
     activeEnvironments: DeploymentEnvironment[]
   ) => Promise<AppVersion | null>;
+  updateVersionRollout: (
+    projectId: string,
+    versionId: string,
+    environment: DeploymentEnvironment,
+    percentage: number,
+    status: RolloutStatus
+  ) => Promise<AppVersion | null>;
+  promoteVersion: (
+    projectId: string,
+    versionId: string,
+    promotion: VersionPromotionRequest
+  ) => Promise<AppVersion | null>;
+  rollbackEnvironment: (
+    projectId: string,
+    platform: Platform,
+    environment: DeploymentEnvironment
+  ) => Promise<AppVersion | null>;
+  publishVersionManifest: (
+    projectId: string,
+    versionId: string
+  ) => Promise<AppVersion | null>;
+  addBundleUpdate: (
+    projectId: string,
+    bundleData: Omit<
+      BundleUpdate,
+      | "_id"
+      | "bundleUrl"
+      | "bundleHash"
+      | "clientBundleHash"
+      | "fileSize"
+      | "filePath"
+      | "createdAt"
+      | "publishedAt"
+    >,
+    file: File,
+    options?: UploadRunOptions
+  ) => Promise<BundleUpdate>; // Rejects on failure, see addAppVersion
+  deleteBundleUpdate: (projectId: string, bundleId: string) => Promise<boolean>;
+  republishBundleUpdate: (
+    projectId: string,
+    bundleId: string
+  ) => Promise<BundleUpdate | null>;
+  rollbackBundleUpdate: (
+    projectId: string,
+    platform: BundlePlatform
+  ) => Promise<BundleUpdate | null>;
 }
 
+const sortBundleUpdates = (bundles: BundleUpdate[]): BundleUpdate[] =>
+  [...bundles].sort(
+    (a, b) =>
+      new Date(b.publishedAt || b.createdAt).getTime() -
+      new Date(a.publishedAt || a.createdAt).getTime()
+  );
+
 const ProjectsContext = createContext<ProjectsContextType | undefined>(
   undefined
 );
@@ -58,109 +166,140 @@ export const ProjectsProvider: React.FC<{ children: React.ReactNode }> = ({
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const { api, user } = useAuth();
+  const userId = user?._id;
 
-  const handleApiResponse = async (response: Response) => {
-    const data = await response.json();
-    if (!response.ok) {
-      throw new Error(data.message || `HTTP error! status: ${response.status}`);
+  // Cancels the in-flight projects request when a newer one starts or the
+  // provider unmounts.
+  const fetchProjectsController = useRef<AbortController | null>(null);
+
+  // Runs an API call with the shared loading/error bookkeeping. Resolves to
+  // null on failure, with the message exposed through `error`.
+  const runAction = async <T,>(
+    failureMessage: string,
+    action: () => Promise<T>
+  ): Promise<T | null> => {
+    setLoading(true);
+    setError(null);
+    try {
+      return await action();
+    } catch (e: any) {
+      console.error(`${failureMessage}:`, e);
+      setError(e.message || `${failureMessage}.`);
+      return null;
+    } finally {
+      setLoading(false);
     }
-    return data;
   };
 
+  const findVersion = (projectId: string, versionId: string) =>
+    projects
+      .find((p) => p._id === projectId)
+      ?.versions.find((v) => v._id === versionId);
+
   const fetchProjects = useCallback(async () => {
+    fetchProjectsController.current?.abort();
+    const controller = new AbortController();
+    fetchProjectsController.current = controller;
+
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(`${API_BASE_URL}/projects`);
-      console.log("Fetching projects from API:", response);
-      const apiResponse = await handleApiResponse(response);
-      setProjects(apiResponse.data || []);
+      const fetchedProjects = await api.projects.list({
+        signal: controller.signal,
+      });
+      setProjects(fetchedProjects || []);
     } catch (e: any) {
+      if (isAbortError(e)) return;
       console.error("Failed to fetch projects:", e);
       setError(e.message || "Failed to fetch projects.");
       setProjects([]); // Clear projects on error
     } finally {
-      setLoading(false);
+      if (fetchProjectsController.current === controller) {
+        fetchProjectsController.current = null;
+        setLoading(false);
+      }
     }
-  }, []);
+  }, [api]);
 
+  // Refetches whenever the backend profile or the signed-in user changes.
+  // Previous projects are cleared so they never mix with the new ones.
   useEffect(() => {
+    setProjects([]);
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
     fetchProjects();
-  }, [fetchProjects]);
+    return () => fetchProjectsController.current?.abort();
+  }, [fetchProjects, userId]);
+
+  const updateProjectVersions = (
+    projectId: string,
+    update: (versions: AppVersion[]) => AppVersion[]
+  ) =>
+    setProjects((prevProjects) =>
+      prevProjects.map((p) =>
+        p._id === projectId ? { ...p, versions: update(p.versions || []) } : p
+      )
+    );
+
+  const updateProjectBundles = (
+    projectId: string,
+    update: (bundles: BundleUpdate[]) => BundleUpdate[]
+  ) =>
+    setProjects((prevProjects) =>
+      prevProjects.map((p) =>
+        p._id === projectId
+          ? {
+              ...p,
+              bundleUpdates: sortBundleUpdates(update(p.bundleUpdates || [])),
+            }
+          : p
+      )
+    );
 
-  const addProject = async (
+  const addProject = (
     name: string,
     description: string | undefined,
     platforms: Platform[]
-  ): Promise<Project | null> => {
-    setLoading(true);
-    setError(null);
-    try {
-      const response = await fetch(`${API_BASE_URL}/projects`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, description, platforms }),
+  ): Promise<Project | null> =>
+    runAction("Failed to add project", async () => {
+      const newProject = await api.projects.create({
+        name,
+        description,
+        platforms,
       });
-      const apiResponse = await handleApiResponse(response);
-      const newProject = apiResponse.data;
       setProjects((prev) => [...prev, newProject]);
-      setLoading(false);
       return newProject;
-    } catch (e: any) {
-      console.error("Failed to add project:", e);
-      setError(e.message || "Failed to add project.");
-      setLoading(false);
-      return null;
-    }
-  };
+    });
 
-  const deleteProject = async (projectId: string): Promise<boolean> => {
-    setLoading(true);
-    setError(null);
-    try {
-      const response = await fetch(`${API_BASE_URL}/projects/${projectId}`, {
-        method: "DELETE",
-      });
-      await handleApiResponse(response);
+  const deleteProject = async (projectId: string): Promise<boolean> =>
+    (await runAction("Failed to delete project", async () => {
+      await api.projects.delete(projectId);
       setProjects((prev) => prev.filter((p) => p._id !== projectId));
-      setLoading(false);
       return true;
-    } catch (e: any) {
-      console.error("Failed to delete project:", e);
-      setError(e.message || "Failed to delete project.");
-      setLoading(false);
-      return false;
-    }
-  };
+    })) ?? false;
 
-  const updateProjectDetails = async (
+  const updateProjectDetails = (
     projectId: string,
     name: string,
     description: string | undefined,
-    platforms: Platform[]
-  ): Promise<Project | null> => {
-    setLoading(true);
-    setError(null);
-    try {
-      const response = await fetch(`${API_BASE_URL}/projects/${projectId}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, description, platforms }),
+    platforms: Platform[],
+    identifiers?: ProjectIdentifiers
+  ): Promise<Project | null> =>
+    runAction("Failed to update project", async () => {
+      const updatedProject = await api.projects.update(projectId, {
+        name,
+        description,
+        platforms,
+        ...identifiers,
       });
-      const apiResponse = await handleApiResponse(response);
-      const updatedProject = apiResponse.data;
       setProjects((prev) =>
         prev.map((p) => (p._id === projectId ? updatedProject : p))
       );
-      setLoading(false);
       return updatedProject;
-    } catch (e: any) {
-      console.error("Failed to update project:", e);
-      setError(e.message || "Failed to update project.");
-      setLoading(false);
-      return null;
-    }
-  };
+    });
 
   const getProjectById = useCallback(
     (projectId: string): Project | undefined => {
@@ -169,6 +308,101 @@ export const ProjectsProvider: React.FC<{ children: React.ReactNode }> = ({
     [projects]
   );
 
+  // Keeps the backend-provided role in step when the user's own membership
+  // changes.
+  const setProjectMembers = (projectId: string, members: ProjectMember[]) =>
+    setProjects((prev) =>
+      prev.map((p) =>
+        p._id === projectId
+          ? {
+              ...p,
+              members,
+              currentUserRole:
+                members.find((m) => m.userId === userId)?.role ??
+                p.currentUserRole,
+            }
+          : p
+      )
+    );
+
+  const addProjectMember = (
+    projectId: string,
+    email: string,
+    role: ProjectRole
+  ): Promise<ProjectMember[] | null> =>
+    runAction("Failed to add project member", async () => {
+      const members = await api.members.add(projectId, email, role);
+      setProjectMembers(projectId, members);
+      return members;
+    });
+
+  const updateProjectMemberRole = (
+    projectId: string,
+    userId: string,
+    role: ProjectRole
+  ): Promise<ProjectMember[] | null> =>
+    runAction("Failed to update member role", async () => {
+      const members = await api.members.updateRole(projectId, userId, role);
+      setProjectMembers(projectId, members);
+      return members;
+    });
+
+  const removeProjectMember = (
+    projectId: string,
+    userId: string
+  ): Promise<ProjectMember[] | null> =>
+    runAction("Failed to remove project member", async () => {
+      const members = await api.members.remove(projectId, userId);
+      setProjectMembers(projectId, members);
+      return members;
+    });
+
+  // Builds the OTA manifest.plist for an iOS version and stores it next to the
+  // IPA. Throws on failure so callers decide how loudly to report it.
+  const uploadVersionManifest = async (
+    projectId: string,
+    version: AppVersion
+  ): Promise<AppVersion> => {
+    const project = projects.find((p) => p._id === projectId);
+    const bundleIdentifier =
+      version.packageIdentifier || project?.bundleIdentifier;
+    if (!bundleIdentifier) {
+      throw new Error(
+        "The bundle identifier of this build is unknown. Set it on the project first."
+      );
+    }
+    const manifest = buildManifestPlist({
+      ipaUrl: version.downloadUrl,
+      bundleIdentifier,
+      bundleVersion: version.versionName,
+      title: project?.name || version.fileName,
+    });
+    const updatedVersion = await api.versions.putManifest(
+      projectId,
+      version._id,
+      manifest
+    );
+    return { ...version, ...updatedVersion };
+  };
+
+  // Small files go up in a single request; larger ones through a resumable
+  // chunked session that `create` turns into the version or bundle.
+  const uploadProjectFile = async <T,>(
+    projectId: string,
+    file: File,
+    options: UploadRequestOptions,
+    upload: () => Promise<T>,
+    create: (uploadId: string) => Promise<T>
+  ): Promise<T> => {
+    if (file.size <= CHUNKED_UPLOAD_THRESHOLD_BYTES) return upload();
+    const uploadId = await uploadFileInChunks(api, projectId, file, options);
+    const created = await create(uploadId);
+    forgetChunkedUpload(projectId, file);
+    return created;
+  };
+
+  // Uploads run in the background through the upload queue, so unlike the
+  // other actions they leave `loading` and `error` alone and reject instead.
   const addAppVersion = async (
     projectId: string,
     versionData: Omit<
@@ -179,130 +413,355 @@ export const ProjectsProvider: React.FC<{ children: React.ReactNode }> = ({
       | "qrCodeValue"
       | "fileSize"
       | "filePath"
+      | "fileHash"
+      | "clientFileHash"
       | "activeEnvironments"
     >,
-    file: File
-  ): Promise<AppVersion | null> => {
-    setLoading(true);
-    setError(null);
-    const formData = new FormData();
-    formData.append("appFile", file);
-    formData.append("platform", versionData.platform);
-    formData.append("versionName", versionData.versionName);
-    formData.append("buildNumber", versionData.buildNumber);
-    if (versionData.releaseNotes) {
-      formData.append("releaseNotes", versionData.releaseNotes);
+    file: File,
+    { onHashProgress, ...options }: UploadRunOptions = {}
+  ): Promise<AppVersion> => {
+    const clientFileHash = await computeSha256(file, {
+      signal: options.signal,
+      onProgress: onHashProgress,
+    });
+    const fields = {
+      platform: versionData.platform,
+      versionName: versionData.versionName,
+      buildNumber: versionData.buildNumber,
+      clientFileHash,
+      packageIdentifier: versionData.packageIdentifier,
+      binaryVersionName: versionData.binaryVersionName,
+      binaryBuildNumber: versionData.binaryBuildNumber,
+      releaseNotes: versionData.releaseNotes,
+      releaseNotesLocale: versionData.releaseNotesLocale,
+      releaseNotesOrigin: versionData.releaseNotesOrigin,
+      localizedReleaseNotes: versionData.localizedReleaseNotes,
+    };
+    const uploadedVersion = await uploadProjectFile(
+      projectId,
+      file,
+      options,
+      () => api.versions.upload(projectId, { ...fields, file }, options),
+      (uploadId) =>
+        api.versions.createFromUpload(projectId, { ...fields, uploadId })
+    );
+    let newVersion: AppVersion = {
+      ...uploadedVersion,
+      clientFileHash: uploadedVersion.clientFileHash || clientFileHash,
+    };
+    if (hasIntegrityMismatch(newVersion.fileHash, newVersion.clientFileHash)) {
+      console.warn(
+        `Integrity check failed for ${newVersion.fileName}: uploaded ${newVersion.clientFileHash}, stored ${newVersion.fileHash}`
+      );
     }
+    // The upload itself succeeded, a missing manifest can be generated later.
+    if (newVersion.platform === Platform.iOS && !newVersion.manifestUrl) {
+      try {
+        newVersion = await uploadVersionManifest(projectId, newVersion);
+      } catch (manifestError) {
+        console.warn(
+          `Failed to publish manifest.plist for ${newVersion.fileName}:`,
+          manifestError
+        );
+      }
+    }
+    updateProjectVersions(projectId, (versions) =>
+      [newVersion, ...versions].sort(
+        (a, b) =>
+          new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime()
+      )
+    );
+    return newVersion;
+  };
 
-    try {
-      const response = await fetch(
-        `${API_BASE_URL}/projects/${projectId}/versions`,
-        {
-          method: "POST",
-          body: formData, // No 'Content-Type' header needed, browser sets it for FormData
-        }
+  // Only the details change; the stored file and its hashes are immutable.
+  // The backend keeps the edit in the version's editHistory.
+  const updateAppVersion = (
+    projectId: string,
+    versionId: string,
+    update: VersionDetailsUpdate
+  ): Promise<AppVersion | null> =>
+    runAction("Failed to update version", async () => {
+      const version = findVersion(projectId, versionId);
+      if (!version) throw new Error("Version not found.");
+      const localizedReleaseNotes = Object.fromEntries(
+        Object.entries(update.localizedReleaseNotes)
+          .map(([locale, notes]) => [locale, notes.trimEnd()])
+          .filter(([, notes]) => notes)
       );
-      const apiResponse = await handleApiResponse(response);
-      const newVersion = apiResponse.data;
-      setProjects((prevProjects) =>
-        prevProjects.map((p) => {
-          if (p._id === projectId) {
-            return {
-              ...p,
-              versions: [newVersion, ...(p.versions || [])].sort(
-                (a, b) =>
-                  new Date(b.uploadDate).getTime() -
-                  new Date(a.uploadDate).getTime()
-              ),
-            };
-          }
-          return p;
-        })
+      const updatedVersion = await api.versions.update(projectId, versionId, {
+        versionName: update.versionName.trim(),
+        buildNumber: update.buildNumber.trim(),
+        releaseNotes:
+          localizedReleaseNotes[
+            version.releaseNotesLocale || DEFAULT_RELEASE_NOTES_LOCALE
+          ] || "",
+        localizedReleaseNotes,
+      });
+      updateProjectVersions(projectId, (versions) =>
+        versions.map((v) => (v._id === versionId ? updatedVersion : v))
       );
-      setLoading(false);
-      return newVersion;
-    } catch (e: any) {
-      console.error("Failed to add app version:", e);
-      setError(e.message || "Failed to add app version.");
-      setLoading(false);
-      return null;
-    }
-  };
+      return updatedVersion;
+    });
 
   const deleteAppVersion = async (
     projectId: string,
     versionId: string
-  ): Promise<boolean> => {
-    setLoading(true);
-    setError(null);
-    try {
-      const response = await fetch(
-        `${API_BASE_URL}/projects/${projectId}/versions/${versionId}`,
-        { method: "DELETE" }
+  ): Promise<boolean> =>
+    (await runAction("Failed to delete app version", async () => {
+      await api.versions.delete(projectId, versionId);
+      updateProjectVersions(projectId, (versions) =>
+        versions.filter((v) => v._id !== versionId)
       );
-      await handleApiResponse(response);
-      setProjects((prevProjects) =>
-        prevProjects.map((p) => {
-          if (p._id === projectId) {
-            return {
-              ...p,
-              versions: p.versions.filter((v) => v._id !== versionId),
-            };
-          }
-          return p;
-        })
-      );
-      setLoading(false);
       return true;
-    } catch (e: any) {
-      console.error("Failed to delete app version:", e);
-      setError(e.message || "Failed to delete app version.");
-      setLoading(false);
-      return false;
-    }
-  };
+    })) ?? false;
 
-  const updateVersionEnvironments = async (
+  // Applies the exclusivity rule optimistically, then reconciles with the
+  // server's copy of the version or reverts the optimistic change on failure.
+  const updateVersionEnvironments = (
     projectId: string,
     versionId: string,
     activeEnvironments: DeploymentEnvironment[]
   ): Promise<AppVersion | null> => {
-    setLoading(true);
-    setError(null);
-    try {
-      const response = await fetch(
-        `${API_BASE_URL}/projects/${projectId}/versions/${versionId}/environments`,
-        {
-          method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ activeEnvironments }),
-        }
+    const versions = projects.find((p) => p._id === projectId)?.versions || [];
+    const targetVersion = versions.find((v) => v._id === versionId);
+    const activatedEnvironments = activeEnvironments.filter(
+      (e) => !targetVersion?.activeEnvironments.includes(e)
+    );
+
+    // The optimistic update is undone by reverting exactly what it changed,
+    // not by restoring a copy of the versions taken before it.
+    const at = new Date().toISOString();
+    const optimisticChange = targetVersion
+      ? getEnvironmentChange(
+          versions,
+          applyEnvironmentExclusivity(
+            versions,
+            withEnvironmentHistory(targetVersion, activeEnvironments, at),
+            activatedEnvironments,
+            at
+          ),
+          at
+        )
+      : { at, added: {}, removed: {} };
+    updateProjectVersions(projectId, (current) => {
+      const target = current.find((v) => v._id === versionId);
+      return target
+        ? applyEnvironmentExclusivity(
+            current,
+            withEnvironmentHistory(target, activeEnvironments, at),
+            activatedEnvironments,
+            at
+          )
+        : current;
+    });
+    return runAction("Failed to update version environments", async () => {
+      try {
+        const updatedVersion = await api.versions.updateEnvironments(
+          projectId,
+          versionId,
+          activeEnvironments
+        );
+        updateProjectVersions(projectId, (versions) =>
+          applyEnvironmentExclusivity(
+            restoreEnvironments(versions, optimisticChange),
+            updatedVersion,
+            activatedEnvironments.filter((e) =>
+              updatedVersion.activeEnvironments.includes(e)
+            )
+          )
+        );
+        return updatedVersion;
+      } catch (e) {
+        updateProjectVersions(projectId, (versions) =>
+          restoreEnvironments(versions, optimisticChange)
+        );
+        throw e;
+      }
+    });
+  };
+
+  const updateVersionRollout = (
+    projectId: string,
+    versionId: string,
+    environment: DeploymentEnvironment,
+    percentage: number,
+    status: RolloutStatus
+  ): Promise<AppVersion | null> =>
+    runAction("Failed to update version rollout", async () => {
+      const updatedVersion = await api.versions.updateRollout(
+        projectId,
+        versionId,
+        { environment, percentage, status }
       );
-      const apiResponse = await handleApiResponse(response);
-      const updatedVersion = apiResponse.data;
-      setProjects((prevProjects) =>
-        prevProjects.map((p) => {
-          if (p._id === projectId) {
-            return {
-              ...p,
-              versions: p.versions.map((v) =>
-                v._id === versionId ? updatedVersion : v
-              ),
-            };
-          }
-          return p;
-        })
+      // A completed rollout takes over the environment from the version that
+      // was serving the remaining users.
+      updateProjectVersions(projectId, (versions) =>
+        applyEnvironmentExclusivity(
+          versions,
+          updatedVersion,
+          status === "completed" ? [environment] : []
+        )
       );
-      setLoading(false);
       return updatedVersion;
-    } catch (e: any) {
-      console.error("Failed to update version environments:", e);
-      setError(e.message || "Failed to update version environments.");
-      setLoading(false);
-      return null;
+    });
+
+  const promoteVersion = (
+    projectId: string,
+    versionId: string,
+    promotion: VersionPromotionRequest
+  ): Promise<AppVersion | null> =>
+    runAction("Failed to promote version", async () => {
+      const promotedVersion = await api.versions.promote(
+        projectId,
+        versionId,
+        promotion
+      );
+      updateProjectVersions(projectId, (versions) =>
+        applyEnvironmentExclusivity(versions, promotedVersion, [
+          promotion.toEnvironment,
+        ])
+      );
+      return promotedVersion;
+    });
+
+  // The backend reactivates the version that most recently served the
+  // environment before the current one and deactivates the current version.
+  const rollbackEnvironment = (
+    projectId: string,
+    platform: Platform,
+    environment: DeploymentEnvironment
+  ): Promise<AppVersion | null> =>
+    runAction("Failed to roll back environment", async () => {
+      const { restored, rolledBack } = await api.versions.rollbackEnvironment(
+        projectId,
+        platform,
+        environment
+      );
+      updateProjectVersions(projectId, (versions) =>
+        applyEnvironmentExclusivity(versions, restored, [environment]).map(
+          (v) => (v._id === rolledBack?._id ? rolledBack : v)
+        )
+      );
+      return restored;
+    });
+
+  const publishVersionManifest = (
+    projectId: string,
+    versionId: string
+  ): Promise<AppVersion | null> =>
+    runAction("Failed to publish version manifest", async () => {
+      const version = projects
+        .find((p) => p._id === projectId)
+        ?.versions.find((v) => v._id === versionId);
+      if (!version) {
+        throw new Error("Version not found.");
+      }
+      const updatedVersion = await uploadVersionManifest(projectId, version);
+      updateProjectVersions(projectId, (versions) =>
+        versions.map((v) => (v._id === versionId ? updatedVersion : v))
+      );
+      return updatedVersion;
+    });
+
+  const addBundleUpdate = async (
+    projectId: string,
+    bundleData: Omit<
+      BundleUpdate,
+      | "_id"
+      | "bundleUrl"
+      | "bundleHash"
+      | "clientBundleHash"
+      | "fileSize"
+      | "filePath"
+      | "createdAt"
+      | "publishedAt"
+    >,
+    file: File,
+    { onHashProgress, ...options }: UploadRunOptions = {}
+  ): Promise<BundleUpdate> => {
+    const clientBundleHash = await computeSha256(file, {
+      signal: options.signal,
+      onProgress: onHashProgress,
+    });
+    const fields = {
+      platform: bundleData.platform,
+      bundleVersion: bundleData.bundleVersion,
+      isMandatory: !!bundleData.isMandatory,
+      clientBundleHash,
+      description: bundleData.description,
+    };
+    const uploadedBundle = await uploadProjectFile(
+      projectId,
+      file,
+      options,
+      () => api.bundles.upload(projectId, { ...fields, file }, options),
+      (uploadId) =>
+        api.bundles.createFromUpload(projectId, { ...fields, uploadId })
+    );
+    const newBundle: BundleUpdate = {
+      ...uploadedBundle,
+      clientBundleHash: uploadedBundle.clientBundleHash || clientBundleHash,
+    };
+    if (
+      hasIntegrityMismatch(newBundle.bundleHash, newBundle.clientBundleHash)
+    ) {
+      console.warn(
+        `Integrity check failed for ${newBundle.fileName}: uploaded ${newBundle.clientBundleHash}, stored ${newBundle.bundleHash}`
+      );
     }
+    updateProjectBundles(projectId, (bundles) => [newBundle, ...bundles]);
+    return newBundle;
   };
 
+  const deleteBundleUpdate = async (
+    projectId: string,
+    bundleId: string
+  ): Promise<boolean> =>
+    (await runAction("Failed to delete bundle update", async () => {
+      await api.bundles.delete(projectId, bundleId);
+      updateProjectBundles(projectId, (bundles) =>
+        bundles.filter((b) => b._id !== bundleId)
+      );
+      return true;
+    })) ?? false;
+
+  const republishBundleUpdate = (
+    projectId: string,
+    bundleId: string
+  ): Promise<BundleUpdate | null> =>
+    runAction("Failed to republish bundle update", async () => {
+      const republishedBundle = await api.bundles.republish(
+        projectId,
+        bundleId
+      );
+      updateProjectBundles(projectId, (bundles) =>
+        bundles.map((b) => (b._id === bundleId ? republishedBundle : b))
+      );
+      return republishedBundle;
+    });
+
+  const rollbackBundleUpdate = (
+    projectId: string,
+    platform: BundlePlatform
+  ): Promise<BundleUpdate | null> =>
+    runAction("Failed to roll back bundle update", async () => {
+      const { restored, rolledBack } = await api.bundles.rollback(
+        projectId,
+        platform
+      );
+      updateProjectBundles(projectId, (bundles) =>
+        bundles.map((b) =>
+          b._id === restored._id
+            ? restored
+            : b._id === rolledBack?._id
+            ? rolledBack
+            : b
+        )
+      );
+      return restored;
+    });
+
   return (
     <ProjectsContext.Provider
       value={{
@@ -314,9 +773,21 @@ export const ProjectsProvider: React.FC<{ children: React.ReactNode }> = ({
         deleteProject,
         updateProjectDetails,
         getProjectById,
+        addProjectMember,
+        updateProjectMemberRole,
+        removeProjectMember,
         addAppVersion,
+        updateAppVersion,
         deleteAppVersion,
         updateVersionEnvironments,
+        updateVersionRollout,
+        promoteVersion,
+        rollbackEnvironment,
+        publishVersionManifest,
+        addBundleUpdate,
+        deleteBundleUpdate,
+        republishBundleUpdate,
+        rollbackBundleUpdate,
       }}
     >
       {children}
@@ -0,0 +1,168 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { UploadTask } from "../types";
+import {
+  isAbortError,
+  UploadProgressHandler,
+  UploadRequestOptions,
+} from "../services/apiClient";
+
+export interface UploadRunOptions extends UploadRequestOptions {
+  onHashProgress?: UploadProgressHandler; // Bytes of the file hashed so far
+}
+
+// Performs the upload, reporting progress and honouring the abort signal.
+// Called again with fresh options when the upload is retried.
+export type UploadRunner = (options: UploadRunOptions) => Promise<unknown>;
+
+interface UploadsContextType {
+  uploads: UploadTask[]; // Newest first
+  startUpload: (
+    details: Pick<UploadTask, "projectId" | "label"> & { file: File },
+    run: UploadRunner
+  ) => string;
+  cancelUpload: (uploadId: string) => void;
+  retryUpload: (uploadId: string) => void;
+  dismissUpload: (uploadId: string) => void;
+}
+
+export const isUploadActive = (upload: UploadTask): boolean =>
+  upload.status === "hashing" ||
+  upload.status === "uploading" ||
+  upload.status === "processing";
+
+const UploadsContext = createContext<UploadsContextType | undefined>(undefined);
+
+export const UploadsProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [uploads, setUploads] = useState<UploadTask[]>([]);
+  // Runners are kept until the upload completes so failures can be retried.
+  const runners = useRef(new Map<string, UploadRunner>());
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const hasActiveUploads = uploads.some(isUploadActive);
+
+  // Leaving the page would abort uploads still in flight.
+  useEffect(() => {
+    if (!hasActiveUploads) return;
+    const onBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [hasActiveUploads]);
+
+  const updateUpload = (
+    uploadId: string,
+    update: (upload: UploadTask) => Partial<UploadTask>
+  ) =>
+    setUploads((prev) =>
+      prev.map((u) => (u.id === uploadId ? { ...u, ...update(u) } : u))
+    );
+
+  const runUpload = async (uploadId: string) => {
+    const run = runners.current.get(uploadId);
+    if (!run) return;
+    const controller = new AbortController();
+    controllers.current.set(uploadId, controller);
+    updateUpload(uploadId, () => ({
+      status: "hashing",
+      uploadedBytes: 0,
+      error: undefined,
+    }));
+    try {
+      await run({
+        signal: controller.signal,
+        onHashProgress: (hashed, total) =>
+          updateUpload(uploadId, () =>
+            hashed >= total
+              ? { status: "uploading", uploadedBytes: 0 }
+              : { status: "hashing", uploadedBytes: hashed }
+          ),
+        onProgress: (loaded, total) =>
+          updateUpload(uploadId, () => ({
+            uploadedBytes: loaded,
+            totalBytes: total,
+            status: loaded >= total ? "processing" : "uploading",
+          })),
+      });
+      runners.current.delete(uploadId);
+      updateUpload(uploadId, (u) => ({
+        status: "completed",
+        uploadedBytes: u.totalBytes,
+      }));
+    } catch (e: any) {
+      if (isAbortError(e)) {
+        updateUpload(uploadId, () => ({ status: "cancelled" }));
+      } else {
+        console.error("Failed to upload file:", e);
+        updateUpload(uploadId, () => ({
+          status: "failed",
+          error: e.message || "Failed to upload file.",
+        }));
+      }
+    } finally {
+      controllers.current.delete(uploadId);
+    }
+  };
+
+  const startUpload = (
+    details: Pick<UploadTask, "projectId" | "label"> & { file: File },
+    run: UploadRunner
+  ): string => {
+    const uploadId = crypto.randomUUID();
+    runners.current.set(uploadId, run);
+    setUploads((prev) => [
+      {
+        id: uploadId,
+        projectId: details.projectId,
+        label: details.label,
+        fileName: details.file.name,
+        totalBytes: details.file.size,
+        uploadedBytes: 0,
+        status: "hashing",
+      },
+      ...prev,
+    ]);
+    runUpload(uploadId);
+    return uploadId;
+  };
+
+  const cancelUpload = (uploadId: string) => {
+    controllers.current.get(uploadId)?.abort();
+  };
+
+  const retryUpload = (uploadId: string) => {
+    if (controllers.current.has(uploadId)) return;
+    runUpload(uploadId);
+  };
+
+  const dismissUpload = (uploadId: string) => {
+    controllers.current.get(uploadId)?.abort();
+    runners.current.delete(uploadId);
+    setUploads((prev) => prev.filter((u) => u.id !== uploadId));
+  };
+
+  return (
+    <UploadsContext.Provider
+      value={{ uploads, startUpload, cancelUpload, retryUpload, dismissUpload }}
+    >
+      {children}
+    </UploadsContext.Provider>
+  );
+};
+
+export const useUploads = (): UploadsContextType => {
+  const context = useContext(UploadsContext);
+  if (context === undefined) {
+    throw new Error("useUploads must be used within an UploadsProvider");
+  }
+  return context;
+};
@@ -0,0 +1,24 @@
+import { useAuth } from "../contexts/AuthContext";
+import { Project, ProjectRole } from "../types";
+import {
+  getProjectRole,
+  hasProjectPermission,
+  ProjectPermission,
+} from "../utils/permissions";
+
+/**
+ * Resolves the signed-in user's role in a project and what it allows.
+ */
+export const useProjectPermissions = (
+  project: Project | null
+): {
+  role: ProjectRole | undefined;
+  can: (p: ProjectPermission) => boolean;
+} => {
+  const { user } = useAuth();
+  const role = project ? getProjectRole(project, user) : undefined;
+  return {
+    role,
+    can: (permission) => hasProjectPermission(role, permission),
+  };
+};
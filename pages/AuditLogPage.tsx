@@ -0,0 +1,11 @@
+import React from "react";
+import { AuditLogTimeline } from "../components/audit/AuditLogTimeline";
+
+export const AuditLogPage: React.FC = () => {
+  return (
+    <div className="space-y-8">
+      <h1 className="text-3xl font-bold text-slate-100">Audit Log</h1>
+      <AuditLogTimeline />
+    </div>
+  );
+};
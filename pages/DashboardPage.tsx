@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
 import { useProjects } from "../contexts/ProjectsContext";
+import { useAuth } from "../contexts/AuthContext";
 import { Project, Platform } from "../types";
 import { Button } from "../components/common/Button";
 import { Modal } from "../components/common/Modal";
@@ -12,10 +13,13 @@ import {
   EyeIcon,
   InformationCircleIcon,
 } from "../components/common/Icons"; // Added InformationCircleIcon
+import { getProjectRole, hasProjectPermission } from "../utils/permissions";
+import { TopDownloadsCard } from "../components/dashboard/TopDownloadsCard";
 
 export const DashboardPage: React.FC = () => {
   const { projects, addProject, deleteProject, loading, error, fetchProjects } =
     useProjects();
+  const { user } = useAuth();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [newProjectName, setNewProjectName] = useState("");
   const [newProjectDescription, setNewProjectDescription] = useState("");
@@ -148,6 +152,8 @@ export const DashboardPage: React.FC = () => {
           </div>
         )}
 
+      {projects.length > 0 && <TopDownloadsCard />}
+
       {projects.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {projects.map((project: Project) => (
@@ -192,23 +198,28 @@ export const DashboardPage: React.FC = () => {
                     <span>View</span>
                   </Button>
                 </Link>
-                <Button
-                  variant="danger"
-                  size="sm"
-                  onClick={async () => {
-                    if (
-                      window.confirm(
-                        `Are you sure you want to delete project "${project.name}"?`
-                      )
-                    ) {
-                      await deleteProject(project._id);
-                    }
-                  }}
-                  className="flex items-center space-x-1.5"
-                >
-                  <TrashIcon className="h-4 w-4" />
-                  <span>Delete</span>
-                </Button>
+                {hasProjectPermission(
+                  getProjectRole(project, user),
+                  "manageProject"
+                ) && (
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={async () => {
+                      if (
+                        window.confirm(
+                          `Are you sure you want to delete project "${project.name}"?`
+                        )
+                      ) {
+                        await deleteProject(project._id);
+                      }
+                    }}
+                    className="flex items-center space-x-1.5"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                    <span>Delete</span>
+                  </Button>
+                )}
               </div>
             </div>
           ))}
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { QRCodeSVG } from "qrcode.react";
+import { Platform, VersionInstallInfo } from "../types";
+import { useBackend } from "../contexts/BackendContext";
+import { createApiClient, isAbortError } from "../services/apiClient";
+import { createReleaseHubApi } from "../services/releaseHubApi";
+import { getInstallLink, getInstallPageBackend } from "../utils/installLinks";
+import { ReleaseNotesView } from "../components/project/ReleaseNotesView";
+import {
+  CubeIcon,
+  ArrowDownTrayIcon,
+  XCircleIcon,
+  InformationCircleIcon,
+} from "../components/common/Icons";
+
+// Public, shareable page for installing a single version. Rendered outside the
+// Layout and loads only the version it shows.
+export const InstallPage: React.FC = () => {
+  const { projectId, versionId } = useParams<{
+    projectId: string;
+    versionId: string;
+  }>();
+  const [searchParams] = useSearchParams();
+  const backendBaseUrl = getInstallPageBackend(searchParams);
+  const { api: profileApi } = useBackend();
+  // Links name the backend they were made on; older ones fall back to the
+  // viewer's own profile.
+  const api = useMemo(
+    () =>
+      backendBaseUrl
+        ? createReleaseHubApi(createApiClient({ baseUrl: backendBaseUrl }))
+        : profileApi,
+    [backendBaseUrl, profileApi]
+  );
+  const [installInfo, setInstallInfo] = useState<VersionInstallInfo | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!projectId || !versionId) return;
+    const controller = new AbortController();
+    setInstallInfo(null);
+    setError(null);
+    api.versions
+      .getInstallInfo(projectId, versionId, { signal: controller.signal })
+      .then(setInstallInfo)
+      .catch((e: any) => {
+        if (isAbortError(e)) return;
+        console.error("Failed to load install page:", e);
+        setError(e.message || "This version could not be found.");
+      });
+    return () => controller.abort();
+  }, [api, projectId, versionId]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-900 p-6">
+        <div className="flex flex-col items-center p-8 text-center bg-slate-800 rounded-lg shadow-xl max-w-md w-full">
+          <XCircleIcon className="h-16 w-16 text-red-500 mb-4" />
+          <h1 className="text-2xl font-semibold text-red-400 mb-2">
+            Version Unavailable
+          </h1>
+          <p className="text-slate-300">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!installInfo) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-900">
+        <div role="status">
+          <svg
+            aria-hidden="true"
+            className="w-12 h-12 text-slate-500 animate-spin fill-sky-500"
+            viewBox="0 0 100 101"
+            fill="none"
+            xmlns="http://www.w3.org/2000/svg"
+          >
+            <path
+              d="M100 50.5908C100 78.2051 77.6142 100.591 50 100.591C22.3858 100.591 0 78.2051 0 50.5908C0 22.9766 22.3858 0.59082 50 0.59082C77.6142 0.59082 100 22.9766 100 50.5908ZM9.08144 50.5908C9.08144 73.1895 27.4013 91.5094 50 91.5094C72.5987 91.5094 90.9186 73.1895 90.9186 50.5908C90.9186 27.9921 72.5987 9.67226 50 9.67226C27.4013 9.67226 9.08144 27.9921 9.08144 50.5908Z"
+              fill="currentColor"
+            />
+            <path
+              d="M93.9676 39.0409C96.393 38.4038 97.8624 35.9116 97.0079 33.5539C95.2932 28.8227 92.871 24.3692 89.8167 20.348C85.8452 15.1192 80.8826 10.7238 75.2124 7.41289C69.5422 4.10194 63.2754 1.94025 56.7698 1.05124C51.7666 0.367541 46.6976 0.446843 41.7345 1.27873C39.2613 1.69328 37.813 4.19778 38.4501 6.62326C39.0873 9.04874 41.5694 10.4717 44.0505 10.1071C47.8511 9.54855 51.7191 9.52689 55.5402 10.0492C60.8642 10.7766 65.9928 12.5457 70.6331 15.2552C75.2735 17.9648 79.3347 21.5619 82.5849 25.841C84.9175 28.9121 86.7997 32.2913 88.1811 35.8758C89.083 38.2158 91.5421 39.6781 93.9676 39.0409Z"
+              fill="currentFill"
+            />
+          </svg>
+          <span className="sr-only">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const { project, version } = installInfo;
+  const installLink = getInstallLink(version, "installPage");
+  const isIos = version.platform === Platform.iOS;
+
+  return (
+    <div className="min-h-screen flex items-start sm:items-center justify-center bg-slate-900 text-slate-100 p-6">
+      <div className="bg-slate-800 rounded-lg shadow-xl max-w-lg w-full p-8 space-y-6">
+        <div className="flex items-center space-x-4">
+          <CubeIcon className="h-12 w-12 text-sky-400 flex-shrink-0" />
+          <div>
+            <h1 className="text-2xl font-bold text-slate-100">
+              {project.name}
+            </h1>
+            <p className="text-slate-400">
+              {version.versionName} (Build {version.buildNumber}) ·{" "}
+              {version.platform}
+            </p>
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <dt className="text-slate-400">Released</dt>
+            <dd className="text-slate-200">
+              {new Date(version.uploadDate).toLocaleDateString()}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-slate-400">Size</dt>
+            <dd className="text-slate-200">{version.fileSize}</dd>
+          </div>
+        </dl>
+
+        {installLink ? (
+          <a
+            href={installLink}
+            className="flex items-center justify-center space-x-2 w-full px-6 py-3 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-lg transition-colors"
+          >
+            <ArrowDownTrayIcon className="h-5 w-5" />
+            <span>{isIos ? "Install on iPhone / iPad" : "Download APK"}</span>
+          </a>
+        ) : (
+          <div className="flex items-start space-x-2 p-3 rounded-lg bg-slate-700/50 text-sm text-slate-300">
+            <InformationCircleIcon className="h-5 w-5 flex-shrink-0 text-sky-400" />
+            <span>
+              This build has no install manifest yet, so it cannot be installed
+              over the air.
+            </span>
+          </div>
+        )}
+        {installLink && isIos && (
+          <p className="text-xs text-slate-400">
+            Open this page in Safari on your device. The build must be signed
+            for ad hoc or enterprise distribution.
+          </p>
+        )}
+
+        <div>
+          <h2 className="text-sm font-medium text-slate-300 mb-2">
+            Release Notes
+          </h2>
+          <ReleaseNotesView key={version._id} version={version} />
+        </div>
+
+        <div className="hidden sm:flex flex-col items-center pt-4 border-t border-slate-700">
+          <QRCodeSVG
+            value={window.location.href}
+            size={128}
+            level="M"
+            bgColor="#1e293b"
+            fgColor="#e2e8f0"
+          />
+          <p className="mt-2 text-xs text-slate-500">
+            Scan to open this page on your device.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { Location, Navigate, useLocation, useNavigate } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useBackend } from "../contexts/BackendContext";
+import { Button } from "../components/common/Button";
+import { Input } from "../components/common/Input";
+import { Select } from "../components/common/Select";
+import { CubeIcon } from "../components/common/Icons";
+
+export const LoginPage: React.FC = () => {
+  const { login, isAuthenticated, sessionExpired } = useAuth();
+  const { profiles, activeProfile, selectProfile } = useBackend();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from =
+    (location.state as { from?: Location } | null)?.from?.pathname ||
+    "/dashboard";
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  if (isAuthenticated && !submitting) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) {
+      setFormError("Please enter your email and password.");
+      return;
+    }
+    setSubmitting(true);
+    setFormError(null);
+    try {
+      await login(email.trim(), password);
+      navigate(from, { replace: true });
+    } catch (e: any) {
+      console.error("Failed to sign in:", e);
+      setFormError(
+        e.status === 401
+          ? "Invalid email or password."
+          : e.message || "Failed to sign in."
+      );
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-900 text-slate-100 p-6">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-slate-800 rounded-lg shadow-xl max-w-md w-full p-8 space-y-6"
+      >
+        <div className="flex items-center space-x-3">
+          <CubeIcon className="h-10 w-10 text-sky-400" />
+          <h1 className="text-2xl font-bold text-sky-400">AppRelease</h1>
+        </div>
+
+        {sessionExpired && (
+          <div className="p-3 text-sm text-amber-200 bg-amber-900/50 rounded-lg">
+            Your session has expired. Please sign in again.
+          </div>
+        )}
+
+        {profiles.length > 1 && (
+          <Select
+            label="Backend"
+            value={activeProfile.id}
+            onChange={(e) => selectProfile(e.target.value)}
+            options={profiles.map((profile) => ({
+              value: profile.id,
+              label: profile.name,
+            }))}
+            className="bg-slate-700 border-slate-600 text-slate-100"
+          />
+        )}
+        <Input
+          label="Email"
+          type="email"
+          autoComplete="username"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="bg-slate-700 border-slate-600 text-slate-100"
+        />
+        <Input
+          label="Password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="bg-slate-700 border-slate-600 text-slate-100"
+        />
+
+        {formError && (
+          <div
+            className="p-3 text-sm text-red-200 bg-red-800 rounded-lg"
+            role="alert"
+          >
+            {formError}
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          variant="primary"
+          className="w-full"
+          disabled={submitting}
+        >
+          {submitting ? "Signing in..." : "Sign in"}
+        </Button>
+      </form>
+    </div>
+  );
+};
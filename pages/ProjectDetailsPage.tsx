@@ -1,22 +1,43 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect } from "react";
 import { useParams, Link } from "react-router-dom";
 import { useProjects } from "../contexts/ProjectsContext";
-import { Project, AppVersion, Platform, DeploymentEnvironment } from "../types";
+import { useBackend } from "../contexts/BackendContext";
+import { Project, Platform, DeploymentEnvironment } from "../types";
 import { Button } from "../components/common/Button";
-import { Modal } from "../components/common/Modal";
-import { Input } from "../components/common/Input";
-import { Select } from "../components/common/Select";
 import {
   ArrowLeftIcon,
   PlusIcon,
   UploadIcon,
   QrCodeIcon,
   TrashIcon,
-  SparklesIcon,
   InformationCircleIcon,
+  PencilSquareIcon,
+  ChartBarIcon,
+  ArrowUpCircleIcon,
+  LinkIcon,
 } from "../components/common/Icons";
-import { QRCodeSVG } from "qrcode.react";
-import { generateReleaseNotes as fetchGeneratedReleaseNotes } from "../services/geminiService";
+import { IntegrityBadge } from "../components/common/IntegrityBadge";
+import { BundleUpdatesPanel } from "../components/project/BundleUpdatesPanel";
+import { UploadVersionModal } from "../components/project/UploadVersionModal";
+import { EditProjectModal } from "../components/project/EditProjectModal";
+import { RolloutModal } from "../components/project/RolloutModal";
+import { PromoteModal } from "../components/project/PromoteModal";
+import { ReleaseStatusPanel } from "../components/project/ReleaseStatusPanel";
+import { VersionQrModal } from "../components/project/VersionQrModal";
+import { ReleaseNotesModal } from "../components/project/ReleaseNotesModal";
+import { EditVersionModal } from "../components/project/EditVersionModal";
+import { ReleaseNotesDiffModal } from "../components/project/ReleaseNotesDiffModal";
+import { ProjectMembersPanel } from "../components/project/ProjectMembersPanel";
+import { ApiTokensPanel } from "../components/project/ApiTokensPanel";
+import { WebhooksPanel } from "../components/project/WebhooksPanel";
+import { AuditLogTimeline } from "../components/audit/AuditLogTimeline";
+import { DownloadAnalyticsPanel } from "../components/project/DownloadAnalyticsPanel";
+import { useProjectPermissions } from "../hooks/useProjectPermissions";
+import { ProjectPermission } from "../utils/permissions";
+import { PROJECT_ROLES } from "../constants";
+import { getEnvironmentRollout, isStagedRollout } from "../utils/rollout";
+import { getInstallPageUrl, withDownloadSource } from "../utils/installLinks";
+import { copyToClipboard } from "../utils/clipboard";
 
 const getPlatformBadgeColor = (platform: Platform) => {
   switch (platform) {
@@ -29,6 +50,29 @@ const getPlatformBadgeColor = (platform: Platform) => {
   }
 };
 
+type ProjectTab =
+  | "versions"
+  | "bundles"
+  | "members"
+  | "tokens"
+  | "analytics"
+  | "webhooks"
+  | "audit";
+
+const PROJECT_TABS: {
+  id: ProjectTab;
+  label: string;
+  permission?: ProjectPermission; // Hidden from roles without it
+}[] = [
+  { id: "versions", label: "App Versions" },
+  { id: "bundles", label: "Bundle Updates" },
+  { id: "analytics", label: "Downloads" },
+  { id: "members", label: "Members" },
+  { id: "tokens", label: "API Tokens", permission: "manageProject" },
+  { id: "webhooks", label: "Webhooks", permission: "manageProject" },
+  { id: "audit", label: "Audit Log" },
+];
+
 const getEnvironmentBadgeColor = (env: DeploymentEnvironment) => {
   switch (env) {
     case DeploymentEnvironment.Development:
@@ -46,37 +90,38 @@ export const ProjectDetailsPage: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
   const {
     getProjectById,
-    addAppVersion,
     deleteAppVersion,
     updateVersionEnvironments,
     loading: contextLoading,
     error: contextError,
     fetchProjects, // To potentially re-fetch if needed
   } = useProjects();
+  const { activeProfile } = useBackend();
 
   const [project, setProject] = useState<Project | null>(null);
+  const [activeTab, setActiveTab] = useState<ProjectTab>("versions");
 
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
-  const [isQrModalOpen, setIsQrModalOpen] = useState(false);
-  const [currentQrValueForModal, setCurrentQrValueForModal] = useState("");
+  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [rolloutVersionId, setRolloutVersionId] = useState<string | null>(null);
+  const [promoteVersionId, setPromoteVersionId] = useState<string | null>(null);
+  const [promoteEnvironment, setPromoteEnvironment] = useState<
+    DeploymentEnvironment | undefined
+  >(undefined);
+  const [rolloutEnvironment, setRolloutEnvironment] =
+    useState<DeploymentEnvironment>(DeploymentEnvironment.Production);
+  const [qrVersionId, setQrVersionId] = useState<string | null>(null);
+  const [notesVersionId, setNotesVersionId] = useState<string | null>(null);
+  const [diffVersionId, setDiffVersionId] = useState<string | null>(null);
+  const [editVersionId, setEditVersionId] = useState<string | null>(null);
 
-  const [newVersionPlatform, setNewVersionPlatform] = useState<Platform>(
-    Platform.Android
-  );
-  const [newVersionName, setNewVersionName] = useState("");
-  const [newBuildNumber, setNewBuildNumber] = useState("");
-  const [newReleaseNotes, setNewReleaseNotes] = useState("");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [isGeneratingNotes, setIsGeneratingNotes] = useState(false);
   const [pageLoading, setPageLoading] = useState(true);
+  const { role, can } = useProjectPermissions(project);
 
   useEffect(() => {
     if (projectId) {
       const currentProject = getProjectById(projectId);
       setProject(currentProject ?? null);
-      if (currentProject && currentProject.platforms.length > 0) {
-        setNewVersionPlatform(currentProject.platforms[0]);
-      }
     }
     setPageLoading(contextLoading); // Align page loading with context loading initially
   }, [projectId, getProjectById, contextLoading]);
@@ -93,9 +138,6 @@ export const ProjectDetailsPage: React.FC = () => {
       const currentProject = getProjectById(projectId);
       if (currentProject) {
         setProject(currentProject);
-        if (currentProject.platforms.length > 0) {
-          setNewVersionPlatform(currentProject.platforms[0]);
-        }
       }
     }
   }, [
@@ -107,92 +149,6 @@ export const ProjectDetailsPage: React.FC = () => {
     fetchProjects,
   ]);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files[0]) {
-      setSelectedFile(event.target.files[0]);
-    }
-  };
-
-  const generateReleaseNotes = useCallback(async () => {
-    if (!project || !selectedFile) {
-      alert("Please select a file and ensure project details are loaded.");
-      return;
-    }
-    setIsGeneratingNotes(true);
-    try {
-      const notes = await fetchGeneratedReleaseNotes(
-        `Generate concise and informative release notes for an app update.
-            Project: ${project.name}
-            Platform: ${newVersionPlatform}
-            Version: ${newVersionName} (Build: ${newBuildNumber})
-            File: ${selectedFile.name}
-            Focus on key new features, bug fixes, and improvements. Be brief.`
-      );
-      setNewReleaseNotes(notes);
-    } catch (error) {
-      console.error("Error generating release notes:", error);
-      alert(
-        "Failed to generate release notes. Please try again or write them manually."
-      );
-      setNewReleaseNotes(
-        "Automated release notes generation failed. Please write manually."
-      );
-    } finally {
-      setIsGeneratingNotes(false);
-    }
-  }, [
-    project,
-    selectedFile,
-    newVersionPlatform,
-    newVersionName,
-    newBuildNumber,
-  ]);
-
-  const handleAddVersion = async () => {
-    if (
-      !project ||
-      !selectedFile ||
-      !newVersionName.trim() ||
-      !newBuildNumber.trim()
-    ) {
-      alert("Please fill all required fields and select a file.");
-      return;
-    }
-
-    const versionData = {
-      platform: newVersionPlatform,
-      versionName: newVersionName,
-      buildNumber: newBuildNumber,
-      fileName: selectedFile.name, // Backend will also use this
-      releaseNotes: newReleaseNotes,
-      // _id, uploadDate, downloadUrl, qrCodeValue, fileSize, filePath, activeEnvironments are set by backend/context
-    };
-
-    // We pass Omit<AppVersion, ...> which matches the versionData structure.
-    const addedVersion = await addAppVersion(
-      project._id,
-      versionData,
-      selectedFile
-    );
-
-    if (addedVersion) {
-      setNewVersionName("");
-      setNewBuildNumber("");
-      setNewReleaseNotes("");
-      setSelectedFile(null);
-      if (project.platforms.length > 0) {
-        setNewVersionPlatform(project.platforms[0]);
-      }
-      setIsUploadModalOpen(false);
-      // Project state in context is updated, which should trigger re-render.
-      // Fetch the updated project from context to refresh local state if necessary
-      const updatedProj = getProjectById(project._id);
-      if (updatedProj) setProject(updatedProj);
-    } else {
-      alert("Failed to add new version. Check console for errors.");
-    }
-  };
-
   const handleDeleteVersion = async (versionId: string) => {
     if (
       !project ||
@@ -209,7 +165,9 @@ export const ProjectDetailsPage: React.FC = () => {
     }
   };
 
-  const toggleVersionEnvironment = async (
+  // Badges only deactivate. Activating goes through the promotion flow so
+  // the pipeline gate, its override and the note apply.
+  const deactivateVersionEnvironment = async (
     versionId: string,
     environment: DeploymentEnvironment
   ) => {
@@ -218,58 +176,42 @@ export const ProjectDetailsPage: React.FC = () => {
     const targetVersion = project.versions.find((v) => v._id === versionId);
     if (!targetVersion) return;
 
-    let newActiveEnvironments: DeploymentEnvironment[];
-
-    const isCurrentlyActive =
-      targetVersion.activeEnvironments.includes(environment);
-
-    if (isCurrentlyActive) {
-      // If want to deactivate
-      newActiveEnvironments = targetVersion.activeEnvironments.filter(
-        (e) => e !== environment
-      );
-    } else {
-      // If want to activate
-      // Deactivate this environment for all other versions of the same platform
-      const updatedVersionsForProject = project.versions.map((v) => {
-        if (v.platform === targetVersion.platform && v._id !== versionId) {
-          return {
-            ...v,
-            activeEnvironments: v.activeEnvironments.filter(
-              (e) => e !== environment
-            ),
-          };
-        }
-        return v;
-      });
-      // Now set for the target version
-      newActiveEnvironments = [
-        ...targetVersion.activeEnvironments,
-        environment,
-      ];
-
-      // If you were to update the whole project structure first
-      // const tempProject = {...project, versions: updatedVersionsForProject};
-      // Then apply to target version within that structure.
-      // For now, direct call:
-    }
-
     const updatedVersion = await updateVersionEnvironments(
       project._id,
       versionId,
-      newActiveEnvironments
+      targetVersion.activeEnvironments.filter((e) => e !== environment)
     );
-    if (updatedVersion) {
-      const updatedProj = getProjectById(project._id); // Re-fetch project to get all changes
-      if (updatedProj) setProject(updatedProj);
-    } else {
+    if (!updatedVersion) {
       alert("Failed to update environment. Check console for errors.");
     }
   };
 
-  const openQrModal = (qrValue: string) => {
-    setCurrentQrValueForModal(qrValue); // This is already the full URL from backend
-    setIsQrModalOpen(true);
+  const openPromoteModal = (
+    versionId: string,
+    environment?: DeploymentEnvironment
+  ) => {
+    setPromoteEnvironment(environment);
+    setPromoteVersionId(versionId);
+  };
+
+  const openRolloutModal = (
+    versionId: string,
+    environment: DeploymentEnvironment
+  ) => {
+    setRolloutVersionId(versionId);
+    setRolloutEnvironment(environment);
+  };
+
+  const copyInstallPageLink = async (versionId: string) => {
+    if (!project) return;
+    const url = getInstallPageUrl(
+      project._id,
+      versionId,
+      activeProfile.baseUrl
+    );
+    if (await copyToClipboard(url, "Copy the install page link:")) {
+      alert("Install page link copied to clipboard.");
+    }
   };
 
   if (pageLoading) {
@@ -332,6 +274,11 @@ export const ProjectDetailsPage: React.FC = () => {
           <h1 className="text-3xl font-bold text-slate-100">{project.name}</h1>
           <p className="text-slate-400 mt-1">{project.description}</p>
           <div className="mt-2 flex space-x-2">
+            {role && (
+              <span className="px-3 py-1 text-xs font-semibold rounded-full bg-slate-600 text-slate-100">
+                {PROJECT_ROLES.find((r) => r.value === role)?.label}
+              </span>
+            )}
             {project.platforms.map((p) => (
               <span
                 key={p}
@@ -343,15 +290,49 @@ export const ProjectDetailsPage: React.FC = () => {
               </span>
             ))}
           </div>
+          {(project.applicationId || project.bundleIdentifier) && (
+            <div className="mt-2 flex space-x-4 text-xs text-slate-400">
+              {project.applicationId && (
+                <span>
+                  Application ID:{" "}
+                  <span className="font-mono text-slate-300">
+                    {project.applicationId}
+                  </span>
+                </span>
+              )}
+              {project.bundleIdentifier && (
+                <span>
+                  Bundle ID:{" "}
+                  <span className="font-mono text-slate-300">
+                    {project.bundleIdentifier}
+                  </span>
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="flex space-x-3">
+          {can("manageProject") && (
+            <Button
+              onClick={() => setIsEditModalOpen(true)}
+              variant="secondary"
+              className="flex items-center space-x-2"
+            >
+              <PencilSquareIcon className="h-5 w-5" />
+              <span>Edit Project</span>
+            </Button>
+          )}
+          {can("upload") && (
+            <Button
+              onClick={() => setIsUploadModalOpen(true)}
+              variant="primary"
+              className="flex items-center space-x-2"
+            >
+              <UploadIcon className="h-5 w-5" />
+              <span>Upload New Version</span>
+            </Button>
+          )}
         </div>
-        <Button
-          onClick={() => setIsUploadModalOpen(true)}
-          variant="primary"
-          className="flex items-center space-x-2"
-        >
-          <UploadIcon className="h-5 w-5" />
-          <span>Upload New Version</span>
-        </Button>
       </div>
 
       {/* Global error display from context */}
@@ -364,96 +345,181 @@ export const ProjectDetailsPage: React.FC = () => {
         </div>
       )}
 
-      <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
-        <h2 className="text-xl font-semibold text-slate-200 p-6 border-b border-slate-700">
-          App Versions
-        </h2>
-        {(project.versions?.length || 0) === 0 ? (
-          <p className="text-slate-400 p-6 text-center">
-            No versions uploaded yet for this project.
-          </p>
-        ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full min-w-max">
-              <thead className="bg-slate-700/50">
-                <tr>
-                  {[
-                    "Platform",
-                    "Version",
-                    "Build",
-                    "File",
-                    "Size",
-                    "Uploaded",
-                    "Environments",
-                    "Actions",
-                  ].map((header) => (
-                    <th
-                      key={header}
-                      className="p-4 text-left text-xs font-medium text-slate-400 uppercase tracking-wider"
-                    >
-                      {header}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-700">
-                {project.versions.map((version) => (
-                  <tr
-                    key={version._id}
-                    className="hover:bg-slate-700/30 transition-colors"
-                  >
-                    <td className="p-4 whitespace-nowrap">
-                      <span
-                        className={`px-2.5 py-1 text-xs font-semibold rounded-full ${getPlatformBadgeColor(
-                          version.platform
-                        )}`}
+      <div className="flex space-x-2 border-b border-slate-700">
+        {PROJECT_TABS.filter(
+          (tab) => !tab.permission || can(tab.permission)
+        ).map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-4 py-2 text-sm font-semibold -mb-px border-b-2 transition-colors ${
+              activeTab === tab.id
+                ? "border-sky-400 text-sky-400"
+                : "border-transparent text-slate-400 hover:text-slate-200"
+            }`}
+          >
+            {tab.label}
+            {tab.id === "bundles" && (project.bundleUpdates?.length || 0) > 0
+              ? ` (${project.bundleUpdates?.length})`
+              : ""}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === "bundles" && <BundleUpdatesPanel project={project} />}
+
+      {activeTab === "analytics" && (
+        <DownloadAnalyticsPanel project={project} />
+      )}
+
+      {activeTab === "members" && <ProjectMembersPanel project={project} />}
+
+      {activeTab === "tokens" && can("manageProject") && (
+        <ApiTokensPanel project={project} />
+      )}
+
+      {activeTab === "webhooks" && can("manageProject") && (
+        <WebhooksPanel project={project} />
+      )}
+
+      {activeTab === "audit" && <AuditLogTimeline projectId={project._id} />}
+
+      {activeTab === "versions" && (project.versions?.length || 0) > 0 && (
+        <ReleaseStatusPanel project={project} />
+      )}
+
+      {activeTab === "versions" && (
+        <div className="bg-slate-800 shadow-xl rounded-lg overflow-hidden">
+          <div className="flex justify-between items-center p-6 border-b border-slate-700">
+            <h2 className="text-xl font-semibold text-slate-200">
+              App Versions
+            </h2>
+            {(project.versions?.length || 0) > 1 && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() =>
+                  setDiffVersionId(
+                    [...project.versions].sort(
+                      (a, b) =>
+                        new Date(b.uploadDate).getTime() -
+                        new Date(a.uploadDate).getTime()
+                    )[0]._id
+                  )
+                }
+              >
+                Compare Release Notes
+              </Button>
+            )}
+          </div>
+          {(project.versions?.length || 0) === 0 ? (
+            <p className="text-slate-400 p-6 text-center">
+              No versions uploaded yet for this project.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-max">
+                <thead className="bg-slate-700/50">
+                  <tr>
+                    {[
+                      "Platform",
+                      "Version",
+                      "Build",
+                      "File",
+                      "Size",
+                      "Uploaded",
+                      "Environments",
+                      "Actions",
+                    ].map((header) => (
+                      <th
+                        key={header}
+                        className="p-4 text-left text-xs font-medium text-slate-400 uppercase tracking-wider"
                       >
-                        {version.platform}
-                      </span>
-                    </td>
-                    <td className="p-4 whitespace-nowrap text-sm text-slate-200">
-                      {version.versionName}
-                    </td>
-                    <td className="p-4 whitespace-nowrap text-sm text-slate-300">
-                      {version.buildNumber}
-                    </td>
-                    <td
-                      className="p-4 whitespace-nowrap text-sm text-slate-300 truncate max-w-xs"
-                      title={version.fileName}
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700">
+                  {project.versions.map((version) => (
+                    <tr
+                      key={version._id}
+                      className="hover:bg-slate-700/30 transition-colors"
                     >
-                      {version.fileName}
-                    </td>
-                    <td className="p-4 whitespace-nowrap text-sm text-slate-300">
-                      {version.fileSize}
-                    </td>
-                    <td className="p-4 whitespace-nowrap text-sm text-slate-300">
-                      {new Date(version.uploadDate).toLocaleDateString()}
-                    </td>
-                    <td className="p-4 whitespace-nowrap">
-                      <div className="flex space-x-1">
-                        {(
-                          Object.values(
-                            DeploymentEnvironment
-                          ) as DeploymentEnvironment[]
-                        ).map((env) => {
-                          const isActive =
-                            version.activeEnvironments.includes(env);
-                          return (
-                            <button
-                              key={env}
-                              title={
-                                isActive
-                                  ? `Active in ${env}`
-                                  : `Set active for ${env} (will deactivate for other versions on this platform if applicable)`
-                              }
-                              onClick={() =>
-                                toggleVersionEnvironment(version._id, env)
-                              }
-                              className={`px-2 py-1 text-xs font-semibold rounded-full transition-all duration-200
+                      <td className="p-4 whitespace-nowrap">
+                        <span
+                          className={`px-2.5 py-1 text-xs font-semibold rounded-full ${getPlatformBadgeColor(
+                            version.platform
+                          )}`}
+                        >
+                          {version.platform}
+                        </span>
+                      </td>
+                      <td className="p-4 whitespace-nowrap text-sm text-slate-200">
+                        {version.versionName}
+                      </td>
+                      <td className="p-4 whitespace-nowrap text-sm text-slate-300">
+                        {version.buildNumber}
+                      </td>
+                      <td
+                        className="p-4 whitespace-nowrap text-sm text-slate-300 truncate max-w-xs"
+                        title={version.fileName}
+                      >
+                        {version.fileName}
+                        <IntegrityBadge
+                          serverHash={version.fileHash}
+                          clientHash={version.clientFileHash}
+                        />
+                      </td>
+                      <td className="p-4 whitespace-nowrap text-sm text-slate-300">
+                        {version.fileSize}
+                      </td>
+                      <td className="p-4 whitespace-nowrap text-sm text-slate-300">
+                        {new Date(version.uploadDate).toLocaleDateString()}
+                      </td>
+                      <td className="p-4 whitespace-nowrap">
+                        <div className="flex space-x-1">
+                          {(
+                            Object.values(
+                              DeploymentEnvironment
+                            ) as DeploymentEnvironment[]
+                          ).map((env) => {
+                            const isActive =
+                              version.activeEnvironments.includes(env);
+                            const rollout = getEnvironmentRollout(version, env);
+                            const staged = isStagedRollout(rollout);
+                            return (
+                              <button
+                                key={env}
+                                title={
+                                  staged
+                                    ? `${
+                                        rollout.status === "halted"
+                                          ? "Rollout halted"
+                                          : "Rolling out"
+                                      } at ${
+                                        rollout.percentage
+                                      }% in ${env} (click to manage rollout)`
+                                    : isActive
+                                    ? `Active in ${env} (click to deactivate)`
+                                    : `Promote to ${env} (will deactivate for other versions on this platform if applicable)`
+                                }
+                                onClick={() =>
+                                  staged
+                                    ? openRolloutModal(version._id, env)
+                                    : isActive
+                                    ? deactivateVersionEnvironment(
+                                        version._id,
+                                        env
+                                      )
+                                    : openPromoteModal(version._id, env)
+                                }
+                                disabled={!can("manageReleases")}
+                                className={`px-2 py-1 text-xs font-semibold rounded-full transition-all duration-200 disabled:cursor-default
                                     ${
                                       isActive
                                         ? getEnvironmentBadgeColor(env)
-                                        : "bg-slate-600 text-slate-300 hover:bg-slate-500"
+                                        : "bg-slate-600 text-slate-300 enabled:hover:bg-slate-500"
                                     }
                                     ${
                                       isActive
@@ -479,188 +545,171 @@ export const ProjectDetailsPage: React.FC = () => {
                                         : ""
                                     }
                                 `}
+                              >
+                                {env.substring(0, 1)}
+                                {staged &&
+                                  ` ${rollout.percentage}%${
+                                    rollout.status === "halted"
+                                      ? " (halted)"
+                                      : ""
+                                  }`}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </td>
+                      <td className="p-4 whitespace-nowrap text-sm space-x-2">
+                        {can("manageReleases") && (
+                          <>
+                            <button
+                              onClick={() => openPromoteModal(version._id)}
+                              className="text-sky-400 hover:text-sky-300"
+                              title="Promote to Next Environment"
                             >
-                              {env.substring(0, 1)}
+                              <ArrowUpCircleIcon className="h-5 w-5 inline" />
                             </button>
-                          );
-                        })}
-                      </div>
-                    </td>
-                    <td className="p-4 whitespace-nowrap text-sm space-x-2">
-                      <a
-                        href={version.downloadUrl}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-sky-400 hover:text-sky-300 font-medium"
-                        title="Download File"
-                      >
-                        Download
-                      </a>
-                      <button
-                        onClick={() => openQrModal(version.qrCodeValue)}
-                        className="text-sky-400 hover:text-sky-300"
-                        title="Show QR Code"
-                      >
-                        <QrCodeIcon className="h-5 w-5 inline" />
-                      </button>
-                      <button
-                        onClick={() =>
-                          alert(
-                            version.releaseNotes ||
-                              "No release notes for this version."
-                          )
-                        }
-                        className="text-slate-400 hover:text-slate-200"
-                        title="View Release Notes"
-                      >
-                        <InformationCircleIcon className="h-5 w-5 inline" />
-                      </button>
-                      <button
-                        onClick={() => handleDeleteVersion(version._id)}
-                        className="text-red-500 hover:text-red-400"
-                        title="Delete Version"
-                      >
-                        <TrashIcon className="h-5 w-5 inline" />
-                      </button>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        )}
-      </div>
+                            <button
+                              onClick={() =>
+                                openRolloutModal(
+                                  version._id,
+                                  DeploymentEnvironment.Production
+                                )
+                              }
+                              className="text-sky-400 hover:text-sky-300"
+                              title="Staged Rollout"
+                            >
+                              <ChartBarIcon className="h-5 w-5 inline" />
+                            </button>
+                          </>
+                        )}
+                        <a
+                          href={withDownloadSource(
+                            version.downloadUrl,
+                            "dashboard"
+                          )}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sky-400 hover:text-sky-300 font-medium"
+                          title="Download File"
+                        >
+                          Download
+                        </a>
+                        <button
+                          onClick={() => copyInstallPageLink(version._id)}
+                          className="text-sky-400 hover:text-sky-300"
+                          title="Copy Install Page Link"
+                        >
+                          <LinkIcon className="h-5 w-5 inline" />
+                        </button>
+                        <button
+                          onClick={() => setQrVersionId(version._id)}
+                          className="text-sky-400 hover:text-sky-300"
+                          title="Show QR Code"
+                        >
+                          <QrCodeIcon className="h-5 w-5 inline" />
+                        </button>
+                        <button
+                          onClick={() => setNotesVersionId(version._id)}
+                          className="text-slate-400 hover:text-slate-200"
+                          title="View Release Notes"
+                        >
+                          <InformationCircleIcon className="h-5 w-5 inline" />
+                        </button>
+                        {can("manageReleases") && (
+                          <button
+                            onClick={() => setEditVersionId(version._id)}
+                            className="text-slate-400 hover:text-slate-200"
+                            title="Edit Version"
+                          >
+                            <PencilSquareIcon className="h-5 w-5 inline" />
+                          </button>
+                        )}
+                        {can("manageReleases") && (
+                          <button
+                            onClick={() => handleDeleteVersion(version._id)}
+                            className="text-red-500 hover:text-red-400"
+                            title="Delete Version"
+                          >
+                            <TrashIcon className="h-5 w-5 inline" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
 
-      <Modal
+      <UploadVersionModal
+        project={project}
         isOpen={isUploadModalOpen}
         onClose={() => setIsUploadModalOpen(false)}
-        title="Upload New App Version"
-      >
-        <div className="space-y-4">
-          <Select
-            label="Platform"
-            value={newVersionPlatform}
-            onChange={(e) => setNewVersionPlatform(e.target.value as Platform)}
-            options={project.platforms.map((p) => ({ value: p, label: p }))}
-            className="bg-slate-700 border-slate-600 text-slate-100"
-          />
-          <Input
-            label="Version Name (e.g., 1.0.0)"
-            type="text"
-            value={newVersionName}
-            onChange={(e) => setNewVersionName(e.target.value)}
-            placeholder="1.0.0"
-            className="bg-slate-700 border-slate-600 text-slate-100"
-          />
-          <Input
-            label="Build Number (e.g., 101)"
-            type="text"
-            value={newBuildNumber}
-            onChange={(e) => setNewBuildNumber(e.target.value)}
-            placeholder="101"
-            className="bg-slate-700 border-slate-600 text-slate-100"
-          />
-          <div>
-            <label className="block text-sm font-medium text-slate-300 mb-1">
-              App File (APK/IPA)
-            </label>
-            <input
-              type="file"
-              onChange={handleFileUpload}
-              className="w-full text-sm text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-sky-500 file:text-sky-50 hover:file:bg-sky-600"
-              accept=".apk,.ipa"
-            />
-            {selectedFile && (
-              <p className="text-xs text-slate-400 mt-1">
-                {selectedFile.name} (
-                {(selectedFile.size / (1024 * 1024)).toFixed(2)} MB)
-              </p>
-            )}
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-slate-300 mb-1">
-              Release Notes
-            </label>
-            <textarea
-              value={newReleaseNotes}
-              onChange={(e) => setNewReleaseNotes(e.target.value)}
-              placeholder="Describe new features, bug fixes, etc."
-              rows={4}
-              className="w-full p-2 rounded-md bg-slate-700 border border-slate-600 focus:ring-sky-500 focus:border-sky-500 text-slate-100 placeholder-slate-400"
-            />
-            <Button
-              onClick={generateReleaseNotes}
-              variant="outline"
-              size="sm"
-              className="mt-2 flex items-center space-x-1.5"
-              disabled={
-                isGeneratingNotes ||
-                !selectedFile ||
-                !newVersionName ||
-                !newBuildNumber ||
-                contextLoading
+      />
+
+      <EditProjectModal
+        project={project}
+        isOpen={isEditModalOpen}
+        onClose={() => setIsEditModalOpen(false)}
+      />
+
+      <PromoteModal
+        project={project}
+        version={
+          project.versions.find((v) => v._id === promoteVersionId) || null
+        }
+        initialEnvironment={promoteEnvironment}
+        isOpen={!!promoteVersionId}
+        onClose={() => setPromoteVersionId(null)}
+      />
+
+      <RolloutModal
+        project={project}
+        version={
+          project.versions.find((v) => v._id === rolloutVersionId) || null
+        }
+        initialEnvironment={rolloutEnvironment}
+        isOpen={!!rolloutVersionId}
+        onClose={() => setRolloutVersionId(null)}
+      />
+
+      <VersionQrModal
+        project={project}
+        version={project.versions.find((v) => v._id === qrVersionId) || null}
+        isOpen={!!qrVersionId}
+        onClose={() => setQrVersionId(null)}
+      />
+
+      <ReleaseNotesModal
+        version={project.versions.find((v) => v._id === notesVersionId) || null}
+        isOpen={!!notesVersionId}
+        onClose={() => setNotesVersionId(null)}
+        onCompare={
+          project.versions.length > 1
+            ? () => {
+                setDiffVersionId(notesVersionId);
+                setNotesVersionId(null);
               }
-            >
-              <SparklesIcon className="h-4 w-4" />
-              <span>
-                {isGeneratingNotes ? "Generating..." : "Generate with AI"}
-              </span>
-            </Button>
-          </div>
-          <div className="flex justify-end space-x-3 pt-4">
-            <Button
-              variant="secondary"
-              onClick={() => setIsUploadModalOpen(false)}
-            >
-              Cancel
-            </Button>
-            <Button
-              variant="primary"
-              onClick={handleAddVersion}
-              disabled={!selectedFile || isGeneratingNotes || contextLoading}
-            >
-              {contextLoading
-                ? "Processing..."
-                : isGeneratingNotes
-                ? "Generating Notes..."
-                : "Add Version"}
-            </Button>
-          </div>
-        </div>
-      </Modal>
-
-      <Modal
-        isOpen={isQrModalOpen}
-        onClose={() => setIsQrModalOpen(false)}
-        title="App Download QR Code"
-      >
-        <div className="flex flex-col items-center p-4">
-          {currentQrValueForModal ? (
-            <QRCodeSVG
-              value={currentQrValueForModal}
-              size={256}
-              level="H"
-              bgColor="#1e293b"
-              fgColor="#e2e8f0"
-            />
-          ) : (
-            <p className="text-slate-400">No QR code value available.</p>
-          )}
-          <p
-            className="mt-4 text-xs text-slate-500 break-all"
-            title={currentQrValueForModal}
-          >
-            {currentQrValueForModal}
-          </p>
-          <Button
-            variant="secondary"
-            onClick={() => setIsQrModalOpen(false)}
-            className="mt-6"
-          >
-            Close
-          </Button>
-        </div>
-      </Modal>
+            : undefined
+        }
+      />
+
+      <EditVersionModal
+        project={project}
+        version={project.versions.find((v) => v._id === editVersionId) || null}
+        isOpen={!!editVersionId}
+        onClose={() => setEditVersionId(null)}
+      />
+
+      <ReleaseNotesDiffModal
+        key={diffVersionId || ""}
+        project={project}
+        initialVersionId={diffVersionId}
+        isOpen={!!diffVersionId}
+        onClose={() => setDiffVersionId(null)}
+      />
     </div>
   );
 };
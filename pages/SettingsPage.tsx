@@ -0,0 +1,13 @@
+import React from "react";
+import { BackendProfilesPanel } from "../components/settings/BackendProfilesPanel";
+import { ReleaseNotesProviderPanel } from "../components/settings/ReleaseNotesProviderPanel";
+
+export const SettingsPage: React.FC = () => {
+  return (
+    <div className="space-y-8">
+      <h1 className="text-3xl font-bold text-slate-100">Settings</h1>
+      <BackendProfilesPanel />
+      <ReleaseNotesProviderPanel />
+    </div>
+  );
+};
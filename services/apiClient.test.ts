@@ -0,0 +1,261 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ApiClientAuth, ApiError, createApiClient } from "./apiClient";
+
+const BASE_URL = "https://api.example.com";
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// A fetch that answers each call with the next response in line, and records
+// the requests it received.
+const mockFetch = (...responses: (Response | Error)[]) =>
+  vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => {
+    const next = responses.shift();
+    if (!next) throw new Error("Unexpected request");
+    if (next instanceof Error) throw next;
+    return next;
+  });
+
+const rejectionOf = (request: Promise<unknown>): Promise<ApiError> =>
+  request.then(
+    () => {
+      throw new Error("Expected the request to fail");
+    },
+    (e) => e
+  );
+
+const authHeaderOf = (call: unknown[]) =>
+  ((call[1] as RequestInit).headers as Record<string, string>).Authorization;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createApiClient", () => {
+  it("unwraps the data envelope", async () => {
+    const fetch = mockFetch(json(200, { data: { id: "p1" } }));
+    const client = createApiClient({ baseUrl: BASE_URL, fetch });
+
+    await expect(client.get("/projects/p1")).resolves.toEqual({ id: "p1" });
+    expect(fetch).toHaveBeenCalledWith(
+      `${BASE_URL}/projects/p1`,
+      expect.objectContaining({ method: "GET" })
+    );
+  });
+
+  it("retries GET requests with a doubling delay", async () => {
+    const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+    const fetch = mockFetch(
+      json(503, { message: "Unavailable" }),
+      new TypeError("Failed to fetch"),
+      json(200, { data: "ok" })
+    );
+    const client = createApiClient({
+      baseUrl: BASE_URL,
+      fetch,
+      maxRetries: 2,
+      retryDelayMs: 5,
+    });
+
+    await expect(client.get("/projects")).resolves.toBe("ok");
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(setTimeoutSpy.mock.calls.map((call) => call[1])).toEqual([5, 10]);
+  });
+
+  it("gives up after the last retry", async () => {
+    const fetch = mockFetch(
+      json(500, { message: "Boom" }),
+      json(500, { message: "Boom" })
+    );
+    const client = createApiClient({
+      baseUrl: BASE_URL,
+      fetch,
+      maxRetries: 1,
+      retryDelayMs: 0,
+    });
+
+    await expect(client.get("/projects")).rejects.toMatchObject({
+      status: 500,
+      message: "Boom",
+    });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry client errors", async () => {
+    const fetch = mockFetch(json(404, { message: "Not found" }));
+    const client = createApiClient({ baseUrl: BASE_URL, fetch });
+
+    await expect(client.get("/projects/p1")).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it.each(["post", "put"] as const)(
+    "does not retry %s requests",
+    async (method) => {
+      const fetch = mockFetch(json(503, { message: "Unavailable" }));
+      const client = createApiClient({
+        baseUrl: BASE_URL,
+        fetch,
+        retryDelayMs: 0,
+      });
+
+      await expect(client[method]("/projects", { name: "A" })).rejects.toThrow(
+        "Unavailable"
+      );
+      expect(fetch).toHaveBeenCalledTimes(1);
+    }
+  );
+
+  it("does not retry deletes", async () => {
+    const fetch = mockFetch(new TypeError("Failed to fetch"));
+    const client = createApiClient({
+      baseUrl: BASE_URL,
+      fetch,
+      retryDelayMs: 0,
+    });
+
+    await expect(client.delete("/projects/p1")).rejects.toMatchObject({
+      status: 0,
+      message: "Network error: Failed to fetch",
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes aborts through without retrying", async () => {
+    const controller = new AbortController();
+    const fetch = vi.fn(
+      async (_input: RequestInfo | URL, init?: RequestInit) => {
+        controller.abort();
+        throw init?.signal?.reason;
+      }
+    );
+    const client = createApiClient({ baseUrl: BASE_URL, fetch });
+
+    const error = await rejectionOf(
+      client.get("/projects", { signal: controller.signal })
+    );
+
+    expect(error).not.toBeInstanceOf(ApiError);
+    expect(error.name).toBe("AbortError");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting for a retry when aborted", async () => {
+    const controller = new AbortController();
+    const fetch = mockFetch(json(503, {}), json(200, { data: "ok" }));
+    const client = createApiClient({
+      baseUrl: BASE_URL,
+      fetch,
+      retryDelayMs: 60_000,
+    });
+
+    const request = client.get("/projects", { signal: controller.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("exposes field errors from validation responses", async () => {
+    const fetch = mockFetch(
+      json(422, {
+        message: "Validation failed",
+        errors: [
+          { path: "name", msg: "Name is required" },
+          { param: "slug", message: "Slug is taken" },
+        ],
+      }),
+      json(400, { errors: { email: "Invalid email", count: 3 } })
+    );
+    const client = createApiClient({ baseUrl: BASE_URL, fetch });
+
+    const error = await rejectionOf(client.post("/projects", {}));
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.message).toBe("Validation failed");
+    expect(error.fieldErrors).toEqual({
+      name: "Name is required",
+      slug: "Slug is taken",
+    });
+
+    const second = await rejectionOf(client.post("/users", {}));
+    expect(second.message).toBe("HTTP error! status: 400");
+    expect(second.fieldErrors).toEqual({ email: "Invalid email" });
+  });
+
+  describe("with auth", () => {
+    const createAuth = (
+      refreshed: string | null
+    ): ApiClientAuth & { token: string } => {
+      const auth = {
+        token: "expired",
+        getAccessToken: () => auth.token,
+        refreshAccessToken: vi.fn(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          if (refreshed) auth.token = refreshed;
+          return refreshed;
+        }),
+        onUnauthorized: vi.fn(),
+      };
+      return auth;
+    };
+
+    it("refreshes once for concurrent 401s and replays each request", async () => {
+      const auth = createAuth("fresh");
+      const fetch = vi.fn(
+        async (_input: RequestInfo | URL, init?: RequestInit) =>
+          (init?.headers as Record<string, string>).Authorization ===
+          "Bearer fresh"
+            ? json(200, { data: "ok" })
+            : json(401, { message: "Token expired" })
+      );
+      const client = createApiClient({ baseUrl: BASE_URL, fetch, auth });
+
+      await expect(
+        Promise.all([
+          client.get("/projects"),
+          client.post("/projects", { name: "A" }),
+          client.delete("/projects/p1"),
+        ])
+      ).resolves.toEqual(["ok", "ok", "ok"]);
+      expect(auth.refreshAccessToken).toHaveBeenCalledTimes(1);
+      expect(fetch).toHaveBeenCalledTimes(6);
+      expect(fetch.mock.calls.slice(3).map(authHeaderOf)).toEqual([
+        "Bearer fresh",
+        "Bearer fresh",
+        "Bearer fresh",
+      ]);
+      expect(auth.onUnauthorized).not.toHaveBeenCalled();
+    });
+
+    it("signs out when the session cannot be renewed", async () => {
+      const auth = createAuth(null);
+      const fetch = mockFetch(json(401, { message: "Token expired" }));
+      const client = createApiClient({ baseUrl: BASE_URL, fetch, auth });
+
+      await expect(client.get("/projects")).rejects.toMatchObject({
+        status: 401,
+      });
+      expect(auth.refreshAccessToken).toHaveBeenCalledTimes(1);
+      expect(auth.onUnauthorized).toHaveBeenCalledTimes(1);
+    });
+
+    it("signs out when the replayed request is rejected again", async () => {
+      const auth = createAuth("fresh");
+      const fetch = mockFetch(
+        json(401, { message: "Token expired" }),
+        json(401, { message: "Account disabled" })
+      );
+      const client = createApiClient({ baseUrl: BASE_URL, fetch, auth });
+
+      await expect(client.get("/projects")).rejects.toThrow("Account disabled");
+      expect(auth.refreshAccessToken).toHaveBeenCalledTimes(1);
+      expect(auth.onUnauthorized).toHaveBeenCalledTimes(1);
+    });
+  });
+});
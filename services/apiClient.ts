@@ -0,0 +1,307 @@
+// Thin HTTP client for the release hub backend. Unwraps the `{ data }`
+// envelope, turns failures into ApiError and retries idempotent GETs.
+
+export type FieldErrors = Record<string, string>;
+
+export class ApiError extends Error {
+  readonly status: number; // 0 when the server could not be reached
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message: string, status: number, fieldErrors: FieldErrors = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Tells whether an error comes from a request cancelled via its AbortSignal.
+ * Such errors are expected and should not be reported to the user.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === "AbortError";
+
+export interface ApiClientAuth {
+  getAccessToken: () => string | null | undefined;
+  // Resolves to a new access token, or null when the session can't be renewed.
+  // Concurrent 401s share a single call.
+  refreshAccessToken: () => Promise<string | null>;
+  onUnauthorized: () => void; // Called when a request fails with 401 for good
+}
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  auth?: ApiClientAuth; // Omit for anonymous requests
+  fetch?: typeof fetch; // Injectable for tests against a mock server
+  maxRetries?: number; // Extra attempts for GET requests
+  retryDelayMs?: number; // Delay before the first retry, doubled after each
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export type UploadProgressHandler = (loaded: number, total: number) => void;
+
+export interface UploadRequestOptions extends RequestOptions {
+  onProgress?: UploadProgressHandler; // Bytes of the request body sent so far
+}
+
+export interface ApiClient {
+  get: <T>(path: string, options?: RequestOptions) => Promise<T>;
+  post: <T>(
+    path: string,
+    body?: unknown,
+    options?: RequestOptions
+  ) => Promise<T>;
+  put: <T>(
+    path: string,
+    body?: unknown,
+    options?: RequestOptions
+  ) => Promise<T>;
+  delete: <T>(path: string, options?: RequestOptions) => Promise<T>;
+  // Sends a file body and reports upload progress; never retried.
+  upload: <T>(
+    method: "POST" | "PUT",
+    path: string,
+    body: FormData | Blob,
+    options?: UploadRequestOptions
+  ) => Promise<T>;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+export const isRetryableStatus = (status: number): boolean =>
+  status === 0 || status === 408 || status === 429 || status >= 500;
+
+// Waits between retries. Aborting clears the timer and rejects with the
+// signal's reason, so a cancelled request does not try again.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const parseBody = (text: string): any => {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// Accepts both `{ field: message }` and express-validator style
+// `[{ path | param | field, msg | message }]` payloads.
+const parseFieldErrors = (errors: unknown): FieldErrors => {
+  if (Array.isArray(errors)) {
+    return errors.reduce<FieldErrors>((acc, item) => {
+      const field = item?.path || item?.param || item?.field;
+      const message = item?.msg || item?.message;
+      if (typeof field === "string" && typeof message === "string") {
+        acc[field] = message;
+      }
+      return acc;
+    }, {});
+  }
+  if (errors && typeof errors === "object") {
+    return Object.fromEntries(
+      Object.entries(errors).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string"
+      )
+    );
+  }
+  return {};
+};
+
+const toApiError = (status: number, body: any): ApiError =>
+  new ApiError(
+    (body && typeof body === "object" && body.message) ||
+      (typeof body === "string" && body) ||
+      `HTTP error! status: ${status}`,
+    status,
+    parseFieldErrors(body?.errors)
+  );
+
+interface RawResponse {
+  status: number;
+  ok: boolean;
+  text: string;
+}
+
+// fetch cannot report upload progress, so bodies with a progress handler go
+// through XMLHttpRequest. Failures mirror fetch: network errors reject with a
+// TypeError and aborts with the signal's reason.
+const sendWithProgress = (
+  method: string,
+  url: string,
+  init: {
+    body?: XMLHttpRequestBodyInit;
+    headers: Record<string, string>;
+    signal?: AbortSignal;
+    onProgress: UploadProgressHandler;
+  }
+): Promise<RawResponse> =>
+  new Promise((resolve, reject) => {
+    const { signal } = init;
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    const settle = () => signal?.removeEventListener("abort", onAbort);
+    xhr.open(method, url);
+    Object.entries(init.headers).forEach(([name, value]) =>
+      xhr.setRequestHeader(name, value)
+    );
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) init.onProgress(event.loaded, event.total);
+    };
+    xhr.onload = () => {
+      settle();
+      resolve({
+        status: xhr.status,
+        ok: xhr.status >= 200 && xhr.status < 300,
+        text: xhr.responseText,
+      });
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new TypeError("Failed to send request"));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(init.body ?? null);
+  });
+
+/**
+ * Creates a client bound to a backend base URL.
+ * @param options Base URL, optional auth hooks, fetch implementation and GET
+ * retry policy.
+ * @returns Methods resolving to the `data` field of successful responses.
+ * @throws ApiError for HTTP and network failures; aborts reject with the
+ * signal's AbortError untouched.
+ */
+export const createApiClient = (options: ApiClientOptions): ApiClient => {
+  const fetchImpl: typeof fetch =
+    options.fetch || ((input, init) => fetch(input, init));
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+  let pendingRefresh: Promise<string | null> | null = null;
+  const refreshAccessToken = (auth: ApiClientAuth) => {
+    if (!pendingRefresh) {
+      pendingRefresh = auth.refreshAccessToken().finally(() => {
+        pendingRefresh = null;
+      });
+    }
+    return pendingRefresh;
+  };
+
+  const send = async <T>(
+    method: string,
+    path: string,
+    body: unknown,
+    { signal, onProgress }: UploadRequestOptions = {}
+  ): Promise<T> => {
+    const headers: Record<string, string> = {};
+    let requestBody: FormData | Blob | string | undefined;
+    if (body instanceof FormData) {
+      requestBody = body; // The browser sets the multipart boundary header
+    } else if (body instanceof Blob) {
+      headers["Content-Type"] = "application/octet-stream";
+      requestBody = body;
+    } else if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+      requestBody = JSON.stringify(body);
+    }
+
+    const attempts = method === "GET" ? maxRetries + 1 : 1;
+    let refreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      const accessToken = options.auth?.getAccessToken();
+      let error: ApiError;
+      try {
+        const url = `${options.baseUrl}${path}`;
+        const init = {
+          method,
+          signal,
+          body: requestBody,
+          headers: accessToken
+            ? { ...headers, Authorization: `Bearer ${accessToken}` }
+            : headers,
+        };
+        let response: RawResponse;
+        if (onProgress) {
+          response = await sendWithProgress(method, url, {
+            ...init,
+            onProgress,
+          });
+        } else {
+          const fetched = await fetchImpl(url, init);
+          response = {
+            status: fetched.status,
+            ok: fetched.ok,
+            text: await fetched.text(),
+          };
+        }
+        const payload = parseBody(response.text);
+        if (response.ok) {
+          return payload?.data as T;
+        }
+        error = toApiError(response.status, payload);
+      } catch (e: any) {
+        if (isAbortError(e)) throw e;
+        error = new ApiError(
+          e?.message ? `Network error: ${e.message}` : "Network error.",
+          0
+        );
+      }
+      if (error.status === 401 && options.auth) {
+        // An expired access token is renewed once, without using up a retry.
+        if (!refreshed) {
+          refreshed = true;
+          if (await refreshAccessToken(options.auth)) {
+            attempt--;
+            continue;
+          }
+        }
+        options.auth.onUnauthorized();
+        throw error;
+      }
+      if (attempt + 1 >= attempts || !isRetryableStatus(error.status)) {
+        throw error;
+      }
+      await sleep(retryDelayMs * 2 ** attempt, signal);
+    }
+  };
+
+  return {
+    get: (path, requestOptions) => send("GET", path, undefined, requestOptions),
+    post: (path, body, requestOptions) =>
+      send("POST", path, body, requestOptions),
+    put: (path, body, requestOptions) =>
+      send("PUT", path, body, requestOptions),
+    delete: (path, requestOptions) =>
+      send("DELETE", path, undefined, requestOptions),
+    upload: (method, path, body, requestOptions) =>
+      send(method, path, body, requestOptions),
+  };
+};
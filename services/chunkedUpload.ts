@@ -0,0 +1,150 @@
+// Resumable uploads for large binaries. The file goes up in chunks through an
+// upload session, so a dropped connection only costs the chunk in flight and
+// a retried upload picks up where the previous attempt stopped.
+
+import { UploadSession } from "../types";
+import {
+  UPLOAD_CHUNK_MAX_ATTEMPTS,
+  UPLOAD_CHUNK_SIZE_BYTES,
+} from "../constants";
+import {
+  ApiError,
+  isRetryableStatus,
+  sleep,
+  UploadRequestOptions,
+} from "./apiClient";
+import { ReleaseHubApi } from "./releaseHubApi";
+
+const SESSIONS_STORAGE_KEY = "releaseHub.uploadSessions";
+const CHUNK_RETRY_DELAY_MS = 1000;
+
+// The same file picked again for the same project resumes its session.
+const sessionKey = (projectId: string, file: File) =>
+  `${projectId}:${file.name}:${file.size}:${file.lastModified}`;
+
+const loadSessionIds = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSIONS_STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const storeSessionId = (key: string, uploadId: string | undefined) => {
+  const sessionIds = loadSessionIds();
+  if (uploadId) {
+    sessionIds[key] = uploadId;
+  } else {
+    delete sessionIds[key];
+  }
+  localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessionIds));
+};
+
+// A 409 means the backend holds a different offset than we assumed; the
+// session is re-read before the next attempt either way.
+const isRetryableChunkError = (error: unknown): boolean =>
+  error instanceof ApiError &&
+  (isRetryableStatus(error.status) || error.status === 409);
+
+const findResumableSession = async (
+  api: ReleaseHubApi,
+  projectId: string,
+  file: File,
+  options: UploadRequestOptions
+): Promise<UploadSession | null> => {
+  const uploadId = loadSessionIds()[sessionKey(projectId, file)];
+  if (!uploadId) return null;
+  try {
+    const session = await api.uploads.get(projectId, uploadId, {
+      signal: options.signal,
+    });
+    if (session.fileSize === file.size) return session;
+  } catch (e) {
+    // Expired or unknown sessions are dropped, anything else is a real error.
+    if (!(e instanceof ApiError) || (e.status !== 404 && e.status !== 410)) {
+      throw e;
+    }
+  }
+  storeSessionId(sessionKey(projectId, file), undefined);
+  return null;
+};
+
+/**
+ * Uploads a file in chunks, resuming a session left over from an earlier
+ * attempt with the same file. Each chunk is retried with backoff before the
+ * upload fails.
+ * @param options Abort signal and a progress handler receiving the bytes
+ * stored so far across all chunks.
+ * @returns The id of the completed upload session, to be passed to the
+ * endpoint that creates the version or bundle.
+ * @throws ApiError when a chunk keeps failing; aborts reject with the
+ * signal's AbortError.
+ */
+export const uploadFileInChunks = async (
+  api: ReleaseHubApi,
+  projectId: string,
+  file: File,
+  options: UploadRequestOptions = {}
+): Promise<string> => {
+  const { signal, onProgress } = options;
+  let session = await findResumableSession(api, projectId, file, options);
+  if (!session) {
+    session = await api.uploads.create(
+      projectId,
+      {
+        fileName: file.name,
+        fileSize: file.size,
+        chunkSize: UPLOAD_CHUNK_SIZE_BYTES,
+      },
+      { signal }
+    );
+    storeSessionId(sessionKey(projectId, file), session._id);
+  }
+
+  let offset = session.receivedBytes;
+  let failedAttempts = 0;
+  onProgress?.(offset, file.size);
+  while (offset < file.size) {
+    const chunkOffset = offset;
+    const chunk = file.slice(chunkOffset, chunkOffset + session.chunkSize);
+    try {
+      session = await api.uploads.putChunk(
+        projectId,
+        session._id,
+        chunkOffset,
+        chunk,
+        {
+          signal,
+          onProgress: (loaded) => onProgress?.(chunkOffset + loaded, file.size),
+        }
+      );
+      offset = session.receivedBytes;
+      failedAttempts = 0;
+    } catch (e) {
+      failedAttempts++;
+      if (
+        !isRetryableChunkError(e) ||
+        failedAttempts >= UPLOAD_CHUNK_MAX_ATTEMPTS
+      ) {
+        throw e;
+      }
+      console.warn(
+        `Chunk at ${chunkOffset} of ${file.name} failed, retrying:`,
+        e
+      );
+      await sleep(CHUNK_RETRY_DELAY_MS * 2 ** (failedAttempts - 1), signal);
+      // The chunk may have been stored before the connection dropped.
+      session = await api.uploads.get(projectId, session._id, { signal });
+      offset = session.receivedBytes;
+    }
+    onProgress?.(offset, file.size);
+  }
+  return session._id;
+};
+
+/**
+ * Forgets the stored session of a file once its upload has been turned into
+ * a version or bundle, so picking the file again starts a fresh upload.
+ */
+export const forgetChunkedUpload = (projectId: string, file: File) =>
+  storeSessionId(sessionKey(projectId, file), undefined);
@@ -1,7 +1,9 @@
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Schema, Type } from "@google/genai";
 import { GEMINI_API_MODEL_TEXT } from '../constants';
-import { GroundingChunk } from '../types';
+import { GroundingChunk, StructuredReleaseNotes } from '../types';
+import { isStructuredReleaseNotes } from '../utils/releaseNotes';
+import { stripCodeFence } from '../utils/llmJson';
 
 const API_KEY = process.env.API_KEY;
 
@@ -16,38 +18,16 @@ if (!API_KEY) {
 }
 
 // Initialize the GoogleGenAI client, even if API_KEY is not present.
-// Calls will fail gracefully if API_KEY is missing.
+// Calls throw a configuration error before reaching it if API_KEY is missing.
 const ai = new GoogleGenAI({ apiKey: API_KEY || "MISSING_API_KEY" });
 
+export const isGeminiConfigured = (): boolean => !!API_KEY;
 
-/**
- * Generates text content using the Gemini API.
- * @param prompt The text prompt to send to the model.
- * @returns The generated text.
- * @throws Error if API key is missing or API call fails.
- */
-export const generateReleaseNotes = async (prompt: string): Promise<string> => {
+const assertConfigured = () => {
   if (!API_KEY) {
-    console.error("Gemini API key is not configured. Cannot generate release notes.");
-    // Fallback to a predefined message or throw an error
-    return "AI-generated release notes are unavailable. Please provide an API_KEY or write them manually.";
-    // Or: throw new Error("Gemini API key is not configured.");
-  }
-
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_API_MODEL_TEXT,
-      contents: prompt,
-      config: {
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-      }
-    });
-    return response.text;
-  } catch (error) {
-    console.error("Error generating content with Gemini API:", error);
-    throw new Error(`Failed to generate content: ${error instanceof Error ? error.message : String(error)}`);
+    throw new Error(
+      "Gemini API key is not configured. Set GEMINI_API_KEY or choose another provider under Settings."
+    );
   }
 };
 
@@ -60,12 +40,7 @@ export const generateReleaseNotes = async (prompt: string): Promise<string> => {
 export const generateTextWithGoogleSearch = async (
   prompt: string
 ): Promise<{ text: string; groundingChunks?: GroundingChunk[] }> => {
-  if (!API_KEY) {
-    console.error("Gemini API key is not configured. Cannot use Google Search grounding.");
-     return { text: "Google Search grounding is unavailable. Please provide an API_KEY.", groundingChunks: [] };
-    // Or: throw new Error("Gemini API key is not configured.");
-  }
-
+  assertConfigured();
   try {
     const response: GenerateContentResponse = await ai.models.generateContent({
       model: GEMINI_API_MODEL_TEXT, // Ensure this model supports grounding
@@ -75,7 +50,7 @@ export const generateTextWithGoogleSearch = async (
       },
     });
     
-    const text = response.text;
+    const text = response.text || "";
     const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
     const groundingChunks = groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
 
@@ -86,48 +61,102 @@ export const generateTextWithGoogleSearch = async (
   }
 };
 
-// Example of how to handle JSON response (not used in current app but good for reference)
-interface ExampleJsonResponse {
-  title: string;
-  summary: string;
-  keywords: string[];
-}
-
-export const generateJsonData = async (prompt: string): Promise<ExampleJsonResponse | null> => {
-  if (!API_KEY) {
-    console.error("Gemini API key is not configured.");
-    return null;
-  }
+/**
+ * Generates JSON constrained to a response schema.
+ * @param prompt The text prompt to send to the model.
+ * @param responseSchema The schema the response must follow.
+ * @param isValid Checks the parsed response, since the model may still deviate.
+ * @param model The Gemini model to use.
+ * @returns The parsed data.
+ * @throws Error if API key is missing, the call fails or the response does not
+ * match the schema.
+ */
+export const generateJsonData = async <T>(
+  prompt: string,
+  responseSchema: Schema,
+  isValid: (data: unknown) => data is T,
+  model: string = GEMINI_API_MODEL_TEXT
+): Promise<T> => {
+  assertConfigured();
+  let text: string;
   try {
     const response = await ai.models.generateContent({
-      model: GEMINI_API_MODEL_TEXT,
-      contents: `${prompt}. Please respond strictly in JSON format.`,
+      model,
+      contents: `${prompt}\n\nPlease respond strictly in JSON format.`,
       config: {
         responseMimeType: "application/json",
+        responseSchema,
       },
     });
-
-    let jsonStr = response.text.trim();
-    const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s; // Matches ```json ... ``` or ``` ... ```
-    const match = jsonStr.match(fenceRegex);
-    if (match && match[2]) {
-      jsonStr = match[2].trim();
-    }
-    
-    try {
-      const parsedData = JSON.parse(jsonStr) as ExampleJsonResponse;
-      // Add validation for parsedData structure if necessary
-      if (parsedData && typeof parsedData.title === 'string' && typeof parsedData.summary === 'string' && Array.isArray(parsedData.keywords)) {
-        return parsedData;
-      }
-      console.warn("Parsed JSON does not match expected structure:", parsedData);
-      return null;
-    } catch (e) {
-      console.error("Failed to parse JSON response:", e, "Raw string:", jsonStr);
-      return null;
-    }
+    text = response.text || "";
   } catch (error) {
     console.error("Error generating JSON data with Gemini API:", error);
-    return null;
+    throw new Error(`Failed to generate content: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const jsonStr = stripCodeFence(text);
+  let parsedData: unknown;
+  try {
+    parsedData = JSON.parse(jsonStr);
+  } catch (e) {
+    console.error("Failed to parse JSON response:", e, "Raw string:", jsonStr);
+    throw new Error("The model did not return valid JSON.");
+  }
+  if (!isValid(parsedData)) {
+    console.warn("Parsed JSON does not match expected structure:", parsedData);
+    throw new Error("The model's response does not have the expected structure.");
+  }
+  return parsedData;
+};
+
+const RELEASE_NOTES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    features: { type: Type.ARRAY, items: { type: Type.STRING } },
+    fixes: { type: Type.ARRAY, items: { type: Type.STRING } },
+    knownIssues: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["summary", "features", "fixes", "knownIssues"],
+  propertyOrdering: ["summary", "features", "fixes", "knownIssues"],
+};
+
+/**
+ * Generates release notes split into features, fixes and known issues.
+ * @param prompt A prompt from buildReleaseNotesPrompt.
+ * @param model The Gemini model to use.
+ * @throws Error if the notes could not be generated.
+ */
+export const generateStructuredReleaseNotes = (
+  prompt: string,
+  model: string = GEMINI_API_MODEL_TEXT
+): Promise<StructuredReleaseNotes> =>
+  generateJsonData(prompt, RELEASE_NOTES_SCHEMA, isStructuredReleaseNotes, model);
+
+/**
+ * Translates markdown release notes.
+ * @param prompt A prompt from buildReleaseNotesTranslationPrompt.
+ * @param model The Gemini model to use.
+ * @returns The translated markdown.
+ * @throws Error if API key is missing, the call fails or nothing is returned.
+ */
+export const translateReleaseNotes = async (
+  prompt: string,
+  model: string = GEMINI_API_MODEL_TEXT
+): Promise<string> => {
+  assertConfigured();
+  let text: string;
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: { temperature: 0.2 },
+    });
+    text = stripCodeFence(response.text || "");
+  } catch (error) {
+    console.error("Error translating release notes with Gemini API:", error);
+    throw new Error(`Failed to translate release notes: ${error instanceof Error ? error.message : String(error)}`);
   }
+  if (!text) throw new Error("The model returned an empty translation.");
+  return text;
 };
@@ -0,0 +1,427 @@
+import {
+  ApiTokenScope,
+  AppVersion,
+  AuditLogEntry,
+  AuthSession,
+  AuthTokens,
+  BundlePlatform,
+  BundleUpdate,
+  CreatedApiToken,
+  CreatedWebhook,
+  DeploymentEnvironment,
+  LocalizedReleaseNotes,
+  Platform,
+  Project,
+  ProjectApiToken,
+  ProjectDownloadStats,
+  ProjectIdentifiers,
+  ProjectMember,
+  ProjectRole,
+  ReleaseNotesOrigin,
+  RolloutStatus,
+  TopDownloadedVersion,
+  UploadSession,
+  VersionInstallInfo,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+} from "../types";
+import { ApiClient, RequestOptions, UploadRequestOptions } from "./apiClient";
+
+export interface ProjectPayload extends ProjectIdentifiers {
+  name: string;
+  description?: string;
+  platforms: Platform[];
+}
+
+export interface VersionUploadPayload {
+  file: File;
+  platform: Platform;
+  versionName: string;
+  buildNumber: string;
+  clientFileHash: string;
+  packageIdentifier?: string;
+  binaryVersionName?: string;
+  binaryBuildNumber?: string;
+  releaseNotes?: string;
+  releaseNotesLocale?: string;
+  releaseNotesOrigin?: ReleaseNotesOrigin;
+  localizedReleaseNotes?: LocalizedReleaseNotes;
+}
+
+// Creates a version from a completed chunked upload instead of a file.
+export type ChunkedVersionPayload = Omit<VersionUploadPayload, "file"> & {
+  uploadId: string;
+};
+
+export interface VersionRolloutPayload {
+  environment: DeploymentEnvironment;
+  percentage: number;
+  status: RolloutStatus;
+}
+
+// The backend records the session user as the promoter.
+export interface VersionPromotionRequest {
+  toEnvironment: DeploymentEnvironment;
+  note: string;
+  override: boolean; // Allow skipping pipeline stages
+}
+
+// Replaces the editable details of a version. The backend works out what
+// changed and appends it to the version's editHistory.
+export interface VersionUpdatePayload {
+  versionName: string;
+  buildNumber: string;
+  releaseNotes: string;
+  localizedReleaseNotes: LocalizedReleaseNotes;
+}
+
+export interface BundleUploadPayload {
+  file: File;
+  platform: BundlePlatform;
+  bundleVersion: string;
+  isMandatory: boolean;
+  clientBundleHash: string;
+  description?: string;
+}
+
+export type ChunkedBundlePayload = Omit<BundleUploadPayload, "file"> & {
+  uploadId: string;
+};
+
+export interface UploadSessionPayload {
+  fileName: string;
+  fileSize: number;
+  chunkSize: number; // Requested size, the backend may pick another
+}
+
+export interface WebhookSettingsPayload {
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+}
+
+export interface AuditLogQuery {
+  projectId?: string; // All projects the user can see when omitted
+  limit?: number;
+}
+
+export interface DownloadStatsQuery {
+  days: number; // Range ending now
+  versionId?: string; // Narrows the totals, series and breakdowns
+}
+
+export interface TopVersionsQuery {
+  days: number;
+  limit: number;
+}
+
+export interface VersionRollbackResult {
+  restored: AppVersion;
+  rolledBack?: AppVersion; // The version that was serving the environment
+}
+
+export interface BundleRollbackResult {
+  restored: BundleUpdate;
+  rolledBack?: BundleUpdate;
+}
+
+const toFormData = (fields: Record<string, string | Blob | undefined>) => {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") formData.append(key, value);
+  });
+  return formData;
+};
+
+// Appends the defined parameters as a query string.
+const withQuery = (
+  path: string,
+  params: Record<string, string | number | undefined>
+) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") search.set(key, String(value));
+  });
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+};
+
+/**
+ * Binds one typed function per backend operation to an API client.
+ */
+export const createReleaseHubApi = (client: ApiClient) => {
+  const versionPath = (projectId: string, versionId: string) =>
+    `/projects/${projectId}/versions/${versionId}`;
+  const bundlePath = (projectId: string, bundleId: string) =>
+    `/projects/${projectId}/bundles/${bundleId}`;
+  const uploadPath = (projectId: string, uploadId: string) =>
+    `/projects/${projectId}/uploads/${uploadId}`;
+  const webhookPath = (projectId: string, webhookId: string) =>
+    `/projects/${projectId}/webhooks/${webhookId}`;
+
+  return {
+    auth: {
+      login: (email: string, password: string) =>
+        client.post<AuthSession>("/auth/login", { email, password }),
+      refresh: (refreshToken: string) =>
+        client.post<AuthTokens>("/auth/refresh", { refreshToken }),
+      logout: (refreshToken: string) =>
+        client.post<void>("/auth/logout", { refreshToken }),
+    },
+    projects: {
+      list: (options?: RequestOptions) =>
+        client.get<Project[]>("/projects", options),
+      create: (payload: Omit<ProjectPayload, keyof ProjectIdentifiers>) =>
+        client.post<Project>("/projects", payload),
+      update: (projectId: string, payload: ProjectPayload) =>
+        client.put<Project>(`/projects/${projectId}`, payload),
+      delete: (projectId: string) =>
+        client.delete<void>(`/projects/${projectId}`),
+    },
+    members: {
+      // Each call resolves to the project's full member list after the change.
+      add: (projectId: string, email: string, role: ProjectRole) =>
+        client.post<ProjectMember[]>(`/projects/${projectId}/members`, {
+          email,
+          role,
+        }),
+      updateRole: (projectId: string, userId: string, role: ProjectRole) =>
+        client.put<ProjectMember[]>(
+          `/projects/${projectId}/members/${userId}`,
+          { role }
+        ),
+      remove: (projectId: string, userId: string) =>
+        client.delete<ProjectMember[]>(
+          `/projects/${projectId}/members/${userId}`
+        ),
+    },
+    tokens: {
+      list: (projectId: string, options?: RequestOptions) =>
+        client.get<ProjectApiToken[]>(`/projects/${projectId}/tokens`, options),
+      create: (projectId: string, name: string, scopes: ApiTokenScope[]) =>
+        client.post<CreatedApiToken>(`/projects/${projectId}/tokens`, {
+          name,
+          scopes,
+        }),
+      revoke: (projectId: string, tokenId: string) =>
+        client.delete<void>(`/projects/${projectId}/tokens/${tokenId}`),
+    },
+    webhooks: {
+      list: (projectId: string, options?: RequestOptions) =>
+        client.get<Webhook[]>(`/projects/${projectId}/webhooks`, options),
+      create: (projectId: string, payload: WebhookSettingsPayload) =>
+        client.post<CreatedWebhook>(`/projects/${projectId}/webhooks`, payload),
+      update: (
+        projectId: string,
+        webhookId: string,
+        payload: WebhookSettingsPayload
+      ) => client.put<Webhook>(webhookPath(projectId, webhookId), payload),
+      delete: (projectId: string, webhookId: string) =>
+        client.delete<void>(webhookPath(projectId, webhookId)),
+      // Sends a sample payload for the event, flagged with `test: true`, and
+      // resolves once the receiver has answered or the delivery failed.
+      sendTest: (projectId: string, webhookId: string, event: WebhookEvent) =>
+        client.post<WebhookDelivery>(
+          `${webhookPath(projectId, webhookId)}/test`,
+          { event }
+        ),
+      listDeliveries: (
+        projectId: string,
+        webhookId: string,
+        options?: RequestOptions
+      ) =>
+        client.get<WebhookDelivery[]>(
+          `${webhookPath(projectId, webhookId)}/deliveries`,
+          options
+        ),
+      redeliver: (projectId: string, webhookId: string, deliveryId: string) =>
+        client.post<WebhookDelivery>(
+          `${webhookPath(
+            projectId,
+            webhookId
+          )}/deliveries/${deliveryId}/redeliver`
+        ),
+    },
+    audit: {
+      // Newest entries first.
+      list: (query: AuditLogQuery = {}, options?: RequestOptions) =>
+        client.get<AuditLogEntry[]>(withQuery("/audit", { ...query }), options),
+    },
+    analytics: {
+      getProjectDownloads: (
+        projectId: string,
+        query: DownloadStatsQuery,
+        options?: RequestOptions
+      ) =>
+        client.get<ProjectDownloadStats>(
+          withQuery(`/projects/${projectId}/analytics/downloads`, {
+            ...query,
+          }),
+          options
+        ),
+      // Most downloaded versions across the user's projects.
+      getTopVersions: (query: TopVersionsQuery, options?: RequestOptions) =>
+        client.get<TopDownloadedVersion[]>(
+          withQuery("/analytics/top-versions", { ...query }),
+          options
+        ),
+    },
+    uploads: {
+      create: (
+        projectId: string,
+        payload: UploadSessionPayload,
+        options?: RequestOptions
+      ) =>
+        client.post<UploadSession>(
+          `/projects/${projectId}/uploads`,
+          payload,
+          options
+        ),
+      get: (projectId: string, uploadId: string, options?: RequestOptions) =>
+        client.get<UploadSession>(uploadPath(projectId, uploadId), options),
+      // Appends a chunk at `offset` and resolves to the updated session.
+      putChunk: (
+        projectId: string,
+        uploadId: string,
+        offset: number,
+        chunk: Blob,
+        options?: UploadRequestOptions
+      ) =>
+        client.upload<UploadSession>(
+          "PUT",
+          `${uploadPath(projectId, uploadId)}/chunks/${offset}`,
+          chunk,
+          options
+        ),
+    },
+    versions: {
+      upload: (
+        projectId: string,
+        payload: VersionUploadPayload,
+        options?: UploadRequestOptions
+      ) =>
+        client.upload<AppVersion>(
+          "POST",
+          `/projects/${projectId}/versions`,
+          toFormData({
+            appFile: payload.file,
+            platform: payload.platform,
+            versionName: payload.versionName,
+            buildNumber: payload.buildNumber,
+            clientFileHash: payload.clientFileHash,
+            packageIdentifier: payload.packageIdentifier,
+            binaryVersionName: payload.binaryVersionName,
+            binaryBuildNumber: payload.binaryBuildNumber,
+            releaseNotes: payload.releaseNotes,
+            releaseNotesLocale: payload.releaseNotesLocale,
+            releaseNotesOrigin:
+              payload.releaseNotesOrigin &&
+              JSON.stringify(payload.releaseNotesOrigin),
+            localizedReleaseNotes:
+              payload.localizedReleaseNotes &&
+              JSON.stringify(payload.localizedReleaseNotes),
+          }),
+          options
+        ),
+      createFromUpload: (projectId: string, payload: ChunkedVersionPayload) =>
+        client.post<AppVersion>(`/projects/${projectId}/versions`, payload),
+      update: (
+        projectId: string,
+        versionId: string,
+        payload: VersionUpdatePayload
+      ) => client.put<AppVersion>(versionPath(projectId, versionId), payload),
+      delete: (projectId: string, versionId: string) =>
+        client.delete<void>(versionPath(projectId, versionId)),
+      updateEnvironments: (
+        projectId: string,
+        versionId: string,
+        activeEnvironments: DeploymentEnvironment[]
+      ) =>
+        client.put<AppVersion>(
+          `${versionPath(projectId, versionId)}/environments`,
+          { activeEnvironments }
+        ),
+      // The backend picks the version to restore from the environment history
+      // it records.
+      rollbackEnvironment: (
+        projectId: string,
+        platform: Platform,
+        environment: DeploymentEnvironment
+      ) =>
+        client.post<VersionRollbackResult>(
+          `/projects/${projectId}/versions/rollback`,
+          { platform, environment }
+        ),
+      updateRollout: (
+        projectId: string,
+        versionId: string,
+        payload: VersionRolloutPayload
+      ) =>
+        client.put<AppVersion>(
+          `${versionPath(projectId, versionId)}/rollout`,
+          payload
+        ),
+      promote: (
+        projectId: string,
+        versionId: string,
+        promotion: VersionPromotionRequest
+      ) =>
+        client.post<AppVersion>(
+          `${versionPath(projectId, versionId)}/promote`,
+          promotion
+        ),
+      putManifest: (projectId: string, versionId: string, manifest: string) =>
+        client.put<AppVersion>(
+          `${versionPath(projectId, versionId)}/manifest`,
+          { manifest }
+        ),
+      getInstallInfo: (
+        projectId: string,
+        versionId: string,
+        options?: RequestOptions
+      ) =>
+        client.get<VersionInstallInfo>(
+          `/public/projects/${encodeURIComponent(
+            projectId
+          )}/versions/${encodeURIComponent(versionId)}`,
+          options
+        ),
+    },
+    bundles: {
+      upload: (
+        projectId: string,
+        payload: BundleUploadPayload,
+        options?: UploadRequestOptions
+      ) =>
+        client.upload<BundleUpdate>(
+          "POST",
+          `/projects/${projectId}/bundles`,
+          toFormData({
+            bundleFile: payload.file,
+            platform: payload.platform,
+            bundleVersion: payload.bundleVersion,
+            isMandatory: String(payload.isMandatory),
+            clientBundleHash: payload.clientBundleHash,
+            description: payload.description,
+          }),
+          options
+        ),
+      createFromUpload: (projectId: string, payload: ChunkedBundlePayload) =>
+        client.post<BundleUpdate>(`/projects/${projectId}/bundles`, payload),
+      delete: (projectId: string, bundleId: string) =>
+        client.delete<void>(bundlePath(projectId, bundleId)),
+      republish: (projectId: string, bundleId: string) =>
+        client.post<BundleUpdate>(
+          `${bundlePath(projectId, bundleId)}/republish`
+        ),
+      rollback: (projectId: string, platform: BundlePlatform) =>
+        client.post<BundleRollbackResult>(
+          `/projects/${projectId}/bundles/rollback`,
+          { platform }
+        ),
+    },
+  };
+};
+
+export type ReleaseHubApi = ReturnType<typeof createReleaseHubApi>;
@@ -0,0 +1,127 @@
+import {
+  GeneratedReleaseNotes,
+  LlmProviderId,
+  LlmSettings,
+  StructuredReleaseNotes,
+} from "../types";
+import { TEMPLATE_RELEASE_NOTES_MODEL } from "../constants";
+import { generateStructuredReleaseNotes } from "./geminiService";
+import {
+  buildReleaseNotesPrompt,
+  isStructuredReleaseNotes,
+  ReleaseNotesRequest,
+} from "../utils/releaseNotes";
+import { buildTemplateReleaseNotes } from "../utils/releaseNotesTemplate";
+import { stripCodeFence } from "../utils/llmJson";
+
+/**
+ * Writes structured release notes from a change log.
+ */
+export interface ReleaseNotesProvider {
+  generate: (
+    request: ReleaseNotesRequest,
+    settings: LlmSettings
+  ) => Promise<StructuredReleaseNotes>;
+}
+
+const OPENAI_SYSTEM_PROMPT = `You write release notes for app testers. Reply with a single JSON object of the form {"summary": string, "features": string[], "fixes": string[], "knownIssues": string[]} and nothing else.`;
+
+const geminiProvider: ReleaseNotesProvider = {
+  generate: (request, settings) =>
+    generateStructuredReleaseNotes(
+      buildReleaseNotesPrompt(request),
+      settings.model
+    ),
+};
+
+// Talks to any server implementing the OpenAI chat completions API, such as
+// Ollama, LM Studio or vLLM running locally.
+const openAiCompatibleProvider: ReleaseNotesProvider = {
+  generate: async (request, settings) => {
+    const response = await fetch(
+      `${settings.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(settings.apiKey
+            ? { Authorization: `Bearer ${settings.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: 0.2,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: OPENAI_SYSTEM_PROMPT },
+            { role: "user", content: buildReleaseNotesPrompt(request) },
+          ],
+        }),
+      }
+    );
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(
+        `${settings.baseUrl} responded with ${response.status}${
+          body ? `: ${body.slice(0, 200)}` : ""
+        }`
+      );
+    }
+    const completion = await response.json();
+    const content: unknown = completion?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("The model returned an empty response.");
+    }
+    let notes: unknown;
+    try {
+      notes = JSON.parse(stripCodeFence(content));
+    } catch {
+      throw new Error("The model did not return valid JSON.");
+    }
+    if (!isStructuredReleaseNotes(notes)) {
+      throw new Error(
+        "The model's response does not have the expected structure."
+      );
+    }
+    return notes;
+  },
+};
+
+const templateProvider: ReleaseNotesProvider = {
+  generate: async (request) => buildTemplateReleaseNotes(request),
+};
+
+export const RELEASE_NOTES_PROVIDERS: Record<
+  LlmProviderId,
+  ReleaseNotesProvider
+> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  template: templateProvider,
+};
+
+/**
+ * Generates release notes with the provider chosen in settings and records
+ * which provider and model wrote them.
+ * @throws Error if the provider fails.
+ */
+export const generateReleaseNotes = async (
+  request: ReleaseNotesRequest,
+  settings: LlmSettings
+): Promise<GeneratedReleaseNotes> => {
+  const notes = await RELEASE_NOTES_PROVIDERS[settings.provider].generate(
+    request,
+    settings
+  );
+  return {
+    notes,
+    origin: {
+      provider: settings.provider,
+      model:
+        settings.provider === "template"
+          ? TEMPLATE_RELEASE_NOTES_MODEL
+          : settings.model,
+      generatedAt: new Date().toISOString(),
+    },
+  };
+};
@@ -9,6 +9,36 @@ export enum DeploymentEnvironment {
   Production = "Production",
 }
 
+// One period during which a version was active in an environment
+export interface EnvironmentActivation {
+  environment: DeploymentEnvironment;
+  activatedAt: string; // ISO string
+  deactivatedAt?: string; // Unset while still active
+}
+
+export type RolloutStatus = "in_progress" | "halted" | "completed";
+
+// Staged rollout of a version within one environment. While in progress or
+// halted, the previous version keeps serving the remaining users.
+export interface EnvironmentRollout {
+  environment: DeploymentEnvironment;
+  percentage: number; // Share of users (1-100) receiving this version
+  status: RolloutStatus;
+  previousVersionId?: string; // Version serving the remaining users
+  updatedAt: string; // ISO string from backend
+}
+
+// A step of a version along the Development -> Staging -> Production pipeline.
+// Written by the backend, which takes the promoter from the session.
+export interface PromotionRecord {
+  fromEnvironment?: DeploymentEnvironment; // Unset for a first deployment
+  toEnvironment: DeploymentEnvironment;
+  promotedBy: AuthUser;
+  promotedAt: string; // ISO string from backend
+  note: string;
+  skippedStages?: DeploymentEnvironment[]; // Stages bypassed with an override
+}
+
 export interface AppVersion {
   _id: string; // Changed from id
   platform: Platform;
@@ -17,11 +47,46 @@ export interface AppVersion {
   fileName: string;
   fileSize: string;
   uploadDate: string; // ISO string from backend
-  releaseNotes?: string;
+  releaseNotes?: string; // In releaseNotesLocale
+  releaseNotesLocale?: string; // Missing = DEFAULT_RELEASE_NOTES_LOCALE
+  releaseNotesOrigin?: ReleaseNotesOrigin; // Set when the notes were generated
+  localizedReleaseNotes?: LocalizedReleaseNotes; // Includes releaseNotes
   downloadUrl: string; // Full URL from backend
   qrCodeValue: string; // Full URL or value for QR from backend
+  manifestUrl?: string; // iOS only: URL of the OTA manifest.plist, from backend
   filePath: string; // Relative path on server, from backend
+  packageIdentifier?: string; // Package name / bundle id read from the binary at upload
+  binaryVersionName?: string; // Version name read from the binary at upload
+  binaryBuildNumber?: string; // Build number read from the binary at upload
+  fileHash?: string; // SHA-256 of the stored file, computed by the backend
+  clientFileHash?: string; // SHA-256 computed in the browser before upload
   activeEnvironments: DeploymentEnvironment[];
+  rollouts?: EnvironmentRollout[]; // Missing entry = fully rolled out
+  promotions?: PromotionRecord[]; // Oldest first
+  environmentHistory?: EnvironmentActivation[]; // Recorded by the backend, oldest first
+  editHistory?: VersionEditRecord[]; // Oldest first
+}
+
+// Details that can be corrected after upload. The file and everything derived
+// from it (size, hash, package identifier) never change.
+export type EditableVersionField =
+  | "versionName"
+  | "buildNumber"
+  | "releaseNotes";
+
+export interface VersionFieldChange {
+  field: EditableVersionField;
+  locale?: string; // Release notes only
+  before: string;
+  after: string;
+}
+
+// Written by the backend, which compares the update with the stored version
+// and takes the editor from the session.
+export interface VersionEditRecord {
+  editedBy: AuthUser;
+  editedAt: string; // ISO string from backend
+  changes: VersionFieldChange[];
 }
 
 export interface Project {
@@ -30,25 +95,67 @@ export interface Project {
   description?: string;
   createdAt: string; // ISO string from backend
   platforms: Platform[]; // For APK/IPA uploads
+  applicationId?: string; // Expected Android package name for uploads
+  bundleIdentifier?: string; // Expected iOS bundle identifier for uploads
   versions: AppVersion[];
-  // Fields for React Native bundle updates, if you integrate UI for them
-  rnPlatforms?: ("android" | "ios")[];
+  // Fields for React Native bundle updates
+  rnPlatforms?: BundlePlatform[];
   bundleUpdates?: BundleUpdate[];
+  members?: ProjectMember[];
+  currentUserRole?: ProjectRole; // The signed-in user's role, set by the backend
+}
+
+// Ordered from least to most privileged; each role includes the ones before it.
+export type ProjectRole = "viewer" | "uploader" | "release_manager" | "admin";
+
+export interface ProjectMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: ProjectRole;
+  addedAt?: string; // ISO string from backend
+}
+
+export type BundlePlatform = "android" | "ios";
+
+export type ProjectIdentifiers = Pick<
+  Project,
+  "applicationId" | "bundleIdentifier"
+>;
+
+// What the public install page needs, served without the full projects list.
+export interface VersionInstallInfo {
+  project: Pick<Project, "_id" | "name" | "description">;
+  version: AppVersion;
 }
 
 export interface BundleUpdate {
   // For React Native Hot Updates
   _id: string;
   bundleVersion: string;
-  platform: "android" | "ios";
+  platform: BundlePlatform;
   bundleUrl: string;
   bundleHash: string;
+  clientBundleHash?: string; // SHA-256 computed in the browser before upload
   fileName: string;
   fileSize: string;
   filePath: string;
   description?: string;
   isMandatory?: boolean;
   createdAt: string;
+  publishedAt?: string; // ISO string, bumped by the backend on re-publish
+  rolledBackAt?: string; // ISO string, set when replaced by a rollback
+}
+
+// Metadata read from an APK's AndroidManifest.xml or an IPA's Info.plist
+export interface BinaryMetadata {
+  platform: Platform;
+  packageId?: string; // Android package name or iOS bundle identifier
+  versionName?: string;
+  buildNumber?: string;
+  minOsVersion?: string; // Android minSdkVersion or iOS MinimumOSVersion
+  appName?: string;
+  iconDataUrl?: string;
 }
 
 export interface GoogleSearchWebResult {
@@ -63,3 +170,233 @@ export interface GroundingChunk {
     title: string;
   };
 }
+
+export interface BackendProfile {
+  id: string;
+  name: string;
+  baseUrl: string; // Including the /api prefix
+}
+
+export interface AuthUser {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+export interface AuthTokens {
+  accessToken: string; // Short-lived, sent as a Bearer token
+  refreshToken: string; // Exchanged for a new access token on 401
+}
+
+export interface AuthSession extends AuthTokens {
+  user: AuthUser;
+}
+
+// Server-side state of a chunked upload. Chunks are appended in order, so
+// `receivedBytes` is also the offset of the next chunk.
+export interface UploadSession {
+  _id: string;
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+  receivedBytes: number;
+}
+
+export type UploadTaskStatus =
+  | "hashing" // Computing the file's checksum before sending it
+  | "uploading"
+  | "processing" // All bytes sent, waiting for the backend to store the file
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface UploadTask {
+  id: string;
+  projectId: string;
+  label: string; // e.g. "My App Android 1.2.0 (42)"
+  fileName: string;
+  totalBytes: number;
+  uploadedBytes: number; // Bytes hashed so far while hashing
+  status: UploadTaskStatus;
+  error?: string;
+}
+
+export type ApiTokenScope = "upload" | "promote";
+
+// A project-scoped token for CI. The secret is only returned on creation.
+export interface ProjectApiToken {
+  _id: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  tokenPrefix: string; // First characters of the secret, to tell tokens apart
+  createdAt: string;
+  createdBy?: string;
+  lastUsedAt?: string;
+}
+
+export interface CreatedApiToken extends ProjectApiToken {
+  secret: string;
+}
+
+export type WebhookEvent =
+  | "version.created"
+  | "version.deleted"
+  | "environment.changed"
+  | "bundle.published"
+  | "project.deleted";
+
+export interface Webhook {
+  _id: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdAt: string;
+}
+
+// The signing secret is only returned when the webhook is created.
+export interface CreatedWebhook extends Webhook {
+  secret: string;
+}
+
+// JSON body POSTed to webhook URLs. The backend signs the raw body with the
+// webhook secret, see WEBHOOK_SIGNATURE_HEADER.
+export interface WebhookPayload {
+  id: string; // Same across redeliveries, for deduplication
+  event: WebhookEvent;
+  createdAt: string;
+  test?: boolean; // Set for events sent with "Send test event"
+  project: Project;
+  version?: AppVersion; // version.* and environment.changed
+  bundle?: BundleUpdate; // bundle.published
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  _id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempt: number; // 1 for the first delivery, incremented on retries
+  responseStatus?: number;
+  responseBody?: string; // Start of the receiver's response, truncated by the backend
+  error?: string; // Network error or timeout
+  durationMs?: number;
+  createdAt: string;
+  payload: WebhookPayload;
+}
+
+export type AuditAction =
+  | "project.created"
+  | "project.updated"
+  | "project.deleted"
+  | "member.added"
+  | "member.roleChanged"
+  | "member.removed"
+  | "version.uploaded"
+  | "version.deleted"
+  | "version.environmentsChanged"
+  | "version.environmentsTakenOver" // Another version took over its environments
+  | "version.rolloutChanged"
+  | "version.promoted"
+  | "version.rolledBack"
+  | "version.manifestPublished"
+  | "version.edited"
+  | "bundle.uploaded"
+  | "bundle.deleted"
+  | "bundle.republished"
+  | "bundle.rolledBack";
+
+// Written by the backend when a mutating endpoint succeeds, one entry per
+// affected version. The client only reads them.
+export interface AuditLogEntry {
+  _id: string;
+  actor: AuthUser; // Taken from the session by the backend
+  action: AuditAction;
+  projectId: string;
+  projectName: string; // Kept so entries stay readable after the project is deleted
+  versionId?: string;
+  bundleId?: string;
+  target?: string; // Human readable version, bundle or member, stored as text so it survives deletion
+  environmentsBefore?: DeploymentEnvironment[];
+  environmentsAfter?: DeploymentEnvironment[];
+  details?: string;
+  createdAt: string;
+}
+
+// Where a download was started. Download links carry it as `?source=` and the
+// backend counts the download when it serves the file, or the manifest.plist
+// for iOS installs.
+export type DownloadSource = "dashboard" | "installPage" | "qr";
+
+export interface DownloadCount {
+  key: string; // e.g. a DownloadSource, "Android" or "iOS 17.4"
+  downloads: number;
+}
+
+export interface VersionDownloadStats {
+  versionId: string;
+  downloads: number;
+  uniqueDevices: number; // Distinct devices as fingerprinted by the backend
+  lastDownloadedAt?: string;
+}
+
+export interface DailyDownloads {
+  date: string; // YYYY-MM-DD, UTC
+  downloads: number;
+  uniqueDevices: number;
+}
+
+export interface ProjectDownloadStats {
+  from: string; // ISO start of the range
+  to: string;
+  downloads: number;
+  uniqueDevices: number;
+  versions: VersionDownloadStats[];
+  daily: DailyDownloads[]; // Days without downloads may be missing
+  bySource: DownloadCount[];
+  byPlatform: DownloadCount[]; // OS family of the downloading device
+  byOsVersion: DownloadCount[];
+}
+
+export interface TopDownloadedVersion extends VersionDownloadStats {
+  projectId: string;
+  projectName: string;
+  platform: Platform;
+  versionName: string;
+  buildNumber: string;
+}
+
+// Release notes generated from a change log. They are edited as sections and
+// stored on the version as markdown.
+export interface StructuredReleaseNotes {
+  summary: string;
+  features: string[];
+  fixes: string[];
+  knownIssues: string[];
+}
+
+export type LlmProviderId = "gemini" | "openai" | "template";
+
+// Chosen under Settings and kept in this browser.
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string; // Not used by the template provider
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  apiKey: string; // OpenAI-compatible only, local servers usually need none
+}
+
+// Which provider and model wrote a version's release notes.
+export interface ReleaseNotesOrigin {
+  provider: LlmProviderId;
+  model: string;
+  generatedAt: string; // ISO string
+}
+
+export interface GeneratedReleaseNotes {
+  notes: StructuredReleaseNotes;
+  origin: ReleaseNotesOrigin;
+}
+
+// Markdown release notes keyed by locale, e.g. { en: "...", vi: "..." }
+export type LocalizedReleaseNotes = Record<string, string>;
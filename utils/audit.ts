@@ -0,0 +1,33 @@
+import { AUDIT_ACTIONS } from "../constants";
+import { AuditAction, AuditLogEntry } from "../types";
+
+export const getAuditActionLabel = (action: AuditAction): string =>
+  AUDIT_ACTIONS.find((a) => a.value === action)?.label || action;
+
+export interface AuditLogFilters {
+  projectId: string; // "" for all projects
+  action: AuditAction | "";
+  actorId: string; // "" for everyone
+  search: string;
+}
+
+/**
+ * Filters audit entries on the timeline's controls. The search matches the
+ * project, target, details and actor name case-insensitively.
+ */
+export const filterAuditLog = (
+  entries: AuditLogEntry[],
+  filters: AuditLogFilters
+): AuditLogEntry[] => {
+  const search = filters.search.trim().toLowerCase();
+  return entries.filter(
+    (entry) =>
+      (!filters.projectId || entry.projectId === filters.projectId) &&
+      (!filters.action || entry.action === filters.action) &&
+      (!filters.actorId || entry.actor._id === filters.actorId) &&
+      (!search ||
+        [entry.projectName, entry.target, entry.details, entry.actor.name].some(
+          (field) => field?.toLowerCase().includes(search)
+        ))
+  );
+};
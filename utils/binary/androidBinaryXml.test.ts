@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import { parseAndroidBinaryXml } from "./androidBinaryXml";
+
+// Little-endian chunk writer for the AXML fixture.
+class ChunkWriter {
+  private bytes: number[] = [];
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+    return this;
+  }
+
+  u16(value: number) {
+    return this.u8(value).u8(value >> 8);
+  }
+
+  u32(value: number) {
+    return this.u16(value & 0xffff).u16(value >>> 16);
+  }
+
+  raw(values: ArrayLike<number>) {
+    this.bytes.push(...Array.from(values));
+    return this;
+  }
+
+  get length() {
+    return this.bytes.length;
+  }
+
+  toArray() {
+    return this.bytes;
+  }
+}
+
+const chunk = (type: number, headerSize: number, body: number[]) =>
+  new ChunkWriter()
+    .u16(type)
+    .u16(headerSize)
+    .u32(8 + body.length)
+    .raw(body)
+    .toArray();
+
+const stringPool = (strings: string[], utf8: boolean) => {
+  const data = new ChunkWriter();
+  const offsets = strings.map((text) => {
+    const offset = data.length;
+    if (utf8) {
+      const bytes = new TextEncoder().encode(text);
+      data.u8(text.length).u8(bytes.length).raw(bytes).u8(0);
+    } else {
+      data.u16(text.length);
+      for (const char of text) data.u16(char.charCodeAt(0));
+      data.u16(0);
+    }
+    return offset;
+  });
+  while (data.length % 4) data.u8(0);
+
+  const header = 28;
+  const body = new ChunkWriter()
+    .u32(strings.length)
+    .u32(0) // Style count
+    .u32(utf8 ? 1 << 8 : 0)
+    .u32(header + strings.length * 4) // Strings start
+    .u32(0); // Styles start
+  offsets.forEach((offset) => body.u32(offset));
+  return chunk(0x0001, header, [...body.toArray(), ...data.toArray()]);
+};
+
+const NO_INDEX = 0xffffffff;
+
+interface FixtureAttribute {
+  name: number;
+  raw?: number; // String index of the raw value
+  type: number;
+  data: number;
+}
+
+const startElement = (name: number, attributes: FixtureAttribute[]) => {
+  const body = new ChunkWriter()
+    .u32(0) // Line number
+    .u32(NO_INDEX) // Comment
+    .u32(NO_INDEX) // Namespace
+    .u32(name)
+    .u16(20) // Attribute start
+    .u16(20) // Attribute size
+    .u16(attributes.length)
+    .u16(0)
+    .u16(0)
+    .u16(0);
+  for (const { name, raw = NO_INDEX, type, data } of attributes) {
+    body.u32(NO_INDEX).u32(name).u32(raw).u16(8).u8(0).u8(type).u32(data);
+  }
+  return chunk(0x0102, 16, body.toArray());
+};
+
+const endElement = (name: number) =>
+  chunk(
+    0x0103,
+    16,
+    new ChunkWriter().u32(0).u32(NO_INDEX).u32(NO_INDEX).u32(name).toArray()
+  );
+
+// String 0 has been stripped by a shrinker, so only the resource map names
+// it.
+const STRINGS = [
+  "",
+  "versionName",
+  "manifest",
+  "package",
+  "com.example.app",
+  "1.2.0",
+  "uses-sdk",
+  "minSdkVersion",
+  "application",
+  "label",
+  "debuggable",
+];
+
+const buildManifest = (utf8: boolean) => {
+  const body = [
+    ...stringPool(STRINGS, utf8),
+    ...chunk(
+      0x0180,
+      8,
+      new ChunkWriter().u32(0x0101021b).u32(0x0101021c).toArray()
+    ),
+    ...startElement(2, [
+      { name: 3, raw: 4, type: 0x03, data: 4 },
+      { name: 0, type: 0x10, data: 42 },
+      { name: 1, raw: 5, type: 0x03, data: 5 },
+    ]),
+    ...startElement(6, [{ name: 7, type: 0x10, data: 21 }]),
+    ...endElement(6),
+    ...startElement(8, [
+      { name: 9, type: 0x01, data: 0x7f010000 },
+      { name: 10, type: 0x12, data: 0xffffffff },
+    ]),
+    ...endElement(8),
+    ...endElement(2),
+  ];
+  return Uint8Array.from(chunk(0x0003, 8, body));
+};
+
+const MANIFEST = {
+  name: "manifest",
+  attributes: {
+    package: "com.example.app",
+    versionCode: 42,
+    versionName: "1.2.0",
+  },
+  children: [
+    { name: "uses-sdk", attributes: { minSdkVersion: 21 }, children: [] },
+    {
+      name: "application",
+      attributes: { label: "@0x7f010000", debuggable: true },
+      children: [],
+    },
+  ],
+};
+
+describe("parseAndroidBinaryXml", () => {
+  it.each([
+    ["UTF-8", true],
+    ["UTF-16", false],
+  ])("parses a manifest with a %s string pool", (_, utf8) => {
+    expect(parseAndroidBinaryXml(buildManifest(utf8))).toEqual(MANIFEST);
+  });
+
+  it("rejects data that is not binary XML", () => {
+    expect(() =>
+      parseAndroidBinaryXml(new TextEncoder().encode("<manifest/>"))
+    ).toThrow("Not an Android binary XML document.");
+  });
+
+  it("rejects documents without elements", () => {
+    const empty = Uint8Array.from(
+      chunk(0x0003, 8, stringPool(["manifest"], true))
+    );
+
+    expect(() => parseAndroidBinaryXml(empty)).toThrow(
+      "Binary XML document has no root element."
+    );
+  });
+});
@@ -0,0 +1,182 @@
+// Parser for Android's compiled binary XML (AXML), the format aapt uses for
+// AndroidManifest.xml inside an APK.
+
+export type BinaryXmlValue = string | number | boolean;
+
+export interface BinaryXmlElement {
+  name: string;
+  attributes: Record<string, BinaryXmlValue>;
+  children: BinaryXmlElement[];
+}
+
+const RES_XML_TYPE = 0x0003;
+const RES_STRING_POOL_TYPE = 0x0001;
+const RES_XML_RESOURCE_MAP_TYPE = 0x0180;
+const RES_XML_START_ELEMENT_TYPE = 0x0102;
+const RES_XML_END_ELEMENT_TYPE = 0x0103;
+
+const UTF8_FLAG = 1 << 8;
+const NO_INDEX = 0xffffffff;
+
+const TYPE_REFERENCE = 0x01;
+const TYPE_STRING = 0x03;
+const TYPE_INT_DEC = 0x10;
+const TYPE_INT_HEX = 0x11;
+const TYPE_INT_BOOLEAN = 0x12;
+
+// Framework attribute ids, used when a shrinker has stripped attribute names
+// from the string pool and only the resource map identifies them.
+const ANDROID_ATTRIBUTE_NAMES: Record<number, string> = {
+  0x01010001: "label",
+  0x01010002: "icon",
+  0x0101020c: "minSdkVersion",
+  0x01010270: "targetSdkVersion",
+  0x0101021b: "versionCode",
+  0x0101021c: "versionName",
+};
+
+const utf8Decoder = new TextDecoder("utf-8");
+const utf16Decoder = new TextDecoder("utf-16le");
+
+const readStringPool = (view: DataView, chunkStart: number): string[] => {
+  const headerSize = view.getUint16(chunkStart + 2, true);
+  const stringCount = view.getUint32(chunkStart + 8, true);
+  const flags = view.getUint32(chunkStart + 16, true);
+  const stringsStart = chunkStart + view.getUint32(chunkStart + 20, true);
+  const isUtf8 = (flags & UTF8_FLAG) !== 0;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset);
+
+  const strings: string[] = [];
+  for (let i = 0; i < stringCount; i++) {
+    let offset =
+      stringsStart + view.getUint32(chunkStart + headerSize + i * 4, true);
+    if (isUtf8) {
+      // UTF-16 length first (skipped), then the UTF-8 byte length.
+      offset += view.getUint8(offset) & 0x80 ? 2 : 1;
+      let byteLength = view.getUint8(offset);
+      if (byteLength & 0x80) {
+        byteLength = ((byteLength & 0x7f) << 8) | view.getUint8(offset + 1);
+        offset += 2;
+      } else {
+        offset += 1;
+      }
+      strings.push(
+        utf8Decoder.decode(bytes.subarray(offset, offset + byteLength))
+      );
+    } else {
+      let charLength = view.getUint16(offset, true);
+      if (charLength & 0x8000) {
+        charLength =
+          ((charLength & 0x7fff) << 16) | view.getUint16(offset + 2, true);
+        offset += 4;
+      } else {
+        offset += 2;
+      }
+      strings.push(
+        utf16Decoder.decode(bytes.subarray(offset, offset + charLength * 2))
+      );
+    }
+  }
+  return strings;
+};
+
+/**
+ * Parses a compiled Android binary XML document into an element tree.
+ * Reference values (e.g. @string/app_name) cannot be resolved without
+ * resources.arsc and are returned as "@0x7f..." strings.
+ * @param data The raw AXML bytes.
+ * @returns The root element.
+ * @throws Error if the data is not binary XML.
+ */
+export const parseAndroidBinaryXml = (data: Uint8Array): BinaryXmlElement => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.getUint16(0, true) !== RES_XML_TYPE) {
+    throw new Error("Not an Android binary XML document.");
+  }
+
+  let strings: string[] = [];
+  let resourceIds: number[] = [];
+  const root: BinaryXmlElement = { name: "", attributes: {}, children: [] };
+  const stack: BinaryXmlElement[] = [root];
+
+  let offset = view.getUint16(2, true);
+  while (offset + 8 <= view.byteLength) {
+    const chunkType = view.getUint16(offset, true);
+    const chunkHeaderSize = view.getUint16(offset + 2, true);
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (chunkSize === 0) break;
+
+    switch (chunkType) {
+      case RES_STRING_POOL_TYPE:
+        strings = readStringPool(view, offset);
+        break;
+      case RES_XML_RESOURCE_MAP_TYPE:
+        resourceIds = [];
+        for (let i = offset + chunkHeaderSize; i < offset + chunkSize; i += 4) {
+          resourceIds.push(view.getUint32(i, true));
+        }
+        break;
+      case RES_XML_START_ELEMENT_TYPE: {
+        const ext = offset + chunkHeaderSize;
+        const element: BinaryXmlElement = {
+          name: strings[view.getUint32(ext + 4, true)] || "",
+          attributes: {},
+          children: [],
+        };
+        const attributeStart = view.getUint16(ext + 8, true);
+        const attributeSize = view.getUint16(ext + 10, true);
+        const attributeCount = view.getUint16(ext + 12, true);
+        for (let i = 0; i < attributeCount; i++) {
+          const attr = ext + attributeStart + i * attributeSize;
+          const nameIndex = view.getUint32(attr + 4, true);
+          const rawValue = view.getUint32(attr + 8, true);
+          const dataType = view.getUint8(attr + 15);
+          const dataValue = view.getUint32(attr + 16, true);
+          const name =
+            strings[nameIndex] ||
+            ANDROID_ATTRIBUTE_NAMES[resourceIds[nameIndex]] ||
+            `attr${nameIndex}`;
+
+          let value: BinaryXmlValue;
+          if (rawValue !== NO_INDEX) {
+            value = strings[rawValue];
+          } else {
+            switch (dataType) {
+              case TYPE_STRING:
+                value = strings[dataValue];
+                break;
+              case TYPE_INT_DEC:
+              case TYPE_INT_HEX:
+                value = dataValue | 0;
+                break;
+              case TYPE_INT_BOOLEAN:
+                value = dataValue !== 0;
+                break;
+              case TYPE_REFERENCE:
+                value = `@0x${dataValue.toString(16).padStart(8, "0")}`;
+                break;
+              default:
+                value = dataValue;
+            }
+          }
+          element.attributes[name] = value;
+        }
+        stack[stack.length - 1].children.push(element);
+        stack.push(element);
+        break;
+      }
+      case RES_XML_END_ELEMENT_TYPE:
+        if (stack.length > 1) stack.pop();
+        break;
+      default:
+        // Namespace and CDATA chunks carry nothing we need.
+        break;
+    }
+    offset += chunkSize;
+  }
+
+  if (root.children.length === 0) {
+    throw new Error("Binary XML document has no root element.");
+  }
+  return root.children[0];
+};
@@ -0,0 +1,131 @@
+// @vitest-environment jsdom
+// XML property lists are read with DOMParser, which only a DOM provides.
+import { describe, expect, it } from "vitest";
+import { parsePlist } from "./plist";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const XML_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>CFBundleIdentifier</key>
+  <string>com.example.app</string>
+  <key>CFBundleShortVersionString</key>
+  <string>1.2.0</string>
+  <key>CFBundleVersion</key>
+  <string>42</string>
+  <key>MinimumOSVersion</key>
+  <real>15.5</real>
+  <key>UIDeviceFamily</key>
+  <array>
+    <integer>1</integer>
+    <integer>2</integer>
+  </array>
+  <key>UIRequiresFullScreen</key>
+  <true/>
+  <key>ITSAppUsesNonExemptEncryption</key>
+  <false/>
+  <key>BuildDate</key>
+  <date>2024-01-01T00:00:00Z</date>
+  <key>Icon</key>
+  <data>AQID</data>
+</dict>
+</plist>`;
+
+// Binary plist objects, encoded with one-byte object references.
+const ascii = (text: string) => {
+  const bytes = [...encode(text)];
+  return bytes.length < 15
+    ? [0x50 | bytes.length, ...bytes]
+    : [0x5f, 0x10, bytes.length, ...bytes];
+};
+const utf16 = (text: string) => [
+  0x60 | text.length,
+  ...[...text].flatMap((char) => [
+    char.charCodeAt(0) >> 8,
+    char.charCodeAt(0) & 0xff,
+  ]),
+];
+const uint16 = (value: number) => [0x11, value >> 8, value & 0xff];
+const array = (refs: number[]) => [0xa0 | refs.length, ...refs];
+const dict = (keyRefs: number[], valueRefs: number[]) => [
+  0xd0 | keyRefs.length,
+  ...keyRefs,
+  ...valueRefs,
+];
+
+// Lays out "bplist00", the objects, a one-byte offset table and the trailer,
+// with the first object as the root.
+const buildBinaryPlist = (objects: number[][]): Uint8Array => {
+  const bytes = [...encode("bplist00")];
+  const offsets = objects.map((object) => {
+    const offset = bytes.length;
+    bytes.push(...object);
+    return offset;
+  });
+  const offsetTableOffset = bytes.length;
+  bytes.push(...offsets);
+  const trailer = new DataView(new ArrayBuffer(32));
+  trailer.setUint8(6, 1); // Offset size
+  trailer.setUint8(7, 1); // Object reference size
+  trailer.setUint32(12, objects.length);
+  trailer.setUint32(20, 0); // Root object
+  trailer.setUint32(28, offsetTableOffset);
+  return Uint8Array.from([...bytes, ...new Uint8Array(trailer.buffer)]);
+};
+
+const BINARY_PLIST = buildBinaryPlist([
+  dict([1, 3, 5, 7, 9], [2, 4, 6, 8, 10]),
+  ascii("CFBundleIdentifier"),
+  ascii("com.example.app"),
+  ascii("CFBundleDisplayName"),
+  utf16("Café"),
+  ascii("CFBundleVersion"),
+  ascii("42"),
+  ascii("BuildCount"),
+  uint16(300),
+  ascii("UIDeviceFamily"),
+  array([11, 12]),
+  [0x10, 1],
+  [0x09],
+]);
+
+describe("parsePlist", () => {
+  it("parses XML property lists", () => {
+    expect(parsePlist(encode(XML_PLIST))).toEqual({
+      CFBundleIdentifier: "com.example.app",
+      CFBundleShortVersionString: "1.2.0",
+      CFBundleVersion: "42",
+      MinimumOSVersion: 15.5,
+      UIDeviceFamily: [1, 2],
+      UIRequiresFullScreen: true,
+      ITSAppUsesNonExemptEncryption: false,
+      BuildDate: new Date("2024-01-01T00:00:00Z"),
+      Icon: Uint8Array.from([1, 2, 3]),
+    });
+  });
+
+  it("rejects malformed XML", () => {
+    expect(() => parsePlist(encode("<plist><dict><key>A</dict>"))).toThrow(
+      "Invalid XML property list."
+    );
+  });
+
+  it("parses binary property lists", () => {
+    expect(parsePlist(BINARY_PLIST)).toEqual({
+      CFBundleIdentifier: "com.example.app",
+      CFBundleDisplayName: "Café",
+      CFBundleVersion: "42",
+      BuildCount: 300,
+      UIDeviceFamily: [1, true],
+    });
+  });
+
+  it("rejects unsupported binary object types", () => {
+    // 0x7 is not assigned to any object type.
+    expect(() => parsePlist(buildBinaryPlist([[0x70]]))).toThrow(
+      "Unsupported binary property list object type 0x7."
+    );
+  });
+});
@@ -0,0 +1,192 @@
+// Property list reader supporting both the XML and the binary ("bplist00")
+// encodings, which are the two forms Info.plist takes inside an IPA.
+
+export type PlistValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | Uint8Array
+  | null
+  | PlistValue[]
+  | { [key: string]: PlistValue };
+
+const BINARY_PLIST_MAGIC = "bplist00";
+
+const parseXmlNode = (node: Element): PlistValue => {
+  switch (node.tagName) {
+    case "dict": {
+      const result: { [key: string]: PlistValue } = {};
+      const children = Array.from(node.children);
+      for (let i = 0; i < children.length - 1; i += 2) {
+        result[children[i].textContent || ""] = parseXmlNode(children[i + 1]);
+      }
+      return result;
+    }
+    case "array":
+      return Array.from(node.children).map(parseXmlNode);
+    case "string":
+      return node.textContent || "";
+    case "integer":
+    case "real":
+      return Number(node.textContent);
+    case "true":
+      return true;
+    case "false":
+      return false;
+    case "date":
+      return new Date(node.textContent || "");
+    case "data": {
+      const binary = atob((node.textContent || "").replace(/\s+/g, ""));
+      return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    }
+    default:
+      return null;
+  }
+};
+
+const parseXmlPlist = (text: string): PlistValue => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid XML property list.");
+  }
+  const rootValue = doc.documentElement.firstElementChild;
+  if (!rootValue) {
+    throw new Error("Property list is empty.");
+  }
+  return parseXmlNode(rootValue);
+};
+
+const readSizedUint = (view: DataView, offset: number, size: number) => {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + view.getUint8(offset + i);
+  }
+  return value;
+};
+
+const parseBinaryPlist = (data: Uint8Array): PlistValue => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const trailer = data.byteLength - 32;
+  const offsetSize = view.getUint8(trailer + 6);
+  const objectRefSize = view.getUint8(trailer + 7);
+  const objectCount = readSizedUint(view, trailer + 8, 8);
+  const topObject = readSizedUint(view, trailer + 16, 8);
+  const offsetTableOffset = readSizedUint(view, trailer + 24, 8);
+
+  const objectOffsets: number[] = [];
+  for (let i = 0; i < objectCount; i++) {
+    objectOffsets.push(
+      readSizedUint(view, offsetTableOffset + i * offsetSize, offsetSize)
+    );
+  }
+
+  const parseObject = (ref: number, depth: number): PlistValue => {
+    if (depth > 64) {
+      throw new Error("Binary property list nesting is too deep.");
+    }
+    let offset = objectOffsets[ref];
+    const marker = view.getUint8(offset);
+    const type = marker >> 4;
+    const info = marker & 0x0f;
+
+    // Containers and strings store their length in the low nibble, or as a
+    // following int object when it does not fit.
+    const readLength = (): number => {
+      if (info !== 0x0f) {
+        offset += 1;
+        return info;
+      }
+      const intSize = 1 << (view.getUint8(offset + 1) & 0x0f);
+      const length = readSizedUint(view, offset + 2, intSize);
+      offset += 2 + intSize;
+      return length;
+    };
+
+    switch (type) {
+      case 0x0:
+        return info === 0x09 ? true : info === 0x08 ? false : null;
+      case 0x1:
+        return readSizedUint(view, offset + 1, 1 << info);
+      case 0x2:
+        return info === 2
+          ? view.getFloat32(offset + 1)
+          : view.getFloat64(offset + 1);
+      case 0x3:
+        // Seconds since 2001-01-01T00:00:00Z.
+        return new Date((978307200 + view.getFloat64(offset + 1)) * 1000);
+      case 0x4: {
+        const length = readLength();
+        return data.slice(offset, offset + length);
+      }
+      case 0x5: {
+        const length = readLength();
+        return new TextDecoder("ascii").decode(
+          data.subarray(offset, offset + length)
+        );
+      }
+      case 0x6: {
+        const length = readLength();
+        return new TextDecoder("utf-16be").decode(
+          data.subarray(offset, offset + length * 2)
+        );
+      }
+      case 0x8:
+        return readSizedUint(view, offset + 1, info + 1);
+      case 0xa: {
+        const length = readLength();
+        const items: PlistValue[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(
+            parseObject(
+              readSizedUint(view, offset + i * objectRefSize, objectRefSize),
+              depth + 1
+            )
+          );
+        }
+        return items;
+      }
+      case 0xd: {
+        const length = readLength();
+        const result: { [key: string]: PlistValue } = {};
+        for (let i = 0; i < length; i++) {
+          const keyRef = readSizedUint(
+            view,
+            offset + i * objectRefSize,
+            objectRefSize
+          );
+          const valueRef = readSizedUint(
+            view,
+            offset + (length + i) * objectRefSize,
+            objectRefSize
+          );
+          result[String(parseObject(keyRef, depth + 1))] = parseObject(
+            valueRef,
+            depth + 1
+          );
+        }
+        return result;
+      }
+      default:
+        throw new Error(
+          `Unsupported binary property list object type 0x${type.toString(16)}.`
+        );
+    }
+  };
+
+  return parseObject(topObject, 0);
+};
+
+/**
+ * Parses a property list in either XML or binary encoding.
+ * @param data The raw plist bytes.
+ * @returns The decoded root value (usually a dictionary).
+ * @throws Error if the plist cannot be decoded.
+ */
+export const parsePlist = (data: Uint8Array): PlistValue => {
+  const magic = new TextDecoder("ascii").decode(data.subarray(0, 8));
+  if (magic === BINARY_PLIST_MAGIC) {
+    return parseBinaryPlist(data);
+  }
+  return parseXmlPlist(new TextDecoder("utf-8").decode(data));
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { readZipEntries, readZipEntry } from "./zip";
+
+interface FixtureEntry {
+  name: string;
+  data: Uint8Array;
+  method?: number; // 0 stored, 8 deflated
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const deflateRaw = async (data: Uint8Array) =>
+  new Uint8Array(
+    await new Response(
+      new Blob([data])
+        .stream()
+        .pipeThrough(new CompressionStream("deflate-raw"))
+    ).arrayBuffer()
+  );
+
+// Builds an archive in memory with local headers, a central directory and an
+// end of central directory record. CRCs are left at zero; the reader does not
+// check them.
+const buildZip = async (entries: FixtureEntry[]): Promise<Blob> => {
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { name, data, method = 0 } of entries) {
+    const nameBytes = encode(name);
+    const body = method === 8 ? await deflateRaw(data) : data;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, method, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    parts.push(new Uint8Array(local.buffer), nameBytes, body);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, method, true);
+    central.setUint32(20, body.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    directory.push(new Uint8Array(central.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + body.length;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(8, entries.length, true);
+  eocd.setUint16(10, entries.length, true);
+  eocd.setUint32(12, directorySize, true);
+  eocd.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, new Uint8Array(eocd.buffer)]);
+};
+
+const MANIFEST = encode("<manifest package='com.example.app'/>".repeat(20));
+const INFO_PLIST = encode("bplist00 stored as is");
+
+describe("readZipEntries", () => {
+  it("lists the files of the archive and skips directories", async () => {
+    const zip = await buildZip([
+      { name: "Payload/", data: new Uint8Array() },
+      { name: "Payload/App.app/Info.plist", data: INFO_PLIST },
+      { name: "AndroidManifest.xml", data: MANIFEST, method: 8 },
+    ]);
+
+    const entries = await readZipEntries(zip);
+
+    expect(
+      entries.map(({ name, compressionMethod }) => [name, compressionMethod])
+    ).toEqual([
+      ["Payload/App.app/Info.plist", 0],
+      ["AndroidManifest.xml", 8],
+    ]);
+    expect(entries[1].uncompressedSize).toBe(MANIFEST.length);
+    expect(entries[1].compressedSize).toBeLessThan(MANIFEST.length);
+  });
+
+  it("rejects files that are not ZIP archives", async () => {
+    await expect(
+      readZipEntries(new Blob([encode("not a zip archive at all")]))
+    ).rejects.toThrow("Not a valid ZIP archive");
+  });
+});
+
+describe("readZipEntry", () => {
+  it("reads stored and deflated entries", async () => {
+    const zip = await buildZip([
+      { name: "Info.plist", data: INFO_PLIST },
+      { name: "AndroidManifest.xml", data: MANIFEST, method: 8 },
+    ]);
+    const [stored, deflated] = await readZipEntries(zip);
+
+    await expect(readZipEntry(zip, stored)).resolves.toEqual(INFO_PLIST);
+    await expect(readZipEntry(zip, deflated)).resolves.toEqual(MANIFEST);
+  });
+
+  it("rejects unsupported compression methods", async () => {
+    const zip = await buildZip([
+      { name: "classes.dex", data: encode("dex"), method: 12 },
+    ]);
+    const [entry] = await readZipEntries(zip);
+
+    await expect(readZipEntry(zip, entry)).rejects.toThrow(
+      "Unsupported ZIP compression method 12 for classes.dex."
+    );
+  });
+});
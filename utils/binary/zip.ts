@@ -0,0 +1,182 @@
+// Minimal read-only ZIP reader for APK/IPA archives. Only the central directory
+// and the requested entries are read from disk, so large binaries are never
+// loaded into memory as a whole.
+
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const UINT32_MAX = 0xffffffff;
+
+// EOCD record (22 bytes) plus the maximum comment length.
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+const readSlice = async (
+  file: Blob,
+  start: number,
+  end: number
+): Promise<DataView> =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+const getUint64 = (view: DataView, offset: number): number =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+
+const textDecoder = new TextDecoder("utf-8");
+
+const findEndOfCentralDirectory = async (
+  file: Blob
+): Promise<{ view: DataView; offset: number; fileOffset: number }> => {
+  const searchStart = Math.max(0, file.size - MAX_EOCD_SEARCH);
+  const view = await readSlice(file, searchStart, file.size);
+  for (let offset = view.byteLength - 22; offset >= 0; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      return { view, offset, fileOffset: searchStart + offset };
+    }
+  }
+  throw new Error(
+    "Not a valid ZIP archive (end of central directory missing)."
+  );
+};
+
+/**
+ * Lists the entries of a ZIP archive by reading its central directory.
+ * @param file The archive to read.
+ * @returns All file entries in central directory order.
+ * @throws Error if the archive structure cannot be parsed.
+ */
+export const readZipEntries = async (file: Blob): Promise<ZipEntry[]> => {
+  const eocd = await findEndOfCentralDirectory(file);
+  let entryCount = eocd.view.getUint16(eocd.offset + 10, true);
+  let directorySize = eocd.view.getUint32(eocd.offset + 12, true);
+  let directoryOffset = eocd.view.getUint32(eocd.offset + 16, true);
+
+  if (directoryOffset === UINT32_MAX || directorySize === UINT32_MAX) {
+    const locator = await readSlice(
+      file,
+      eocd.fileOffset - 20,
+      eocd.fileOffset
+    );
+    if (locator.getUint32(0, true) !== ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      throw new Error("ZIP64 archive is missing its end of central directory.");
+    }
+    const zip64Offset = getUint64(locator, 8);
+    const zip64 = await readSlice(file, zip64Offset, zip64Offset + 56);
+    if (zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error("Invalid ZIP64 end of central directory record.");
+    }
+    entryCount = getUint64(zip64, 32);
+    directorySize = getUint64(zip64, 40);
+    directoryOffset = getUint64(zip64, 48);
+  }
+
+  const directory = await readSlice(
+    file,
+    directoryOffset,
+    directoryOffset + directorySize
+  );
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error("Corrupt ZIP central directory.");
+    }
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const name = textDecoder.decode(
+      new Uint8Array(
+        directory.buffer,
+        directory.byteOffset + offset + 46,
+        nameLength
+      )
+    );
+    const entry: ZipEntry = {
+      name,
+      compressionMethod: directory.getUint16(offset + 10, true),
+      compressedSize: directory.getUint32(offset + 20, true),
+      uncompressedSize: directory.getUint32(offset + 24, true),
+      localHeaderOffset: directory.getUint32(offset + 42, true),
+    };
+
+    // ZIP64 extra field only carries the values that overflowed, in order.
+    let extraOffset = offset + 46 + nameLength;
+    const extraEnd = extraOffset + extraLength;
+    while (extraOffset + 4 <= extraEnd) {
+      const fieldId = directory.getUint16(extraOffset, true);
+      const fieldSize = directory.getUint16(extraOffset + 2, true);
+      if (fieldId === ZIP64_EXTRA_FIELD_ID) {
+        let valueOffset = extraOffset + 4;
+        if (entry.uncompressedSize === UINT32_MAX) {
+          entry.uncompressedSize = getUint64(directory, valueOffset);
+          valueOffset += 8;
+        }
+        if (entry.compressedSize === UINT32_MAX) {
+          entry.compressedSize = getUint64(directory, valueOffset);
+          valueOffset += 8;
+        }
+        if (entry.localHeaderOffset === UINT32_MAX) {
+          entry.localHeaderOffset = getUint64(directory, valueOffset);
+        }
+      }
+      extraOffset += 4 + fieldSize;
+    }
+
+    if (!name.endsWith("/")) {
+      entries.push(entry);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+/**
+ * Reads and decompresses a single ZIP entry.
+ * Supports stored (0) and deflated (8) entries, which covers APK and IPA files.
+ * @param file The archive the entry belongs to.
+ * @param entry An entry returned by readZipEntries.
+ * @returns The uncompressed entry contents.
+ */
+export const readZipEntry = async (
+  file: Blob,
+  entry: ZipEntry
+): Promise<Uint8Array> => {
+  const header = await readSlice(
+    file,
+    entry.localHeaderOffset,
+    entry.localHeaderOffset + 30
+  );
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP local header for ${entry.name}.`);
+  }
+  const dataStart =
+    entry.localHeaderOffset +
+    30 +
+    header.getUint16(26, true) +
+    header.getUint16(28, true);
+  const compressed = file.slice(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.compressionMethod) {
+    case 0:
+      return new Uint8Array(await compressed.arrayBuffer());
+    case 8: {
+      const stream = compressed
+        .stream()
+        .pipeThrough(new DecompressionStream("deflate-raw"));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    default:
+      throw new Error(
+        `Unsupported ZIP compression method ${entry.compressionMethod} for ${entry.name}.`
+      );
+  }
+};
@@ -0,0 +1,203 @@
+import { BinaryMetadata, Platform, Project } from "../types";
+import { readZipEntries, readZipEntry, ZipEntry } from "./binary/zip";
+import { parseAndroidBinaryXml } from "./binary/androidBinaryXml";
+import { parsePlist, PlistValue } from "./binary/plist";
+
+type PlistDict = { [key: string]: PlistValue };
+
+const ANDROID_DENSITY_RANK = [
+  "xxxhdpi",
+  "xxhdpi",
+  "xhdpi",
+  "hdpi",
+  "mdpi",
+  "ldpi",
+];
+
+const INFO_PLIST_PATTERN = /^Payload\/[^/]+\.app\/Info\.plist$/;
+const ANDROID_LAUNCHER_ICON_PATTERN =
+  /^res\/(mipmap|drawable)[^/]*\/ic_launcher(_round)?\.(png|webp)$/;
+
+/**
+ * Infers the binary platform from a file name's extension.
+ * @returns The platform, or null if the extension is not .apk or .ipa.
+ */
+export const inferPlatformFromFileName = (
+  fileName: string
+): Platform | null => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith(".apk")) return Platform.Android;
+  if (lowerName.endsWith(".ipa")) return Platform.iOS;
+  return null;
+};
+
+const toDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const asString = (value: PlistValue | undefined): string | undefined =>
+  typeof value === "string" || typeof value === "number"
+    ? String(value)
+    : undefined;
+
+// Values that point into resources.arsc cannot be resolved here.
+const asResolvedString = (value: unknown): string | undefined =>
+  value === undefined || (typeof value === "string" && value.startsWith("@"))
+    ? undefined
+    : String(value);
+
+const findAndroidIcon = (entries: ZipEntry[]): ZipEntry | undefined => {
+  const densityRank = (name: string) => {
+    const index = ANDROID_DENSITY_RANK.findIndex((density) =>
+      name.includes(`-${density}`)
+    );
+    return index === -1 ? ANDROID_DENSITY_RANK.length : index;
+  };
+  return entries
+    .filter((entry) => ANDROID_LAUNCHER_ICON_PATTERN.test(entry.name))
+    .sort((a, b) => densityRank(a.name) - densityRank(b.name))[0];
+};
+
+const extractApkMetadata = async (file: File): Promise<BinaryMetadata> => {
+  const entries = await readZipEntries(file);
+  const manifestEntry = entries.find(
+    (entry) => entry.name === "AndroidManifest.xml"
+  );
+  if (!manifestEntry) {
+    throw new Error("AndroidManifest.xml not found in APK.");
+  }
+  const manifest = parseAndroidBinaryXml(
+    await readZipEntry(file, manifestEntry)
+  );
+  const usesSdk = manifest.children.find((child) => child.name === "uses-sdk");
+  const application = manifest.children.find(
+    (child) => child.name === "application"
+  );
+
+  const metadata: BinaryMetadata = {
+    platform: Platform.Android,
+    packageId: asResolvedString(manifest.attributes.package),
+    versionName: asResolvedString(manifest.attributes.versionName),
+    buildNumber: asResolvedString(manifest.attributes.versionCode),
+    minOsVersion: asResolvedString(usesSdk?.attributes.minSdkVersion),
+    appName: asResolvedString(application?.attributes.label),
+  };
+
+  const iconEntry = findAndroidIcon(entries);
+  if (iconEntry) {
+    const mimeType = iconEntry.name.endsWith(".webp")
+      ? "image/webp"
+      : "image/png";
+    metadata.iconDataUrl = toDataUrl(
+      await readZipEntry(file, iconEntry),
+      mimeType
+    );
+  }
+  return metadata;
+};
+
+// Xcode "crushes" PNGs into Apple's CgBI variant, which browsers cannot
+// display, so those icons are skipped.
+const isDisplayablePng = (bytes: Uint8Array): boolean =>
+  new TextDecoder("ascii").decode(bytes.subarray(12, 16)) !== "CgBI";
+
+const findIosIconNames = (info: PlistDict): string[] => {
+  const icons = info.CFBundleIcons as PlistDict | undefined;
+  const primaryIcon = icons?.CFBundlePrimaryIcon as PlistDict | undefined;
+  const iconFiles =
+    (primaryIcon?.CFBundleIconFiles as PlistValue[] | undefined) ||
+    (info.CFBundleIconFiles as PlistValue[] | undefined) ||
+    [];
+  return iconFiles.filter((name): name is string => typeof name === "string");
+};
+
+const extractIpaMetadata = async (file: File): Promise<BinaryMetadata> => {
+  const entries = await readZipEntries(file);
+  const infoEntry = entries.find((entry) =>
+    INFO_PLIST_PATTERN.test(entry.name)
+  );
+  if (!infoEntry) {
+    throw new Error("Info.plist not found in IPA.");
+  }
+  const info = parsePlist(await readZipEntry(file, infoEntry));
+  if (!info || typeof info !== "object" || Array.isArray(info)) {
+    throw new Error("Info.plist does not contain a dictionary.");
+  }
+  const infoDict = info as PlistDict;
+
+  const metadata: BinaryMetadata = {
+    platform: Platform.iOS,
+    packageId: asString(infoDict.CFBundleIdentifier),
+    versionName: asString(infoDict.CFBundleShortVersionString),
+    buildNumber: asString(infoDict.CFBundleVersion),
+    minOsVersion: asString(infoDict.MinimumOSVersion),
+    appName:
+      asString(infoDict.CFBundleDisplayName) || asString(infoDict.CFBundleName),
+  };
+
+  const appDirectory = infoEntry.name.replace(/Info\.plist$/, "");
+  const iconNames = findIosIconNames(infoDict);
+  const iconEntry = entries
+    .filter(
+      (entry) =>
+        entry.name.startsWith(appDirectory) &&
+        entry.name.endsWith(".png") &&
+        iconNames.some((name) =>
+          entry.name.slice(appDirectory.length).startsWith(name)
+        )
+    )
+    .sort((a, b) => b.uncompressedSize - a.uncompressedSize)[0];
+  if (iconEntry) {
+    const iconBytes = await readZipEntry(file, iconEntry);
+    if (isDisplayablePng(iconBytes)) {
+      metadata.iconDataUrl = toDataUrl(iconBytes, "image/png");
+    }
+  }
+  return metadata;
+};
+
+/**
+ * Reads version and identity metadata from an APK or IPA in the browser.
+ * @param file The selected binary.
+ * @returns The metadata found in the manifest / Info.plist.
+ * @throws Error if the file type is unsupported or the binary cannot be read.
+ */
+export const extractBinaryMetadata = async (
+  file: File
+): Promise<BinaryMetadata> => {
+  switch (inferPlatformFromFileName(file.name)) {
+    case Platform.Android:
+      return extractApkMetadata(file);
+    case Platform.iOS:
+      return extractIpaMetadata(file);
+    default:
+      throw new Error("Only .apk and .ipa files can be inspected.");
+  }
+};
+
+/**
+ * Checks a parsed binary against the identifiers configured on the project.
+ * Projects without a configured identifier for the platform accept any binary.
+ * @returns An error message for a mismatch, or null if the upload may proceed.
+ */
+export const validateBinaryIdentifier = (
+  project: Project,
+  metadata: BinaryMetadata
+): string | null => {
+  const expectedId =
+    metadata.platform === Platform.Android
+      ? project.applicationId
+      : project.bundleIdentifier;
+  if (!expectedId || !metadata.packageId) return null;
+  if (metadata.packageId === expectedId) return null;
+
+  const idLabel =
+    metadata.platform === Platform.Android
+      ? "application ID"
+      : "bundle identifier";
+  return `This ${metadata.platform} binary has ${idLabel} "${metadata.packageId}", but project "${project.name}" expects "${expectedId}". Upload it to the matching project instead.`;
+};
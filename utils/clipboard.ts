@@ -0,0 +1,17 @@
+/**
+ * Copies text to the clipboard. Falls back to a prompt with the text selected
+ * when the Clipboard API is unavailable, e.g. on plain-http backends.
+ * @returns Whether the text was copied without the fallback.
+ */
+export const copyToClipboard = async (
+  text: string,
+  promptMessage: string
+): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    window.prompt(promptMessage, text);
+    return false;
+  }
+};
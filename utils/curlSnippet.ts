@@ -0,0 +1,31 @@
+import { Platform } from "../types";
+
+interface VersionUploadCurlOptions {
+  baseUrl: string; // Backend URL including the /api prefix
+  projectId: string;
+  token?: string; // Defaults to a shell variable so the secret stays out of scripts
+  platform?: Platform;
+}
+
+/**
+ * Builds a curl command that uploads a build the same way the upload modal
+ * does, through the multipart `/projects/:id/versions` endpoint.
+ */
+export const buildVersionUploadCurl = ({
+  baseUrl,
+  projectId,
+  token,
+  platform = Platform.Android,
+}: VersionUploadCurlOptions): string => {
+  const file = platform === Platform.iOS ? "MyApp.ipa" : "app-release.apk";
+  return [
+    `curl -X POST "${baseUrl}/projects/${projectId}/versions"`,
+    `  -H "Authorization: Bearer ${token || "$RELEASE_HUB_TOKEN"}"`,
+    `  -F "appFile=@${file}"`,
+    `  -F "platform=${platform}"`,
+    `  -F "versionName=1.0.0"`,
+    `  -F "buildNumber=$BUILD_NUMBER"`,
+    `  -F "clientFileHash=$(sha256sum ${file} | cut -d' ' -f1)"`,
+    `  -F "releaseNotes=Built by CI"`,
+  ].join(" \\\n");
+};
@@ -0,0 +1,33 @@
+import { DailyDownloads, DownloadCount } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns one entry per UTC day from `from` to `to`, filling days the backend
+ * left out with zero downloads so the chart keeps an even time axis.
+ */
+export const fillDailyDownloads = (
+  daily: DailyDownloads[],
+  from: string,
+  to: string
+): DailyDownloads[] => {
+  const byDate = new Map(daily.map((day) => [day.date, day]));
+  const start = new Date(from);
+  start.setUTCHours(0, 0, 0, 0);
+  const end = new Date(to).getTime();
+  const days: DailyDownloads[] = [];
+  for (let time = start.getTime(); time <= end; time += DAY_MS) {
+    const date = new Date(time).toISOString().slice(0, 10);
+    days.push(byDate.get(date) || { date, downloads: 0, uniqueDevices: 0 });
+  }
+  return days;
+};
+
+// Share of all downloads in a breakdown, as a whole percentage.
+export const getDownloadShare = (
+  entry: DownloadCount,
+  entries: DownloadCount[]
+): number => {
+  const total = entries.reduce((sum, e) => sum + e.downloads, 0);
+  return total > 0 ? Math.round((entry.downloads / total) * 100) : 0;
+};
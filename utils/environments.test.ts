@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { AppVersion, DeploymentEnvironment, Platform } from "../types";
+import {
+  applyEnvironmentExclusivity,
+  getEnvironmentChange,
+  restoreEnvironments,
+  withEnvironmentHistory,
+} from "./environments";
+import { makeVersion } from "./testFixtures";
+
+const { Development, Staging, Production } = DeploymentEnvironment;
+const EARLIER = "2024-01-01T00:00:00.000Z";
+const AT = "2024-02-01T00:00:00.000Z";
+
+const makeActiveVersion = (
+  _id: string,
+  platform: Platform,
+  activeEnvironments: DeploymentEnvironment[]
+): AppVersion =>
+  makeVersion({
+    _id,
+    platform,
+    buildNumber: _id,
+    uploadDate: EARLIER,
+    activeEnvironments,
+    environmentHistory: activeEnvironments.map((environment) => ({
+      environment,
+      activatedAt: EARLIER,
+    })),
+  });
+
+const activeById = (versions: AppVersion[]) =>
+  Object.fromEntries(versions.map((v) => [v._id, v.activeEnvironments]));
+
+describe("applyEnvironmentExclusivity", () => {
+  const versions = [
+    makeActiveVersion("a1", Platform.Android, [Staging]),
+    makeActiveVersion("a2", Platform.Android, [Production, Development]),
+    makeActiveVersion("a3", Platform.Android, []),
+    makeActiveVersion("i1", Platform.iOS, [Staging, Production]),
+  ];
+
+  it("moves the activated environments away from every other version of the platform", () => {
+    const target = withEnvironmentHistory(
+      versions[2],
+      [Staging, Production],
+      AT
+    );
+    const result = applyEnvironmentExclusivity(
+      versions,
+      target,
+      [Staging, Production],
+      AT
+    );
+
+    expect(activeById(result)).toEqual({
+      a1: [],
+      a2: [Development],
+      a3: [Staging, Production],
+      i1: [Staging, Production],
+    });
+  });
+
+  it("closes the displaced activations at the time of the change", () => {
+    const target = withEnvironmentHistory(versions[2], [Production], AT);
+    const [, displaced] = applyEnvironmentExclusivity(
+      versions,
+      target,
+      [Production],
+      AT
+    );
+
+    expect(displaced.environmentHistory).toEqual([
+      { environment: Production, activatedAt: EARLIER, deactivatedAt: AT },
+      { environment: Development, activatedAt: EARLIER },
+    ]);
+  });
+
+  it("leaves unaffected versions and the input untouched", () => {
+    const target = withEnvironmentHistory(versions[2], [Production], AT);
+    const result = applyEnvironmentExclusivity(
+      versions,
+      target,
+      [Production],
+      AT
+    );
+
+    expect(result[0]).toBe(versions[0]);
+    expect(result[3]).toBe(versions[3]);
+    expect(versions[1].activeEnvironments).toEqual([Production, Development]);
+  });
+});
+
+describe("restoreEnvironments", () => {
+  const before = [
+    makeActiveVersion("a1", Platform.Android, [Staging]),
+    makeActiveVersion("a2", Platform.Android, [Production]),
+    makeActiveVersion("a3", Platform.Android, [Development]),
+  ];
+  const after = applyEnvironmentExclusivity(
+    before,
+    withEnvironmentHistory(before[2], [Staging, Production], AT),
+    [Staging, Production],
+    AT
+  );
+  const change = getEnvironmentChange(before, after, AT);
+
+  it("describes what each version gained and lost", () => {
+    expect(change).toEqual({
+      at: AT,
+      added: { a3: [Staging, Production] },
+      removed: { a1: [Staging], a2: [Production], a3: [Development] },
+    });
+  });
+
+  it("reverts the environments and history of the change", () => {
+    expect(restoreEnvironments(after, change)).toEqual(before);
+  });
+
+  it("keeps changes made to the versions since", () => {
+    const edited = after.map((v) =>
+      v._id === "a1" ? { ...v, versionName: "1.0.1" } : v
+    );
+    const added = edited.concat(makeActiveVersion("a4", Platform.Android, []));
+
+    const restored = restoreEnvironments(added, change);
+
+    expect(restored[0]).toEqual({ ...before[0], versionName: "1.0.1" });
+    expect(restored[3]).toBe(added[3]);
+  });
+
+  it("keeps environments activated since the change", () => {
+    const later = after.map((v) =>
+      v._id === "a1"
+        ? withEnvironmentHistory(v, [Development], "2024-03-01T00:00:00.000Z")
+        : v
+    );
+
+    const [a1] = restoreEnvironments(later, change);
+
+    expect(a1.activeEnvironments).toEqual([Development, Staging]);
+  });
+});
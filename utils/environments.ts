@@ -0,0 +1,118 @@
+import { AppVersion, DeploymentEnvironment } from "../types";
+
+/**
+ * Replaces a version's activeEnvironments and records the change in its
+ * environment history: newly active environments open an activation, removed
+ * ones close the open activation.
+ * @param at ISO timestamp of the change.
+ */
+export const withEnvironmentHistory = (
+  version: AppVersion,
+  activeEnvironments: DeploymentEnvironment[],
+  at: string
+): AppVersion => {
+  const history = (version.environmentHistory || []).map((entry) =>
+    !entry.deactivatedAt && !activeEnvironments.includes(entry.environment)
+      ? { ...entry, deactivatedAt: at }
+      : entry
+  );
+  activeEnvironments
+    .filter((e) => !version.activeEnvironments.includes(e))
+    .forEach((environment) => history.push({ environment, activatedAt: at }));
+  return { ...version, activeEnvironments, environmentHistory: history };
+};
+
+/**
+ * Applies the "one active version per platform per environment" rule.
+ * Replaces the target version and removes the newly activated environments
+ * from every other version of the same platform.
+ * @param versions The project's current versions.
+ * @param targetVersion The target version with its new activeEnvironments.
+ * @param activatedEnvironments Environments the target is taking over.
+ * @param at ISO timestamp recorded in the displaced versions' history.
+ * @returns A new versions array; the input is not mutated.
+ */
+export const applyEnvironmentExclusivity = (
+  versions: AppVersion[],
+  targetVersion: AppVersion,
+  activatedEnvironments: DeploymentEnvironment[],
+  at: string = new Date().toISOString()
+): AppVersion[] =>
+  versions.map((v) => {
+    if (v._id === targetVersion._id) return targetVersion;
+    if (
+      v.platform !== targetVersion.platform ||
+      !v.activeEnvironments.some((e) => activatedEnvironments.includes(e))
+    ) {
+      return v;
+    }
+    return withEnvironmentHistory(
+      v,
+      v.activeEnvironments.filter((e) => !activatedEnvironments.includes(e)),
+      at
+    );
+  });
+
+/** Environments each version gained or lost in one change, by version id. */
+export interface EnvironmentChange {
+  at: string;
+  added: Record<string, DeploymentEnvironment[]>;
+  removed: Record<string, DeploymentEnvironment[]>;
+}
+
+export const getEnvironmentChange = (
+  before: AppVersion[],
+  after: AppVersion[],
+  at: string
+): EnvironmentChange => {
+  const change: EnvironmentChange = { at, added: {}, removed: {} };
+  after.forEach((v) => {
+    const previous = before.find((b) => b._id === v._id);
+    if (!previous) return;
+    const added = v.activeEnvironments.filter(
+      (e) => !previous.activeEnvironments.includes(e)
+    );
+    const removed = previous.activeEnvironments.filter(
+      (e) => !v.activeEnvironments.includes(e)
+    );
+    if (added.length > 0) change.added[v._id] = added;
+    if (removed.length > 0) change.removed[v._id] = removed;
+  });
+  return change;
+};
+
+/**
+ * Undoes an optimistic environment change. Only the environments and history
+ * entries that change made are reverted, so anything else that happened to
+ * the versions in the meantime is kept.
+ */
+export const restoreEnvironments = (
+  versions: AppVersion[],
+  change: EnvironmentChange
+): AppVersion[] =>
+  versions.map((v) => {
+    const added = change.added[v._id] || [];
+    const removed = change.removed[v._id] || [];
+    if (added.length === 0 && removed.length === 0) return v;
+    return {
+      ...v,
+      activeEnvironments: [
+        ...v.activeEnvironments.filter((e) => !added.includes(e)),
+        ...removed.filter((e) => !v.activeEnvironments.includes(e)),
+      ],
+      environmentHistory: (v.environmentHistory || [])
+        .filter(
+          (entry) =>
+            !(
+              added.includes(entry.environment) &&
+              entry.activatedAt === change.at
+            )
+        )
+        .map((entry) =>
+          removed.includes(entry.environment) &&
+          entry.deactivatedAt === change.at
+            ? { environment: entry.environment, activatedAt: entry.activatedAt }
+            : entry
+        ),
+    };
+  });
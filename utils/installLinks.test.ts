@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { AppVersion, Platform } from "../types";
+import {
+  getInstallLink,
+  getInstallPageBackend,
+  getQrCodeValue,
+  withDownloadSource,
+} from "./installLinks";
+import { makeVersion } from "./testFixtures";
+
+const MANIFEST_URL =
+  "https://cdn.example.com/builds/manifest.plist?token=a&expires=1";
+
+const APK_URL = "https://cdn.example.com/builds/app.apk";
+
+const versionFor = (
+  platform: Platform,
+  overrides: Partial<AppVersion> = {}
+): AppVersion =>
+  makeVersion({
+    platform,
+    downloadUrl: APK_URL,
+    qrCodeValue: APK_URL,
+    ...overrides,
+  });
+
+// The manifest URL an itms-services link points at, decoded.
+const manifestUrlOf = (link: string) => {
+  const prefix = "itms-services://?action=download-manifest&url=";
+  expect(link.startsWith(prefix)).toBe(true);
+  return decodeURIComponent(link.slice(prefix.length));
+};
+
+describe("withDownloadSource", () => {
+  it("adds the source and keeps the other parameters", () => {
+    expect(
+      withDownloadSource("https://cdn.example.com/app.apk?token=a", "qr")
+    ).toBe("https://cdn.example.com/app.apk?token=a&source=qr");
+  });
+
+  it("returns values that are not absolute URLs unchanged", () => {
+    expect(withDownloadSource("/uploads/app.apk", "qr")).toBe(
+      "/uploads/app.apk"
+    );
+  });
+});
+
+describe("getInstallLink", () => {
+  it("links Android builds to the APK", () => {
+    expect(getInstallLink(versionFor(Platform.Android), "dashboard")).toBe(
+      "https://cdn.example.com/builds/app.apk?source=dashboard"
+    );
+  });
+
+  it("links iOS builds to their manifest through itms-services", () => {
+    const link = getInstallLink(
+      versionFor(Platform.iOS, { manifestUrl: MANIFEST_URL }),
+      "installPage"
+    )!;
+
+    expect(manifestUrlOf(link)).toBe(`${MANIFEST_URL}&source=installPage`);
+  });
+
+  it("encodes the manifest URL so its query stays part of it", () => {
+    const link = getInstallLink(
+      versionFor(Platform.iOS, { manifestUrl: MANIFEST_URL }),
+      "installPage"
+    )!;
+    const encoded = link.slice(link.indexOf("url=") + 4);
+
+    expect(encoded).not.toMatch(/[:/?&=]/);
+    expect(new URL(link).searchParams.get("url")).toBe(
+      `${MANIFEST_URL}&source=installPage`
+    );
+  });
+
+  it("has no link for iOS builds without a manifest", () => {
+    expect(getInstallLink(versionFor(Platform.iOS), "dashboard")).toBe(
+      undefined
+    );
+  });
+});
+
+describe("getQrCodeValue", () => {
+  it("encodes the itms-services link for iOS builds", () => {
+    const value = getQrCodeValue(
+      versionFor(Platform.iOS, { manifestUrl: MANIFEST_URL })
+    )!;
+
+    expect(manifestUrlOf(value)).toBe(`${MANIFEST_URL}&source=qr`);
+  });
+
+  it("encodes the download URL for Android builds", () => {
+    expect(getQrCodeValue(versionFor(Platform.Android))).toBe(
+      "https://cdn.example.com/builds/app.apk?source=qr"
+    );
+  });
+});
+
+describe("getInstallPageBackend", () => {
+  it("reads the backend the link was made on", () => {
+    expect(
+      getInstallPageBackend(
+        new URLSearchParams({ backend: "https://staging.example.com/api" })
+      )
+    ).toBe("https://staging.example.com/api");
+  });
+
+  it.each(["", "javascript:alert(1)", "not a url"])("ignores %j", (backend) => {
+    expect(
+      getInstallPageBackend(new URLSearchParams({ backend }))
+    ).toBeUndefined();
+  });
+
+  it("returns undefined for links without a backend", () => {
+    expect(getInstallPageBackend(new URLSearchParams())).toBeUndefined();
+  });
+});
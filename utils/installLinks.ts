@@ -0,0 +1,85 @@
+import {
+  INSTALL_PAGE_BACKEND_PARAM,
+  INSTALL_PAGE_PATH_PREFIX,
+} from "../constants";
+import { AppVersion, DownloadSource, Platform } from "../types";
+import { isHttpUrl } from "./urls";
+
+/**
+ * Builds the shareable URL of the public install page for a version. The
+ * link names the backend it was made on, so it loads from there in any
+ * browser.
+ * @param backendBaseUrl Base URL of the active backend profile.
+ */
+export const getInstallPageUrl = (
+  projectId: string,
+  versionId: string,
+  backendBaseUrl: string
+): string => {
+  const query = new URLSearchParams({
+    [INSTALL_PAGE_BACKEND_PARAM]: new URL(
+      backendBaseUrl,
+      window.location.href
+    ).toString(),
+  });
+  return `${window.location.origin}${window.location.pathname}${INSTALL_PAGE_PATH_PREFIX}/${projectId}/${versionId}?${query}`;
+};
+
+/**
+ * Reads the backend an install page link was made on.
+ * @returns The backend base URL, or undefined when the link names none or
+ * names something other than an http(s) URL.
+ */
+export const getInstallPageBackend = (
+  searchParams: URLSearchParams
+): string | undefined => {
+  const backend = searchParams.get(INSTALL_PAGE_BACKEND_PARAM)?.trim();
+  return backend && isHttpUrl(backend) ? backend : undefined;
+};
+
+/**
+ * Tags a download URL with where the download was started, so the backend can
+ * attribute it in the download analytics. Values that are not absolute URLs
+ * are returned unchanged.
+ */
+export const withDownloadSource = (
+  url: string,
+  source: DownloadSource
+): string => {
+  try {
+    const tagged = new URL(url);
+    tagged.searchParams.set("source", source);
+    return tagged.toString();
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Returns the link that installs a version on a device: the APK itself on
+ * Android, or an itms-services link to the OTA manifest on iOS.
+ * @returns The link, or undefined for iOS builds without a manifest.
+ */
+export const getInstallLink = (
+  version: AppVersion,
+  source: DownloadSource
+): string | undefined => {
+  if (version.platform === Platform.Android) {
+    return withDownloadSource(version.downloadUrl, source);
+  }
+  return version.manifestUrl
+    ? `itms-services://?action=download-manifest&url=${encodeURIComponent(
+        withDownloadSource(version.manifestUrl, source)
+      )}`
+    : undefined;
+};
+
+/**
+ * Returns the value the QR modal encodes for a version. iOS builds need their
+ * itms-services link, since opening the IPA URL on a device does nothing.
+ * @returns The value, or undefined for iOS builds without a manifest.
+ */
+export const getQrCodeValue = (version: AppVersion): string | undefined =>
+  version.platform === Platform.iOS
+    ? getInstallLink(version, "qr")
+    : withDownloadSource(version.qrCodeValue, "qr");
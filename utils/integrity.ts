@@ -0,0 +1,87 @@
+import { CHUNKED_UPLOAD_THRESHOLD_BYTES } from "../constants";
+import type { Sha256WorkerMessage } from "./sha256.worker";
+
+export interface HashOptions {
+  signal?: AbortSignal;
+  onProgress?: (hashedBytes: number, totalBytes: number) => void;
+}
+
+const toHex = (bytes: ArrayBuffer): string =>
+  Array.from(new Uint8Array(bytes))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+// Web Crypto has no streaming digest, so larger files are hashed slice by
+// slice in a worker to keep both memory and the main thread free.
+const hashInWorker = (
+  file: Blob,
+  { signal, onProgress }: HashOptions
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./sha256.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    worker.onmessage = (event: MessageEvent<Sha256WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.hashedBytes, message.totalBytes);
+        return;
+      }
+      finish();
+      if (message.type === "done") resolve(message.digest);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Failed to hash the file."));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    worker.postMessage(file);
+  });
+
+/**
+ * Computes the SHA-256 digest of a file. Files that go up in a single request
+ * are digested with the Web Crypto API; larger ones in a Web Worker, one
+ * upload-chunk-sized slice at a time.
+ * @param file The file (or blob) to hash.
+ * @returns The digest as a lowercase hex string.
+ * @throws The signal's reason when aborted.
+ */
+export const computeSha256 = async (
+  file: Blob,
+  options: HashOptions = {}
+): Promise<string> => {
+  const { signal, onProgress } = options;
+  signal?.throwIfAborted();
+  if (file.size > CHUNKED_UPLOAD_THRESHOLD_BYTES) {
+    return hashInWorker(file, options);
+  }
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await file.arrayBuffer()
+  );
+  signal?.throwIfAborted();
+  onProgress?.(file.size, file.size);
+  return toHex(digest);
+};
+
+/**
+ * Compares the hash the browser computed before upload with the one the
+ * backend computed from the stored file. Only a definite difference counts as
+ * a mismatch; if either side is missing there is nothing to compare.
+ */
+export const hasIntegrityMismatch = (
+  serverHash: string | undefined,
+  clientHash: string | undefined
+): boolean =>
+  !!serverHash &&
+  !!clientHash &&
+  serverHash.toLowerCase() !== clientHash.toLowerCase();
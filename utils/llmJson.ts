@@ -0,0 +1,9 @@
+/**
+ * Removes a markdown code fence around a model's JSON answer, which models
+ * add even when asked for plain JSON.
+ */
+export const stripCodeFence = (text: string): string => {
+  const trimmed = text.trim();
+  const match = trimmed.match(/^```(\w*)?\s*\n?(.*?)\n?\s*```$/s); // Matches ```json ... ``` or ``` ... ```
+  return match && match[2] ? match[2].trim() : trimmed;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { buildManifestPlist, ManifestPlistInput } from "./manifestPlist";
+
+const input: ManifestPlistInput = {
+  ipaUrl: "https://cdn.example.com/builds/app.ipa",
+  bundleIdentifier: "com.example.app",
+  bundleVersion: "1.2.0",
+  title: "Example",
+};
+
+// The <string> value that follows a <key> in the manifest.
+const valueOf = (plist: string, key: string) =>
+  plist.match(new RegExp(`<key>${key}</key>\\s*<string>([^<]*)</string>`))?.[1];
+
+describe("buildManifestPlist", () => {
+  it("includes the metadata iOS requires to install the build", () => {
+    const plist = buildManifestPlist(input);
+
+    expect(valueOf(plist, "bundle-identifier")).toBe("com.example.app");
+    expect(valueOf(plist, "bundle-version")).toBe("1.2.0");
+    expect(valueOf(plist, "kind")).toBe("software-package");
+    expect(valueOf(plist, "title")).toBe("Example");
+    expect(plist).toContain(
+      "<string>https://cdn.example.com/builds/app.ipa</string>"
+    );
+  });
+
+  it("trims the metadata", () => {
+    const plist = buildManifestPlist({
+      ...input,
+      bundleIdentifier: " com.example.app ",
+      bundleVersion: "1.2.0\n",
+    });
+
+    expect(valueOf(plist, "bundle-identifier")).toBe("com.example.app");
+    expect(valueOf(plist, "bundle-version")).toBe("1.2.0");
+  });
+
+  it("escapes XML in the title", () => {
+    const plist = buildManifestPlist({
+      ...input,
+      title: `Tom & Jerry's <"Beta">`,
+    });
+
+    expect(valueOf(plist, "title")).toBe(
+      "Tom &amp; Jerry&apos;s &lt;&quot;Beta&quot;&gt;"
+    );
+    expect(plist).not.toContain('<"Beta">');
+  });
+
+  it("escapes XML in the asset URLs", () => {
+    const plist = buildManifestPlist({
+      ...input,
+      ipaUrl: "https://cdn.example.com/app.ipa?token=a&expires=1",
+      displayImageUrl: "https://cdn.example.com/icon.png?size=57&v=<2>",
+    });
+
+    expect(plist).toContain(
+      "<string>https://cdn.example.com/app.ipa?token=a&amp;expires=1</string>"
+    );
+    expect(plist).toContain(
+      "<string>https://cdn.example.com/icon.png?size=57&amp;v=&lt;2&gt;</string>"
+    );
+  });
+
+  it("adds image assets only when given", () => {
+    expect(buildManifestPlist(input)).not.toContain("display-image");
+
+    const plist = buildManifestPlist({
+      ...input,
+      displayImageUrl: "https://cdn.example.com/57.png",
+      fullSizeImageUrl: "https://cdn.example.com/512.png",
+    });
+
+    expect(plist).toContain("<string>display-image</string>");
+    expect(plist).toContain("<string>full-size-image</string>");
+  });
+
+  it("rejects missing required fields", () => {
+    expect(() =>
+      buildManifestPlist({ ...input, bundleIdentifier: " ", bundleVersion: "" })
+    ).toThrow(
+      "Cannot build manifest.plist without bundleIdentifier, bundleVersion."
+    );
+  });
+});
@@ -0,0 +1,88 @@
+// Builds the manifest.plist iOS reads when installing an ad hoc or enterprise
+// build through an itms-services:// link.
+
+export interface ManifestPlistInput {
+  ipaUrl: string; // Must be served over HTTPS for iOS to install it
+  bundleIdentifier: string;
+  bundleVersion: string; // CFBundleShortVersionString of the build
+  title: string; // Shown in the install prompt
+  displayImageUrl?: string; // 57x57 PNG shown while installing
+  fullSizeImageUrl?: string; // 512x512 PNG
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const assetEntry = (kind: string, url: string): string =>
+  [
+    "        <dict>",
+    "          <key>kind</key>",
+    `          <string>${kind}</string>`,
+    "          <key>url</key>",
+    `          <string>${escapeXml(url)}</string>`,
+    "        </dict>",
+  ].join("\n");
+
+/**
+ * Serializes an OTA install manifest for a single IPA.
+ * @param input The IPA URL and the metadata shown by iOS during install.
+ * @returns The manifest as an XML property list.
+ * @throws Error if a required field is empty.
+ */
+export const buildManifestPlist = (input: ManifestPlistInput): string => {
+  const required: (keyof ManifestPlistInput)[] = [
+    "ipaUrl",
+    "bundleIdentifier",
+    "bundleVersion",
+    "title",
+  ];
+  const missing = required.filter((key) => !input[key]?.trim());
+  if (missing.length > 0) {
+    throw new Error(
+      `Cannot build manifest.plist without ${missing.join(", ")}.`
+    );
+  }
+
+  const assets = [assetEntry("software-package", input.ipaUrl)];
+  if (input.displayImageUrl) {
+    assets.push(assetEntry("display-image", input.displayImageUrl));
+  }
+  if (input.fullSizeImageUrl) {
+    assets.push(assetEntry("full-size-image", input.fullSizeImageUrl));
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    "<dict>",
+    "  <key>items</key>",
+    "  <array>",
+    "    <dict>",
+    "      <key>assets</key>",
+    "      <array>",
+    assets.join("\n"),
+    "      </array>",
+    "      <key>metadata</key>",
+    "      <dict>",
+    "        <key>bundle-identifier</key>",
+    `        <string>${escapeXml(input.bundleIdentifier.trim())}</string>`,
+    "        <key>bundle-version</key>",
+    `        <string>${escapeXml(input.bundleVersion.trim())}</string>`,
+    "        <key>kind</key>",
+    "        <string>software</string>",
+    "        <key>title</key>",
+    `        <string>${escapeXml(input.title.trim())}</string>`,
+    "      </dict>",
+    "    </dict>",
+    "  </array>",
+    "</dict>",
+    "</plist>",
+    "",
+  ].join("\n");
+};
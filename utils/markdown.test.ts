@@ -0,0 +1,246 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyMarkdownFormat,
+  isSafeMarkdownUrl,
+  MarkdownInline,
+  parseMarkdown,
+  parseMarkdownInline,
+} from "./markdown";
+
+const text = (value: string): MarkdownInline => ({ type: "text", text: value });
+
+// Every link href anywhere in the parsed blocks.
+const hrefsOf = (source: string): string[] => {
+  const hrefs: string[] = [];
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) node.forEach(visit);
+    else if (node && typeof node === "object") {
+      if ((node as MarkdownInline).type === "link") {
+        hrefs.push((node as { href: string }).href);
+      }
+      Object.values(node).forEach(visit);
+    }
+  };
+  visit(parseMarkdown(source));
+  return hrefs;
+};
+
+describe("isSafeMarkdownUrl", () => {
+  it.each([
+    "https://example.com/notes",
+    "http://localhost:3000",
+    "mailto:qa@example.com",
+  ])("accepts %s", (url) => {
+    expect(isSafeMarkdownUrl(url)).toBe(true);
+  });
+
+  it.each([
+    "javascript:alert(1)",
+    "JavaScript:alert(1)",
+    "data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+    "vbscript:msgbox(1)",
+    "/relative/path",
+    "//evil.example.com",
+  ])("rejects %s", (url) => {
+    expect(isSafeMarkdownUrl(url)).toBe(false);
+  });
+});
+
+describe("parseMarkdownInline", () => {
+  it("keeps safe links", () => {
+    expect(parseMarkdownInline("[Docs](https://example.com/docs)")).toEqual([
+      {
+        type: "link",
+        href: "https://example.com/docs",
+        children: [text("Docs")],
+      },
+    ]);
+  });
+
+  it.each([
+    "[click](javascript:alert(document.cookie))",
+    "[click](data:text/html,<script>alert(1)</script>)",
+    "[click](JAVASCRIPT:alert(1))",
+  ])("drops the link of %s", (source) => {
+    const nodes = parseMarkdownInline(source);
+
+    expect(nodes.some((node) => node.type === "link")).toBe(false);
+    expect(nodes[0]).toEqual(text(expect.stringContaining("click")));
+  });
+
+  it("shows raw HTML as text", () => {
+    const source = '<img src=x onerror="alert(1)"><script>alert(1)</script>';
+
+    expect(parseMarkdownInline(source)).toEqual([text(source)]);
+  });
+
+  it("links bare web URLs only", () => {
+    expect(
+      parseMarkdownInline("See https://example.com/a. Not javascript:alert(1)")
+    ).toEqual([
+      text("See "),
+      {
+        type: "link",
+        href: "https://example.com/a",
+        children: [text("https://example.com/a")],
+      },
+      text(". Not javascript:alert(1)"),
+    ]);
+  });
+
+  it("parses nested emphasis", () => {
+    expect(
+      parseMarkdownInline("**bold _italic `code`_** and ~~*gone*~~")
+    ).toEqual([
+      {
+        type: "strong",
+        children: [
+          text("bold "),
+          {
+            type: "em",
+            children: [text("italic "), { type: "code", text: "code" }],
+          },
+        ],
+      },
+      text(" and "),
+      { type: "strike", children: [{ type: "em", children: [text("gone")] }] },
+    ]);
+  });
+
+  it("leaves markers inside code and escaped markers alone", () => {
+    expect(parseMarkdownInline("`**not bold**` \\*literal\\*")).toEqual([
+      { type: "code", text: "**not bold**" },
+      text(" *literal*"),
+    ]);
+  });
+
+  it("does not treat underscores inside words as emphasis", () => {
+    expect(parseMarkdownInline("snake_case_name")).toEqual([
+      text("snake_case_name"),
+    ]);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses headings, paragraphs and rules", () => {
+    expect(
+      parseMarkdown("## What's new ##\nFaster sync\nand search\n\n---")
+    ).toEqual([
+      { type: "heading", level: 2, children: [text("What's new")] },
+      {
+        type: "paragraph",
+        lines: [[text("Faster sync")], [text("and search")]],
+      },
+      { type: "rule" },
+    ]);
+  });
+
+  it("parses bullet lists with continuation lines", () => {
+    expect(
+      parseMarkdown("- First\n  continued\n* **Second**\n+ Third")
+    ).toEqual([
+      {
+        type: "list",
+        ordered: false,
+        start: 1,
+        items: [
+          [text("First continued")],
+          [{ type: "strong", children: [text("Second")] }],
+          [text("Third")],
+        ],
+      },
+    ]);
+  });
+
+  it("parses ordered lists from their first number", () => {
+    expect(parseMarkdown("3. Three\n4) Four\n\n- Other")).toEqual([
+      {
+        type: "list",
+        ordered: true,
+        start: 3,
+        items: [[text("Three")], [text("Four")]],
+      },
+      { type: "list", ordered: false, start: 1, items: [[text("Other")]] },
+    ]);
+  });
+
+  it("flattens nested list items into their parent list", () => {
+    expect(parseMarkdown("- Parent\n  - Child")).toEqual([
+      {
+        type: "list",
+        ordered: false,
+        start: 1,
+        items: [[text("Parent")], [text("Child")]],
+      },
+    ]);
+  });
+
+  it("keeps the contents of code fences verbatim", () => {
+    const code =
+      "# not a heading\n<script>alert(1)</script>\n[x](javascript:y)";
+
+    expect(parseMarkdown("```ts\n" + code + "\n```\nAfter")).toEqual([
+      { type: "code", text: code },
+      { type: "paragraph", lines: [[text("After")]] },
+    ]);
+  });
+
+  it("runs an unclosed fence to the end of the text", () => {
+    expect(parseMarkdown("```\nline 1\nline 2")).toEqual([
+      { type: "code", text: "line 1\nline 2" },
+    ]);
+  });
+
+  it("parses block quotes recursively", () => {
+    expect(parseMarkdown("> ### Note\n> - item")).toEqual([
+      {
+        type: "quote",
+        children: [
+          { type: "heading", level: 3, children: [text("Note")] },
+          { type: "list", ordered: false, start: 1, items: [[text("item")]] },
+        ],
+      },
+    ]);
+  });
+
+  it("drops unsafe links in every kind of block", () => {
+    const source = [
+      "# [h](javascript:alert(1))",
+      "[p](data:text/html,x)",
+      "- [li](javascript:alert(1))",
+      "> [q](javascript:alert(1))",
+      "[ok](https://example.com)",
+    ].join("\n");
+
+    expect(hrefsOf(source)).toEqual(["https://example.com"]);
+  });
+});
+
+describe("applyMarkdownFormat", () => {
+  it("wraps the selection and keeps it selected", () => {
+    expect(applyMarkdownFormat("fix crash", 4, 9, "bold")).toEqual({
+      text: "fix **crash**",
+      selectionStart: 6,
+      selectionEnd: 11,
+    });
+  });
+
+  it("inserts a placeholder link and selects its URL", () => {
+    expect(applyMarkdownFormat("", 0, 0, "link")).toEqual({
+      text: "[link text](https://)",
+      selectionStart: 12,
+      selectionEnd: 20,
+    });
+  });
+
+  it("toggles a list prefix on every selected line", () => {
+    const listed = applyMarkdownFormat("a\nb\nc", 0, 3, "list");
+
+    expect(listed).toEqual({
+      text: "- a\n- b\nc",
+      selectionStart: 0,
+      selectionEnd: 7,
+    });
+    expect(applyMarkdownFormat(listed.text, 0, 7, "list").text).toBe("a\nb\nc");
+  });
+});
@@ -0,0 +1,265 @@
+// Parser for the markdown subset used in release notes: headings, paragraphs,
+// flat lists, fenced code, block quotes, rules, emphasis, inline code and
+// links. It produces a tree that is rendered as React elements, so raw HTML in
+// the source is shown as text and never interpreted.
+
+import { isHttpUrl } from "./urls";
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong" | "em" | "strike"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "paragraph"; lines: MarkdownInline[][] }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: "code"; text: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | { type: "rule" };
+
+const FENCE = /^\s*```/;
+const HEADING = /^\s*(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d+)[.)]\s+(.*)$/;
+
+// Groups: 1 escaped char, 2 code, 3-4 link text and url, 5/6 strong,
+// 7 strike, 8/9 emphasis, 10 bare url.
+const INLINE =
+  /\\([\\`*_{}[\]()#+\-.!~>])|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*(?!\s)(.+?)\*|(?<![A-Za-z0-9])_(?!\s)(.+?)_(?![A-Za-z0-9])|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g;
+
+// Only web and mail links are rendered, so notes cannot carry javascript: or
+// data: URLs.
+export const isSafeMarkdownUrl = (url: string): boolean =>
+  isHttpUrl(url) || /^mailto:[^\s]+$/i.test(url);
+
+export const parseMarkdownInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text") last.text += value;
+    else nodes.push({ type: "text", text: value });
+  };
+
+  let index = 0;
+  for (const match of text.matchAll(INLINE)) {
+    pushText(text.slice(index, match.index));
+    index = match.index + match[0].length;
+    const [
+      ,
+      escaped,
+      code,
+      linkText,
+      linkUrl,
+      strong,
+      strongAlt,
+      strike,
+      em,
+      emAlt,
+      bareUrl,
+    ] = match;
+    if (escaped !== undefined) {
+      pushText(escaped);
+    } else if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (linkText !== undefined) {
+      const children = parseMarkdownInline(linkText);
+      if (isSafeMarkdownUrl(linkUrl)) {
+        nodes.push({ type: "link", href: linkUrl, children });
+      } else {
+        nodes.push(...children);
+      }
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({
+        type: "strong",
+        children: parseMarkdownInline(strong ?? strongAlt),
+      });
+    } else if (strike !== undefined) {
+      nodes.push({ type: "strike", children: parseMarkdownInline(strike) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: "em", children: parseMarkdownInline(em ?? emAlt) });
+    } else if (bareUrl !== undefined) {
+      nodes.push({
+        type: "link",
+        href: bareUrl,
+        children: [{ type: "text", text: bareUrl }],
+      });
+    }
+  }
+  pushText(text.slice(index));
+  return nodes;
+};
+
+const isBlockStart = (line: string) =>
+  FENCE.test(line) ||
+  HEADING.test(line) ||
+  RULE.test(line) ||
+  QUOTE.test(line) ||
+  BULLET_ITEM.test(line) ||
+  ORDERED_ITEM.test(line);
+
+/**
+ * Parses markdown into blocks. Nested lists are flattened into their parent
+ * list and unclosed code fences run to the end of the text.
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+      i++; // Closing fence
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: parseMarkdownInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i++].match(QUOTE)![1]);
+      }
+      blocks.push({
+        type: "quote",
+        children: parseMarkdown(quoted.join("\n")),
+      });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || BULLET_ITEM.test(line)) {
+      const itemPattern = ordered ? ORDERED_ITEM : BULLET_ITEM;
+      const items: string[] = [];
+      const start = ordered ? Number(line.match(ORDERED_ITEM)![1]) : 1;
+      while (i < lines.length && lines[i].trim()) {
+        const item = lines[i].match(itemPattern);
+        if (item) {
+          items.push(item[ordered ? 2 : 1]);
+        } else if (isBlockStart(lines[i])) {
+          break;
+        } else {
+          // Lazy continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        }
+        i++;
+      }
+      blocks.push({
+        type: "list",
+        ordered,
+        start,
+        items: items.map(parseMarkdownInline),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({
+      type: "paragraph",
+      lines: paragraph.map(parseMarkdownInline),
+    });
+  }
+
+  return blocks;
+};
+
+export type MarkdownFormat = "bold" | "italic" | "heading" | "list" | "link";
+
+const INLINE_FORMATS: Record<
+  "bold" | "italic",
+  { marker: string; placeholder: string }
+> = {
+  bold: { marker: "**", placeholder: "bold text" },
+  italic: { marker: "_", placeholder: "italic text" },
+};
+
+const LINE_PREFIXES: Record<"heading" | "list", string> = {
+  heading: "## ",
+  list: "- ",
+};
+
+/**
+ * Applies a toolbar format to the selected text of an editor.
+ * @returns The new text and the range to select in it.
+ */
+export const applyMarkdownFormat = (
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  format: MarkdownFormat
+): { text: string; selectionStart: number; selectionEnd: number } => {
+  const selected = text.slice(selectionStart, selectionEnd);
+  const before = text.slice(0, selectionStart);
+  const after = text.slice(selectionEnd);
+
+  if (format === "bold" || format === "italic") {
+    const { marker, placeholder } = INLINE_FORMATS[format];
+    const inner = selected || placeholder;
+    return {
+      text: `${before}${marker}${inner}${marker}${after}`,
+      selectionStart: selectionStart + marker.length,
+      selectionEnd: selectionStart + marker.length + inner.length,
+    };
+  }
+
+  if (format === "link") {
+    const label = selected || "link text";
+    const url = "https://";
+    const urlStart = selectionStart + label.length + 3;
+    return {
+      text: `${before}[${label}](${url})${after}`,
+      selectionStart: urlStart,
+      selectionEnd: urlStart + url.length,
+    };
+  }
+
+  // Line formats apply to every selected line, or are removed if all of them
+  // already have the prefix.
+  const prefix = LINE_PREFIXES[format];
+  const lineStart = text.lastIndexOf("\n", selectionStart - 1) + 1;
+  const nextBreak = text.indexOf("\n", selectionEnd);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const selectedLines = text.slice(lineStart, lineEnd).split("\n");
+  const hasPrefix = selectedLines.every((line) => line.startsWith(prefix));
+  const formatted = selectedLines
+    .map((line) => (hasPrefix ? line.slice(prefix.length) : `${prefix}${line}`))
+    .join("\n");
+  return {
+    text: `${text.slice(0, lineStart)}${formatted}${text.slice(lineEnd)}`,
+    selectionStart: lineStart,
+    selectionEnd: lineStart + formatted.length,
+  };
+};
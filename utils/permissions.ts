@@ -0,0 +1,40 @@
+import { AuthUser, Project, ProjectRole } from "../types";
+import { PROJECT_ROLES } from "../constants";
+
+export type ProjectPermission =
+  | "download" // See versions, download builds and QR codes
+  | "upload" // Upload versions and bundles
+  | "manageReleases" // Environments, rollouts, promotions, rollbacks, deletes
+  | "manageProject"; // Edit or delete the project and manage its members
+
+const MINIMUM_ROLE: Record<ProjectPermission, ProjectRole> = {
+  download: "viewer",
+  upload: "uploader",
+  manageReleases: "release_manager",
+  manageProject: "admin",
+};
+
+const roleRank = (role: ProjectRole): number =>
+  PROJECT_ROLES.findIndex((r) => r.value === role);
+
+/**
+ * Returns the role of a user in a project, preferring the role the backend
+ * resolved for the session. Without it or a member list, e.g. on projects
+ * created before memberships existed, the user is treated as a viewer.
+ */
+export const getProjectRole = (
+  project: Project,
+  user: AuthUser | null
+): ProjectRole | undefined => {
+  if (project.currentUserRole) return project.currentUserRole;
+  if (!project.members) return "viewer";
+  return project.members.find((m) => m.userId === user?._id)?.role;
+};
+
+/**
+ * Tells whether a role grants a permission. Roles are cumulative.
+ */
+export const hasProjectPermission = (
+  role: ProjectRole | undefined,
+  permission: ProjectPermission
+): boolean => !!role && roleRank(role) >= roleRank(MINIMUM_ROLE[permission]);
@@ -0,0 +1,56 @@
+import { AppVersion, DeploymentEnvironment } from "../types";
+import { ENVIRONMENT_PIPELINE } from "../constants";
+
+/**
+ * Returns the furthest pipeline stage a version has reached, counting both
+ * its current environments and any earlier promotions.
+ */
+export const getCurrentStage = (
+  version: AppVersion
+): DeploymentEnvironment | undefined => {
+  const reached = new Set<DeploymentEnvironment>([
+    ...version.activeEnvironments,
+    ...(version.promotions || []).map((p) => p.toEnvironment),
+  ]);
+  return [...ENVIRONMENT_PIPELINE].reverse().find((env) => reached.has(env));
+};
+
+/**
+ * Returns the stage a version would normally be promoted to next, or
+ * undefined once it has reached the end of the pipeline.
+ */
+export const getNextStage = (
+  version: AppVersion
+): DeploymentEnvironment | undefined => {
+  const current = getCurrentStage(version);
+  return ENVIRONMENT_PIPELINE[
+    current ? ENVIRONMENT_PIPELINE.indexOf(current) + 1 : 0
+  ];
+};
+
+/**
+ * Lists the stages a version can be promoted to: every stage it is not
+ * active in, including going back to a stage it already passed.
+ */
+export const getCandidateStages = (
+  version: AppVersion
+): DeploymentEnvironment[] =>
+  ENVIRONMENT_PIPELINE.filter(
+    (env) => !version.activeEnvironments.includes(env)
+  );
+
+/**
+ * Lists the stages a promotion to the target would bypass. A non-empty
+ * result means the promotion needs an explicit override.
+ */
+export const getSkippedStages = (
+  version: AppVersion,
+  target: DeploymentEnvironment
+): DeploymentEnvironment[] => {
+  const current = getCurrentStage(version);
+  const fromIndex = current ? ENVIRONMENT_PIPELINE.indexOf(current) + 1 : 0;
+  return ENVIRONMENT_PIPELINE.slice(
+    fromIndex,
+    ENVIRONMENT_PIPELINE.indexOf(target)
+  );
+};
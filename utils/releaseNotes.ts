@@ -0,0 +1,150 @@
+import {
+  DEFAULT_RELEASE_NOTES_LOCALE,
+  LLM_PROVIDERS,
+  RELEASE_NOTES_LOCALES,
+  RELEASE_NOTES_SECTIONS,
+} from "../constants";
+import {
+  AppVersion,
+  LocalizedReleaseNotes,
+  Platform,
+  ReleaseNotesOrigin,
+  StructuredReleaseNotes,
+} from "../types";
+
+export interface ReleaseNotesRequest {
+  projectName: string;
+  platform: Platform;
+  versionName: string;
+  buildNumber: string;
+  changeLog: string; // Commit log, changelog or merged PR titles as pasted
+}
+
+/**
+ * Builds the prompt for structured release notes. The model is restricted to
+ * the pasted changes so it does not invent features.
+ */
+export const buildReleaseNotesPrompt = ({
+  projectName,
+  platform,
+  versionName,
+  buildNumber,
+  changeLog,
+}: ReleaseNotesRequest): string =>
+  `Write release notes for testers of ${projectName} ${versionName} (build ${buildNumber}) on ${platform}.
+Use only the changes listed between the markers below. They may be git commit subjects, changelog entries or merged pull request titles.
+- Do not mention anything that is not in the list.
+- Rewrite entries as short, user-facing sentences and merge duplicates.
+- Leave out purely internal changes such as refactors, CI, tests and dependency bumps unless they affect users.
+- Put regressions or limitations that the entries mention under known issues.
+- Use an empty list for a section with nothing to report.
+- The summary is one sentence about the release as a whole.
+
+--- CHANGES START ---
+${changeLog.trim()}
+--- CHANGES END ---`;
+
+export const isStructuredReleaseNotes = (
+  data: unknown
+): data is StructuredReleaseNotes => {
+  const notes = data as StructuredReleaseNotes;
+  const isStringList = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === "string");
+  return (
+    !!notes &&
+    typeof notes.summary === "string" &&
+    isStringList(notes.features) &&
+    isStringList(notes.fixes) &&
+    isStringList(notes.knownIssues)
+  );
+};
+
+/**
+ * Renders structured notes as the markdown stored in `releaseNotes`. Empty
+ * sections and blank items are left out.
+ */
+export const releaseNotesToMarkdown = (notes: StructuredReleaseNotes): string =>
+  [
+    notes.summary.trim(),
+    ...RELEASE_NOTES_SECTIONS.map(({ key, title }) => {
+      const items = notes[key].map((item) => item.trim()).filter(Boolean);
+      return items.length > 0
+        ? `## ${title}\n\n${items.map((item) => `- ${item}`).join("\n")}`
+        : "";
+    }),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+// e.g. "Generated by Gemini · gemini-2.5-flash"
+export const describeReleaseNotesOrigin = (origin: ReleaseNotesOrigin) =>
+  `Generated by ${
+    LLM_PROVIDERS.find((p) => p.value === origin.provider)?.label ||
+    origin.provider
+  } · ${origin.model}`;
+
+export const getLocaleLabel = (locale: string) =>
+  RELEASE_NOTES_LOCALES.find((l) => l.value === locale)?.label || locale;
+
+/**
+ * Builds the prompt for translating markdown release notes. Formatting and
+ * product names are kept as they are.
+ */
+export const buildReleaseNotesTranslationPrompt = (
+  notes: string,
+  locale: string
+): string =>
+  `Translate the release notes between the markers below into ${getLocaleLabel(
+    locale
+  )} (${locale}).
+- Keep the markdown structure: headings, list items and line breaks.
+- Do not translate product names, version numbers, code or identifiers.
+- Reply with the translated markdown only.
+
+<<<RELEASE NOTES
+${notes.trim()}
+RELEASE NOTES>>>`;
+
+/**
+ * Collects a version's release notes by locale. Versions uploaded before
+ * localized notes only have releaseNotes, in the default locale.
+ */
+export const getLocalizedReleaseNotes = (
+  version: Pick<
+    AppVersion,
+    "releaseNotes" | "releaseNotesLocale" | "localizedReleaseNotes"
+  >
+): LocalizedReleaseNotes => {
+  const localized: LocalizedReleaseNotes = {};
+  if (version.releaseNotes?.trim()) {
+    localized[version.releaseNotesLocale || DEFAULT_RELEASE_NOTES_LOCALE] =
+      version.releaseNotes;
+  }
+  Object.entries(version.localizedReleaseNotes || {}).forEach(
+    ([locale, notes]) => {
+      if (notes.trim()) localized[locale] = notes;
+    }
+  );
+  return localized;
+};
+
+/**
+ * Picks the locale to show notes in, matching the reader's preferred
+ * languages (e.g. navigator.languages) by language code.
+ * @returns The chosen locale, or null if there are no notes.
+ */
+export const pickReleaseNotesLocale = (
+  available: string[],
+  preferred: readonly string[],
+  fallback: string = DEFAULT_RELEASE_NOTES_LOCALE
+): string | null => {
+  for (const language of preferred) {
+    const code = language.toLowerCase().split("-")[0];
+    const match = available.find(
+      (locale) => locale.toLowerCase().split("-")[0] === code
+    );
+    if (match) return match;
+  }
+  if (available.includes(fallback)) return fallback;
+  return available[0] || null;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { Platform } from "../types";
+import { ReleaseNotesRequest } from "./releaseNotes";
+import { buildTemplateReleaseNotes } from "./releaseNotesTemplate";
+
+const request = (changeLog: string): ReleaseNotesRequest => ({
+  projectName: "Field App",
+  platform: Platform.Android,
+  versionName: "1.2.0",
+  buildNumber: "42",
+  changeLog,
+});
+
+const COMMIT_LOG = [
+  "a1b2c3d feat(sync): add offline sync (#12)",
+  "b2c3d4e fix: crash when opening settings",
+  "c3d4e5f chore: bump lint config",
+  "d4e5f6a Merge branch 'main' into release",
+  "e5f6a7b perf!: faster cold start",
+  "f6a7b8c docs: update README",
+  "0a1b2c3 fix: crash when opening settings",
+  "Known issue: dark mode colors are off on tablets",
+  "Resolved login timeout on slow networks",
+].join("\n");
+
+const CHANGELOG = `## [1.2.0] - 2024-01-01
+### Added
+- Export reports as CSV
+- Search across projects.
+### Fixed
+- Upload progress stuck at 99%
+### Security
+- Sessions expire after inactivity
+### Known Issues
+- Widgets do not refresh on Android 9
+### Changed
+- Bumped minimum SDK to 24`;
+
+describe("buildTemplateReleaseNotes", () => {
+  it("sorts conventional commits into sections", () => {
+    const notes = buildTemplateReleaseNotes(request(COMMIT_LOG));
+
+    expect(notes).toEqual({
+      summary: "Version 1.2.0 (build 42) brings 2 improvements and 2 fixes.",
+      features: ["Add offline sync", "Faster cold start"],
+      fixes: [
+        "Crash when opening settings",
+        "Resolved login timeout on slow networks",
+      ],
+      knownIssues: ["Dark mode colors are off on tablets"],
+    });
+    expect(buildTemplateReleaseNotes(request(COMMIT_LOG))).toEqual(notes);
+  });
+
+  it("follows Keep a Changelog headings", () => {
+    const notes = buildTemplateReleaseNotes(request(CHANGELOG));
+
+    expect(notes).toEqual({
+      summary: "Version 1.2.0 (build 42) brings 3 improvements and 2 fixes.",
+      features: [
+        "Export reports as CSV",
+        "Search across projects",
+        "Bumped minimum SDK to 24",
+      ],
+      fixes: [
+        "Upload progress stuck at 99%",
+        "Sessions expire after inactivity",
+      ],
+      knownIssues: ["Widgets do not refresh on Android 9"],
+    });
+    expect(buildTemplateReleaseNotes(request(CHANGELOG))).toEqual(notes);
+  });
+
+  it("reports maintenance releases", () => {
+    expect(
+      buildTemplateReleaseNotes(
+        request("chore: update dependencies\nci: cache npm\nv1.2.0")
+      )
+    ).toEqual({
+      summary: "Version 1.2.0 (build 42) contains maintenance changes.",
+      features: [],
+      fixes: [],
+      knownIssues: [],
+    });
+  });
+});
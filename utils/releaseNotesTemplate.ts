@@ -0,0 +1,113 @@
+import { StructuredReleaseNotes } from "../types";
+import { ReleaseNotesRequest } from "./releaseNotes";
+
+type Section = "features" | "fixes" | "knownIssues" | "skip";
+
+// Conventional commit types. Types not listed count as features.
+const COMMIT_TYPE_SECTIONS: Record<string, Section> = {
+  feat: "features",
+  perf: "features",
+  fix: "fixes",
+  revert: "fixes",
+  build: "skip",
+  chore: "skip",
+  ci: "skip",
+  docs: "skip",
+  refactor: "skip",
+  style: "skip",
+  test: "skip",
+};
+
+// Keep a Changelog headings such as "### Fixed".
+const HEADING_SECTIONS: [RegExp, Section][] = [
+  [/known issues?/i, "knownIssues"],
+  [/fix|security/i, "fixes"],
+  [/add|change|feature|improve|remove|deprecat/i, "features"],
+];
+
+const FIX_PATTERN = /\b(fix(e[sd])?|bug|crash(es)?|resolve[sd]?|patch(ed)?)\b/i;
+const KNOWN_ISSUE_PATTERN = /^(known issue|limitation|regression)s?\b\s*:?\s*/i;
+const NOISE_PATTERN =
+  /^(merge (branch|remote-tracking)|bump .+ from .+ to|release v?\d|v?\d+(\.\d+)+$)/i;
+
+const cleanLine = (line: string): string =>
+  line
+    .replace(/^\s*([-*•+]|\d+[.)])\s+/, "") // List markers
+    .replace(/^[0-9a-f]{7,40}\s+/i, "") // Commit hashes from `git log --oneline`
+    .replace(/^merge pull request #\d+ from \S+\s*/i, "")
+    .replace(/\s*\((#\d+|[0-9a-f]{7,40})\)\s*$/i, "") // Trailing PR or commit refs
+    .replace(/\s*#\d+\s*$/, "")
+    .trim();
+
+const toSentence = (text: string): string => {
+  const trimmed = text.trim().replace(/\.$/, "");
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+};
+
+const classifyLine = (
+  line: string,
+  heading: Section | null
+): [Section, string] => {
+  const conventional = line.match(/^(\w+)(\([^)]*\))?!?:\s*(.+)$/);
+  if (conventional) {
+    const type = conventional[1].toLowerCase();
+    return [COMMIT_TYPE_SECTIONS[type] || "features", conventional[3]];
+  }
+  if (KNOWN_ISSUE_PATTERN.test(line)) {
+    return ["knownIssues", line.replace(KNOWN_ISSUE_PATTERN, "")];
+  }
+  if (heading) return [heading, line];
+  return [FIX_PATTERN.test(line) ? "fixes" : "features", line];
+};
+
+/**
+ * Turns a pasted commit log, changelog or list of PR titles into release notes
+ * with fixed rules, so notes can be produced without any model. The same
+ * input always gives the same notes.
+ */
+export const buildTemplateReleaseNotes = ({
+  versionName,
+  buildNumber,
+  changeLog,
+}: ReleaseNotesRequest): StructuredReleaseNotes => {
+  const notes: StructuredReleaseNotes = {
+    summary: "",
+    features: [],
+    fixes: [],
+    knownIssues: [],
+  };
+  let heading: Section | null = null;
+
+  changeLog.split(/\r?\n/).forEach((rawLine) => {
+    const headingMatch = rawLine.match(/^\s*#{1,6}\s+(.+)$/);
+    if (headingMatch) {
+      heading =
+        HEADING_SECTIONS.find(([pattern]) =>
+          pattern.test(headingMatch[1])
+        )?.[1] || null;
+      return;
+    }
+    const line = cleanLine(rawLine);
+    if (!line || NOISE_PATTERN.test(line)) return;
+    const [section, text] = classifyLine(line, heading);
+    if (section === "skip" || !text.trim()) return;
+    const sentence = toSentence(text);
+    if (!notes[section].includes(sentence)) notes[section].push(sentence);
+  });
+
+  const counts = [
+    notes.features.length > 0 &&
+      `${notes.features.length} ${
+        notes.features.length === 1 ? "improvement" : "improvements"
+      }`,
+    notes.fixes.length > 0 &&
+      `${notes.fixes.length} ${notes.fixes.length === 1 ? "fix" : "fixes"}`,
+  ].filter(Boolean);
+  notes.summary =
+    counts.length > 0
+      ? `Version ${versionName} (build ${buildNumber}) brings ${counts.join(
+          " and "
+        )}.`
+      : `Version ${versionName} (build ${buildNumber}) contains maintenance changes.`;
+  return notes;
+};
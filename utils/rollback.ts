@@ -0,0 +1,98 @@
+import {
+  AppVersion,
+  BundlePlatform,
+  BundleUpdate,
+  DeploymentEnvironment,
+  Platform,
+} from "../types";
+
+const lastPublishedAt = (bundle: BundleUpdate): number =>
+  new Date(bundle.publishedAt || bundle.createdAt).getTime();
+
+/**
+ * Returns the version currently serving a platform in an environment. During
+ * a staged rollout this is the most recently activated of the two.
+ */
+export const getActiveVersion = (
+  versions: AppVersion[],
+  platform: Platform,
+  environment: DeploymentEnvironment
+): AppVersion | undefined => {
+  const activatedAt = (version: AppVersion): number => {
+    const entry = (version.environmentHistory || [])
+      .filter((h) => h.environment === environment && !h.deactivatedAt)
+      .pop();
+    return entry ? new Date(entry.activatedAt).getTime() : 0;
+  };
+  return versions
+    .filter(
+      (v) =>
+        v.platform === platform && v.activeEnvironments.includes(environment)
+    )
+    .sort((a, b) => activatedAt(b) - activatedAt(a))[0];
+};
+
+/**
+ * Finds the version a rollback of an environment restores: the other version
+ * of the platform that was most recently deactivated there. The backend makes
+ * the same choice from its stored history; this previews it.
+ * @returns The version, or undefined if no earlier activation is recorded.
+ */
+export const findRollbackTarget = (
+  versions: AppVersion[],
+  platform: Platform,
+  environment: DeploymentEnvironment
+): AppVersion | undefined => {
+  const current = getActiveVersion(versions, platform, environment);
+  const lastDeactivatedAt = (version: AppVersion): number =>
+    Math.max(
+      0,
+      ...(version.environmentHistory || [])
+        .filter((h) => h.environment === environment && h.deactivatedAt)
+        .map((h) => new Date(h.deactivatedAt as string).getTime())
+    );
+  return versions
+    .filter(
+      (v) =>
+        v.platform === platform &&
+        v._id !== current?._id &&
+        !v.activeEnvironments.includes(environment) &&
+        lastDeactivatedAt(v) > 0
+    )
+    .sort((a, b) => lastDeactivatedAt(b) - lastDeactivatedAt(a))[0];
+};
+
+/**
+ * Returns the bundle clients of a platform currently receive: the one
+ * published most recently.
+ */
+export const getLiveBundle = (
+  bundles: BundleUpdate[],
+  platform: BundlePlatform
+): BundleUpdate | undefined =>
+  bundles
+    .filter((b) => b.platform === platform)
+    .sort((a, b) => lastPublishedAt(b) - lastPublishedAt(a))[0];
+
+/**
+ * Finds the bundle to re-publish when rolling back a platform: the most
+ * recently published bundle before the live one that has not itself been
+ * rolled back since its last publish.
+ */
+export const findBundleRollbackTarget = (
+  bundles: BundleUpdate[],
+  platform: BundlePlatform
+): BundleUpdate | undefined => {
+  const live = getLiveBundle(bundles, platform);
+  return bundles
+    .filter(
+      (b) =>
+        b.platform === platform &&
+        b._id !== live?._id &&
+        !(
+          b.rolledBackAt &&
+          new Date(b.rolledBackAt).getTime() >= lastPublishedAt(b)
+        )
+    )
+    .sort((a, b) => lastPublishedAt(b) - lastPublishedAt(a))[0];
+};
@@ -0,0 +1,43 @@
+import {
+  AppVersion,
+  DeploymentEnvironment,
+  EnvironmentRollout,
+} from "../types";
+
+/**
+ * Returns the rollout of a version in an environment, if the version is active
+ * there. Active versions without a rollout entry are fully rolled out.
+ */
+export const getEnvironmentRollout = (
+  version: AppVersion,
+  environment: DeploymentEnvironment
+): EnvironmentRollout | undefined => {
+  if (!version.activeEnvironments.includes(environment)) return undefined;
+  return version.rollouts?.find((r) => r.environment === environment);
+};
+
+/**
+ * Whether the version only serves part of the environment's users, i.e. a
+ * rollout below 100% that is running or halted.
+ */
+export const isStagedRollout = (
+  rollout: EnvironmentRollout | undefined
+): rollout is EnvironmentRollout =>
+  !!rollout && rollout.status !== "completed" && rollout.percentage < 100;
+
+/**
+ * Finds the version serving the users not yet included in a staged rollout.
+ */
+export const getPreviousRolloutVersion = (
+  versions: AppVersion[],
+  version: AppVersion,
+  rollout: EnvironmentRollout
+): AppVersion | undefined =>
+  (rollout.previousVersionId &&
+    versions.find((v) => v._id === rollout.previousVersionId)) ||
+  versions.find(
+    (v) =>
+      v._id !== version._id &&
+      v.platform === version.platform &&
+      v.activeEnvironments.includes(rollout.environment)
+  );
@@ -0,0 +1,131 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it, vi } from "vitest";
+import { UPLOAD_CHUNK_SIZE_BYTES } from "../constants";
+import { computeSha256 } from "./integrity";
+import { createSha256, hashInSlices } from "./sha256";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const sha256Hex = (text: string) => {
+  const hash = createSha256();
+  hash.update(encode(text));
+  return hash.digest();
+};
+
+// Deterministic bytes that are not all the same.
+const makeBytes = (length: number) =>
+  Uint8Array.from({ length }, (_, i) => (i * 31 + (i >> 8)) & 0xff);
+
+describe("createSha256", () => {
+  it.each([
+    ["", "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"],
+    ["abc", "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"],
+    [
+      "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+    ],
+  ])("hashes %j", (text, expected) => {
+    expect(sha256Hex(text)).toBe(expected);
+  });
+
+  it("hashes a million repetitions of 'a'", () => {
+    const hash = createSha256();
+    const block = encode("a".repeat(1000));
+    for (let i = 0; i < 1000; i++) hash.update(block);
+
+    expect(hash.digest()).toBe(
+      "cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0"
+    );
+  });
+
+  it.each([55, 56, 63, 64, 65, 127, 128])(
+    "pads a %i byte message",
+    (length) => {
+      const bytes = makeBytes(length);
+      const hash = createSha256();
+      hash.update(bytes);
+
+      expect(hash.digest()).toBe(
+        createHash("sha256").update(bytes).digest("hex")
+      );
+    }
+  );
+
+  it("gives the same digest however the input is split", () => {
+    const bytes = makeBytes(1000);
+    const hash = createSha256();
+    [0, 1, 7, 64, 100, 500, 1000].reduce((start, end) => {
+      hash.update(bytes.subarray(start, end));
+      return end;
+    });
+
+    expect(hash.digest()).toBe(
+      createHash("sha256").update(bytes).digest("hex")
+    );
+  });
+
+  it("cannot be used after the digest", () => {
+    const hash = createSha256();
+    hash.digest();
+
+    expect(() => hash.update(encode("a"))).toThrow();
+    expect(() => hash.digest()).toThrow();
+  });
+});
+
+describe("hashInSlices", () => {
+  it("hashes a file slice by slice and reports progress", async () => {
+    const size = UPLOAD_CHUNK_SIZE_BYTES + 1000;
+    const bytes = makeBytes(size);
+    const onProgress = vi.fn();
+
+    await expect(hashInSlices(new Blob([bytes]), { onProgress })).resolves.toBe(
+      createHash("sha256").update(bytes).digest("hex")
+    );
+    expect(onProgress.mock.calls).toEqual([
+      [UPLOAD_CHUNK_SIZE_BYTES, size],
+      [size, size],
+    ]);
+  });
+
+  it("hashes an empty file", async () => {
+    await expect(hashInSlices(new Blob([]))).resolves.toBe(
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+    );
+  });
+
+  it("stops when aborted", async () => {
+    const controller = new AbortController();
+    const onProgress = vi.fn(() => controller.abort());
+    const blob = new Blob([new Uint8Array(UPLOAD_CHUNK_SIZE_BYTES * 2)]);
+
+    await expect(
+      hashInSlices(blob, { signal: controller.signal, onProgress })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(onProgress).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("computeSha256", () => {
+  it("digests files sent in a single request with Web Crypto", async () => {
+    const bytes = makeBytes(1000);
+    const digest = vi.spyOn(crypto.subtle, "digest");
+    const onProgress = vi.fn();
+
+    await expect(
+      computeSha256(new Blob([bytes]), { onProgress })
+    ).resolves.toBe(createHash("sha256").update(bytes).digest("hex"));
+    expect(digest).toHaveBeenCalledWith("SHA-256", expect.anything());
+    expect(onProgress.mock.calls).toEqual([[1000, 1000]]);
+    digest.mockRestore();
+  });
+
+  it("does not start when already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      computeSha256(new Blob([makeBytes(10)]), { signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
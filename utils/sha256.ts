@@ -0,0 +1,165 @@
+// Incremental SHA-256 (FIPS 180-4). Web Crypto can only digest a whole buffer
+// at once, so files too large to read in one go are fed to this one slice at a
+// time instead. It is slow next to Web Crypto and only runs in
+// `sha256.worker.ts`, never on the main thread.
+
+import { UPLOAD_CHUNK_SIZE_BYTES } from "../constants";
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+];
+
+const BLOCK_BYTES = 64;
+
+export interface Sha256 {
+  update: (bytes: Uint8Array) => void;
+  // Finishes the hash; the instance cannot be updated afterwards.
+  digest: () => string; // Lowercase hex
+}
+
+export const createSha256 = (): Sha256 => {
+  const state = new Uint32Array(INITIAL_STATE);
+  const words = new Uint32Array(64);
+  const pending = new Uint8Array(BLOCK_BYTES); // Bytes short of a full block
+  let pendingLength = 0;
+  let totalBytes = 0;
+  let finished = false;
+
+  const processBlock = (block: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      words[i] =
+        (block[j] << 24) |
+        (block[j + 1] << 16) |
+        (block[j + 2] << 8) |
+        block[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = words[i - 15];
+      const w2 = words[i - 2];
+      const s0 =
+        ((w15 >>> 7) | (w15 << 25)) ^
+        ((w15 >>> 18) | (w15 << 14)) ^
+        (w15 >>> 3);
+      const s1 =
+        ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const s1 =
+        ((e >>> 6) | (e << 26)) ^
+        ((e >>> 11) | (e << 21)) ^
+        ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + ch + K[i] + words[i]) | 0;
+      const s0 =
+        ((a >>> 2) | (a << 30)) ^
+        ((a >>> 13) | (a << 19)) ^
+        ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  };
+
+  const update = (bytes: Uint8Array) => {
+    if (finished) throw new Error("SHA-256 digest was already computed.");
+    totalBytes += bytes.length;
+    let offset = 0;
+    if (pendingLength > 0) {
+      const taken = Math.min(BLOCK_BYTES - pendingLength, bytes.length);
+      pending.set(bytes.subarray(0, taken), pendingLength);
+      pendingLength += taken;
+      offset = taken;
+      if (pendingLength < BLOCK_BYTES) return;
+      processBlock(pending, 0);
+      pendingLength = 0;
+    }
+    for (; offset + BLOCK_BYTES <= bytes.length; offset += BLOCK_BYTES) {
+      processBlock(bytes, offset);
+    }
+    pending.set(bytes.subarray(offset), 0);
+    pendingLength = bytes.length - offset;
+  };
+
+  const digest = () => {
+    if (finished) throw new Error("SHA-256 digest was already computed.");
+    // Padding: a 1 bit, zeros, then the message length in bits as 64 bits.
+    const bitLength = totalBytes * 8;
+    const padding = new Uint8Array(
+      pendingLength < 56 ? 64 - pendingLength : 128 - pendingLength
+    );
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bitLength / 2 ** 32));
+    view.setUint32(padding.length - 4, bitLength >>> 0);
+    update(padding);
+    finished = true;
+    return Array.from(state)
+      .map((word) => word.toString(16).padStart(8, "0"))
+      .join("");
+  };
+
+  return { update, digest };
+};
+
+export interface SliceHashOptions {
+  signal?: AbortSignal;
+  onProgress?: (hashedBytes: number, totalBytes: number) => void;
+}
+
+/**
+ * Hashes a blob one upload-chunk-sized slice at a time, so only a single slice
+ * is held in memory.
+ * @returns The digest as a lowercase hex string.
+ * @throws The signal's reason when aborted between slices.
+ */
+export const hashInSlices = async (
+  file: Blob,
+  { signal, onProgress }: SliceHashOptions = {}
+): Promise<string> => {
+  const hash = createSha256();
+  for (let offset = 0; offset < file.size; offset += UPLOAD_CHUNK_SIZE_BYTES) {
+    signal?.throwIfAborted();
+    const slice = file.slice(offset, offset + UPLOAD_CHUNK_SIZE_BYTES);
+    hash.update(new Uint8Array(await slice.arrayBuffer()));
+    onProgress?.(
+      Math.min(offset + UPLOAD_CHUNK_SIZE_BYTES, file.size),
+      file.size
+    );
+  }
+  signal?.throwIfAborted();
+  return hash.digest();
+};
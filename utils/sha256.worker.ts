@@ -0,0 +1,25 @@
+// Hashes a file posted from `computeSha256` off the main thread, reporting
+// progress after each slice. The page terminates the worker to cancel.
+import { hashInSlices } from "./sha256";
+
+export type Sha256WorkerMessage =
+  | { type: "progress"; hashedBytes: number; totalBytes: number }
+  | { type: "done"; digest: string }
+  | { type: "error"; message: string };
+
+const post = (message: Sha256WorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<Blob>) => {
+  try {
+    const digest = await hashInSlices(event.data, {
+      onProgress: (hashedBytes, totalBytes) =>
+        post({ type: "progress", hashedBytes, totalBytes }),
+    });
+    post({ type: "done", digest });
+  } catch (e) {
+    post({
+      type: "error",
+      message: e instanceof Error ? e.message : "Failed to hash the file.",
+    });
+  }
+};
@@ -0,0 +1,23 @@
+// Fixtures shared by the unit tests. Not imported by the app.
+import { AppVersion, Platform } from "../types";
+
+/**
+ * Builds an Android version with the required fields filled in; tests set
+ * only the fields they are about.
+ */
+export const makeVersion = (
+  overrides: Partial<AppVersion> = {}
+): AppVersion => ({
+  _id: "v1",
+  platform: Platform.Android,
+  versionName: "1.2.0",
+  buildNumber: "42",
+  fileName: "app.bin",
+  fileSize: "1 MB",
+  uploadDate: "2024-01-01T00:00:00.000Z",
+  downloadUrl: "",
+  qrCodeValue: "",
+  filePath: "",
+  activeEnvironments: [],
+  ...overrides,
+});
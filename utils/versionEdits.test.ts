@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  getBinaryMismatchWarnings,
+  getVersionChanges,
+  VersionDetailsUpdate,
+} from "./versionEdits";
+import { makeVersion } from "./testFixtures";
+
+const version = makeVersion({
+  releaseNotes: "Fixes",
+  releaseNotesLocale: "en",
+  binaryVersionName: "1.2.0",
+  binaryBuildNumber: "43",
+});
+
+const update = (
+  changes: Partial<VersionDetailsUpdate> = {}
+): VersionDetailsUpdate => ({
+  versionName: "1.2.0",
+  buildNumber: "42",
+  localizedReleaseNotes: { en: "Fixes" },
+  ...changes,
+});
+
+describe("getVersionChanges", () => {
+  it("ignores surrounding whitespace", () => {
+    expect(
+      getVersionChanges(
+        version,
+        update({
+          versionName: " 1.2.0 ",
+          localizedReleaseNotes: { en: "Fixes\n" },
+        })
+      )
+    ).toEqual([]);
+  });
+
+  it("lists changed fields and notes per locale", () => {
+    expect(
+      getVersionChanges(
+        version,
+        update({
+          buildNumber: "43",
+          localizedReleaseNotes: { en: "Fixes", vi: "Sửa lỗi" },
+        })
+      )
+    ).toEqual([
+      { field: "buildNumber", before: "42", after: "43" },
+      { field: "releaseNotes", locale: "vi", before: "", after: "Sửa lỗi" },
+    ]);
+  });
+});
+
+describe("getBinaryMismatchWarnings", () => {
+  it("accepts edits that match the uploaded file", () => {
+    expect(
+      getBinaryMismatchWarnings(version, update({ buildNumber: "43" }))
+    ).toEqual([]);
+  });
+
+  it("warns when an edit differs from the uploaded file", () => {
+    expect(
+      getBinaryMismatchWarnings(version, update({ versionName: "1.3.0" }))
+    ).toEqual([
+      "Version name 1.3.0 does not match 1.2.0 in the uploaded file.",
+    ]);
+  });
+
+  it("does not warn about values that were not edited", () => {
+    expect(
+      getBinaryMismatchWarnings(version, update({ localizedReleaseNotes: {} }))
+    ).toEqual([]);
+  });
+
+  it("warns once when the file's version is unknown", () => {
+    const unread = {
+      ...version,
+      binaryVersionName: undefined,
+      binaryBuildNumber: undefined,
+    };
+
+    expect(
+      getBinaryMismatchWarnings(
+        unread,
+        update({ versionName: "1.3.0", buildNumber: "44" })
+      )
+    ).toEqual([
+      "The uploaded file's version could not be read, so the new values cannot be checked against it.",
+    ]);
+  });
+});
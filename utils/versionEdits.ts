@@ -0,0 +1,89 @@
+import {
+  AppVersion,
+  LocalizedReleaseNotes,
+  VersionFieldChange,
+} from "../types";
+import { VERSION_FIELD_LABELS } from "../constants";
+import { getLocaleLabel, getLocalizedReleaseNotes } from "./releaseNotes";
+
+// The editable details of a version as entered in the edit form.
+export interface VersionDetailsUpdate {
+  versionName: string;
+  buildNumber: string;
+  localizedReleaseNotes: LocalizedReleaseNotes;
+}
+
+/**
+ * Lists what an edit changes, comparing release notes locale by locale.
+ * Whitespace around names and trailing whitespace in notes is ignored.
+ */
+export const getVersionChanges = (
+  version: AppVersion,
+  update: VersionDetailsUpdate
+): VersionFieldChange[] => {
+  const changes: VersionFieldChange[] = [];
+  (["versionName", "buildNumber"] as const).forEach((field) => {
+    const after = update[field].trim();
+    if (after !== version[field]) {
+      changes.push({ field, before: version[field], after });
+    }
+  });
+
+  const notesBefore = getLocalizedReleaseNotes(version);
+  const locales = new Set([
+    ...Object.keys(notesBefore),
+    ...Object.keys(update.localizedReleaseNotes),
+  ]);
+  locales.forEach((locale) => {
+    const before = notesBefore[locale] || "";
+    const after = (update.localizedReleaseNotes[locale] || "").trimEnd();
+    if (after !== before.trimEnd()) {
+      changes.push({ field: "releaseNotes", locale, before, after });
+    }
+  });
+  return changes;
+};
+
+/**
+ * Warns when an edited version name or build number no longer matches the
+ * one read from the file at upload, or cannot be checked because none was.
+ */
+export const getBinaryMismatchWarnings = (
+  version: AppVersion,
+  update: VersionDetailsUpdate
+): string[] => {
+  const binaryValues = {
+    versionName: version.binaryVersionName,
+    buildNumber: version.binaryBuildNumber,
+  };
+  const warnings: string[] = [];
+  let unverified = false;
+  (["versionName", "buildNumber"] as const).forEach((field) => {
+    const after = update[field].trim();
+    const binaryValue = binaryValues[field];
+    if (after === version[field]) return;
+    if (!binaryValue) {
+      unverified = true;
+    } else if (after !== binaryValue) {
+      warnings.push(
+        `${VERSION_FIELD_LABELS[field]} ${after} does not match ${binaryValue} in the uploaded file.`
+      );
+    }
+  });
+  if (unverified) {
+    warnings.push(
+      "The uploaded file's version could not be read, so the new values cannot be checked against it."
+    );
+  }
+  return warnings;
+};
+
+// e.g. "Version name: 1.0 → 1.0.1" or "Release notes (Tiếng Việt)"
+export const describeVersionChange = (change: VersionFieldChange): string =>
+  change.field === "releaseNotes"
+    ? `${VERSION_FIELD_LABELS.releaseNotes}${
+        change.locale ? ` (${getLocaleLabel(change.locale)})` : ""
+      }`
+    : `${VERSION_FIELD_LABELS[change.field]}: ${change.before} → ${
+        change.after
+      }`;
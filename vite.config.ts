@@ -6,7 +6,10 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.API_BASE_URL': JSON.stringify(env.VITE_API_BASE_URL),
+        'process.env.API_STAGING_URL': JSON.stringify(env.VITE_API_STAGING_URL),
+        'process.env.API_PRODUCTION_URL': JSON.stringify(env.VITE_API_PRODUCTION_URL)
       },
       resolve: {
         alias: {